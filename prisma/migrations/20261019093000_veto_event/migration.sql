@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "VetoEvent" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "stepIndex" INTEGER NOT NULL,
+    "team" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "mapId" TEXT,
+    "side" TEXT,
+    "actorClientId" TEXT,
+    "actorUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VetoEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VetoEvent_roomId_stepIndex_idx" ON "VetoEvent"("roomId", "stepIndex");
+
+-- CreateIndex
+CREATE INDEX "VetoEvent_mapId_action_idx" ON "VetoEvent"("mapId", "action");
+
+-- CreateIndex
+CREATE INDEX "VetoEvent_createdAt_idx" ON "VetoEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "VetoEvent" ADD CONSTRAINT "VetoEvent_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VetoEvent" ADD CONSTRAINT "VetoEvent_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
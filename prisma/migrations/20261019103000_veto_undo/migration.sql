@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "VetoEvent" ADD COLUMN     "undoneAt" TIMESTAMP(3);
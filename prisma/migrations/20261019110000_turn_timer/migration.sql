@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "turnTimeLimitSeconds" INTEGER,
+ADD COLUMN     "timeoutFallback" TEXT NOT NULL DEFAULT 'random',
+ADD COLUMN     "turnDeadline" TIMESTAMP(3);
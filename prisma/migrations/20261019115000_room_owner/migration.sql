@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "createdById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Room_createdById_idx" ON "Room"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "RoomEvent" ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "result" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomEvent_roomId_idempotencyKey_key" ON "RoomEvent"("roomId", "idempotencyKey");
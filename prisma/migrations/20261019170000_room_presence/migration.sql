@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "RoomPresence" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "connectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+
+    CONSTRAINT "RoomPresence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomPresence_roomId_clientId_key" ON "RoomPresence"("roomId", "clientId");
+
+-- AddForeignKey
+ALTER TABLE "RoomPresence" ADD CONSTRAINT "RoomPresence_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
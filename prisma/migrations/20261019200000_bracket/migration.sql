@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN "format" TEXT;
+
+-- AlterTable
+ALTER TABLE "Match" ALTER COLUMN "teamAId" DROP NOT NULL,
+ALTER COLUMN "teamBId" DROP NOT NULL,
+ADD COLUMN "winnerId" TEXT,
+ADD COLUMN "roundType" TEXT,
+ADD COLUMN "bracketKey" TEXT,
+ADD COLUMN "section" TEXT,
+ADD COLUMN "round" INTEGER,
+ADD COLUMN "position" INTEGER,
+ADD COLUMN "winnerToKey" TEXT,
+ADD COLUMN "winnerToSlot" TEXT,
+ADD COLUMN "loserToKey" TEXT,
+ADD COLUMN "loserToSlot" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Match_tournamentId_bracketKey_key" ON "Match"("tournamentId", "bracketKey");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_winnerId_fkey" FOREIGN KEY ("winnerId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN "stageFormat" TEXT,
+ADD COLUMN "stageSeeds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "stageRounds" INTEGER,
+ADD COLUMN "stageRound" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "stage" TEXT,
+ADD COLUMN "groupName" TEXT;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "seriesWinner" TEXT;
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "mapResults" JSONB;
+
+-- CreateTable
+CREATE TABLE "MapResult" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "mapIndex" INTEGER NOT NULL,
+    "mapId" TEXT NOT NULL,
+    "teamAScore" INTEGER NOT NULL,
+    "teamBScore" INTEGER NOT NULL,
+    "reportedBy" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'reported',
+    "disputeReason" TEXT,
+    "reportedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "confirmedAt" TIMESTAMP(3),
+
+    CONSTRAINT "MapResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MapResult_roomId_mapIndex_key" ON "MapResult"("roomId", "mapIndex");
+
+-- CreateIndex
+CREATE INDEX "MapResult_status_idx" ON "MapResult"("status");
+
+-- AddForeignKey
+ALTER TABLE "MapResult" ADD CONSTRAINT "MapResult_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
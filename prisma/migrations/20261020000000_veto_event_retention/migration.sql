@@ -0,0 +1,23 @@
+-- DropForeignKey
+ALTER TABLE "VetoEvent" DROP CONSTRAINT "VetoEvent_roomId_fkey";
+
+-- AlterTable
+ALTER TABLE "VetoEvent" ALTER COLUMN "roomId" DROP NOT NULL,
+ADD COLUMN     "masterRoomId" TEXT,
+ADD COLUMN     "roundType" TEXT,
+ADD COLUMN     "maps" TEXT[];
+
+-- Backfill the room fields every existing row's room still has
+UPDATE "VetoEvent" e
+SET "masterRoomId" = r."masterRoomId", "roundType" = r."roundType", "maps" = r."maps"
+FROM "Room" r
+WHERE r."id" = e."roomId";
+
+ALTER TABLE "VetoEvent" ALTER COLUMN "masterRoomId" SET NOT NULL,
+ALTER COLUMN "roundType" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "VetoEvent_masterRoomId_stepIndex_idx" ON "VetoEvent"("masterRoomId", "stepIndex");
+
+-- AddForeignKey
+ALTER TABLE "VetoEvent" ADD CONSTRAINT "VetoEvent_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE SET NULL ON UPDATE CASCADE;
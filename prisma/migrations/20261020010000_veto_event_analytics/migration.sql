@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "VetoEvent" ADD COLUMN "presetId" TEXT,
+ADD COLUMN "tournamentId" TEXT,
+ADD COLUMN "teamId" TEXT,
+ADD COLUMN "completesVeto" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill the room and match fields for rows whose room still exists
+UPDATE "VetoEvent" e
+SET "presetId" = r."presetId",
+    "tournamentId" = m."tournamentId",
+    "teamId" = CASE e."team" WHEN 'team-a' THEN m."teamAId" WHEN 'team-b' THEN m."teamBId" END
+FROM "Room" r
+LEFT JOIN "Match" m ON m."roomId" = r."id"
+WHERE r."id" = e."roomId";
+
+-- The standing step at the last index of a completed veto is the one that completed it
+UPDATE "VetoEvent" e
+SET "completesVeto" = true
+FROM "Room" r
+WHERE r."id" = e."roomId"
+  AND r."vetoCompleted" = true
+  AND e."undoneAt" IS NULL
+  AND e."action" <> 'undo'
+  AND e."stepIndex" = jsonb_array_length(r."vetoState"->'actions') - 1;
+
+-- CreateIndex
+CREATE INDEX "VetoEvent_completesVeto_createdAt_idx" ON "VetoEvent"("completesVeto", "createdAt");
@@ -9,14 +9,55 @@ import { Badge } from '~/components/ui/badge';
 import { Input } from '~/components/ui/input';
 import { Label } from '~/components/ui/label';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '~/components/ui/tooltip';
-import { Eye, Crown, Clock, CheckCircle, XCircle, Edit, Wifi, WifiOff } from 'lucide-react';
+import { Eye, Crown, Clock, CheckCircle, XCircle, Edit, Wifi, WifiOff, Undo2, Ban } from 'lucide-react';
 import { api } from '~/trpc/react';
 import VetoProcess from '../_components/veto-process';
+import RoomPresence from '../_components/room-presence';
+import { MapResults } from '../_components/veto/map-results';
 import { type RoomData } from '~/types/room';
+import type { RoomRealtimeUpdate } from '~/types/realtime';
+import type { VetoState } from '~/types/veto';
 import { MAP_DATA, getRoundLabel } from '~/constants/maps';
 import { useSupabaseRoomUpdates } from '~/hooks/use-supabase-realtime';
+import { useIdempotencyKey } from '~/hooks/use-idempotency-key';
+import { useRoomPresence } from '~/hooks/use-room-presence';
 import { ConnectionRefreshPrompt } from '~/components/ui/connection-refresh-prompt';
 
+type RoomPatch = Partial<Pick<RoomData,
+    'teamAReady' | 'teamBReady' | 'teamAName' | 'teamBName' | 'status' |
+    'vetoStarted' | 'vetoCompleted' | 'currentTurn' | 'vetoState' | 'cancelReason'>>;
+
+// Translate an event from the server's log into the room fields it changed
+const getRoomPatch = (update: RoomRealtimeUpdate): RoomPatch => {
+    const data = update.data ?? {};
+
+    switch (update.type) {
+        case 'team-ready-updated':
+            return { teamAReady: data.teamAReady as boolean, teamBReady: data.teamBReady as boolean };
+        case 'team-name-updated':
+            return { teamAName: data.teamAName as string | null, teamBName: data.teamBName as string | null };
+        case 'veto-started':
+        case 'veto-action':
+        case 'side-selected':
+        case 'veto-undone': {
+            const vetoCompleted = data.vetoCompleted as boolean;
+            return {
+                vetoStarted: true,
+                vetoCompleted,
+                status: vetoCompleted ? 'completed' : 'active',
+                currentTurn: data.currentTurn as string | null,
+                vetoState: data.vetoState,
+            };
+        }
+        case 'room-cancelled':
+            return { status: 'cancelled', cancelReason: data.reason as string | null };
+        case 'room-expired':
+            return { status: 'expired' };
+        default:
+            return {};
+    }
+};
+
 export default function RoomPage() {
     const params = useParams();
     const roomId = params.roomId as string;
@@ -26,6 +67,9 @@ export default function RoomPage() {
     const [teamName, setTeamName] = useState('');
     const [isEditingName, setIsEditingName] = useState(false);
 
+    // Only team views carry a team role; spectators and organizers just watch
+    const teamRole = roomData?.role === 'team-a' || roomData?.role === 'team-b' ? roomData.role : undefined;
+
     // Try to get room by master room ID first
     const masterRoomQuery = api.room.getByMasterRoomId.useQuery(
         { masterRoomId: roomId },
@@ -38,15 +82,24 @@ export default function RoomPage() {
         { enabled: !!roomId && !masterRoomQuery.data && !masterRoomQuery.isPending }
     );
 
-    // Supabase realtime updates for the room
-    const handleRealtimeUpdate = useCallback((update: { type: string; data?: Record<string, unknown> }) => {
+    // Realtime updates for the room, read from the server's log after a broadcast signals a new version
+    const handleRealtimeUpdate = useCallback((update: RoomRealtimeUpdate) => {
         console.log('Received realtime update:', update);
 
-        if (update.type === 'team-ready-updated' || update.type === 'team-name-updated') {
-            // Refetch room data to get latest state
-            void masterRoomQuery.refetch();
-            void teamRoomQuery.refetch();
+        if (update.type === 'room-deleted') {
+            setRoomData(null);
+            setError('Room not found');
+            return;
         }
+
+        const patch = getRoomPatch(update);
+        setRoomData(prev => prev ? { ...prev, ...patch, version: update.version } : prev);
+    }, []);
+
+    // Missed updates that could not be replayed: refetch room data to get latest state
+    const handleResync = useCallback(() => {
+        void masterRoomQuery.refetch();
+        void teamRoomQuery.refetch();
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [masterRoomQuery.refetch, teamRoomQuery.refetch]);
 
@@ -54,7 +107,9 @@ export default function RoomPage() {
     const supabaseRealtime = useSupabaseRoomUpdates({
         roomId: roomData?.masterRoomId ?? roomId,
         enabled: enabledRealtime,
+        version: roomData?.version,
         onUpdate: handleRealtimeUpdate,
+        onResync: handleResync,
     });
 
     // Use the values directly from the hook instead of storing in separate state
@@ -63,31 +118,55 @@ export default function RoomPage() {
         latency,
         shouldShowRefreshPrompt,
         connectionFailureCount,
-        broadcastRoomUpdate
     } = supabaseRealtime;
 
+    const presence = useRoomPresence({
+        roomId,
+        masterRoomId: roomData?.masterRoomId ?? '',
+        clientId: supabaseRealtime.clientId,
+        enabled: Boolean(roomData) && roomData?.status !== 'cancelled' && roomData?.status !== 'expired',
+    });
+
+    // A replayed request returns the room as it was back then, so never step back to an older version
+    const applyMutationResult = useCallback((updatedRoom: RoomData) => {
+        setRoomData(prev => prev && prev.version > updatedRoom.version ? prev : updatedRoom);
+    }, []);
+
+    const { getKey: getReadyKey, clearKey: clearReadyKey } = useIdempotencyKey();
+    const { getKey: getNameKey, clearKey: clearNameKey } = useIdempotencyKey();
+
     const updateTeamReadyMutation = api.room.updateTeamReady.useMutation({
         onSuccess: (updatedRoom) => {
-            setRoomData(updatedRoom);
-            // Broadcast the update to other clients
-            void broadcastRoomUpdate('team-ready-updated', {
-                teamAReady: updatedRoom.teamAReady,
-                teamBReady: updatedRoom.teamBReady,
-                status: updatedRoom.status,
-                vetoStarted: updatedRoom.vetoStarted,
-            });
+            clearReadyKey();
+            applyMutationResult(updatedRoom);
+        },
+    });
+
+    // Room creators and organizers can roll back misclicked veto steps
+    const canManageQuery = api.room.canManage.useQuery(
+        { roomId: roomData?.masterRoomId ?? roomId },
+        { enabled: !!roomData }
+    );
+
+    const undoLastVetoActionMutation = api.room.undoLastVetoAction.useMutation({
+        onSuccess: () => {
+            void masterRoomQuery.refetch();
+            void teamRoomQuery.refetch();
+        },
+        onError: (error) => {
+            // The veto moved on since this page last saw it; load the current state before another try
+            if (error.data?.code === 'CONFLICT') {
+                void masterRoomQuery.refetch();
+                void teamRoomQuery.refetch();
+            }
         },
     });
 
     const updateTeamNameMutation = api.room.updateTeamName.useMutation({
         onSuccess: (updatedRoom) => {
-            setRoomData(updatedRoom);
+            clearNameKey();
+            applyMutationResult(updatedRoom);
             setIsEditingName(false);
-            // Broadcast the update to other clients
-            void broadcastRoomUpdate('team-name-updated', {
-                teamAName: updatedRoom.teamAName,
-                teamBName: updatedRoom.teamBName,
-            });
         },
     });
 
@@ -97,7 +176,7 @@ export default function RoomPage() {
             setIsLoading(false);
         } else if (teamRoomQuery.data) {
             setRoomData(teamRoomQuery.data);
-            const currentTeamName = teamRoomQuery.data.teamRole === 'team-a'
+            const currentTeamName = teamRoomQuery.data.role === 'team-a'
                 ? teamRoomQuery.data.teamAName
                 : teamRoomQuery.data.teamBName;
             setTeamName(currentTeamName ?? '');
@@ -109,42 +188,54 @@ export default function RoomPage() {
     }, [masterRoomQuery.data, teamRoomQuery.data, masterRoomQuery.isError, teamRoomQuery.isError]);
 
     const handleTeamReady = async (ready: boolean) => {
-        if (!roomData?.teamRole) return;
+        if (!teamRole) return;
 
         try {
-            const updatedRoom = await updateTeamReadyMutation.mutateAsync({
+            await updateTeamReadyMutation.mutateAsync({
                 teamId: roomId,
                 ready,
+                idempotencyKey: getReadyKey(`ready:${ready}`),
             });
-            setRoomData(updatedRoom);
         } catch (error) {
             console.error('Error updating team ready status:', error);
         }
     };
 
     const handleTeamNameSave = async () => {
-        if (!roomData?.teamRole || teamName.trim() === '') return;
+        if (!teamRole || teamName.trim() === '') return;
 
         try {
-            const updatedRoom = await updateTeamNameMutation.mutateAsync({
+            await updateTeamNameMutation.mutateAsync({
                 teamId: roomId,
                 teamName: teamName.trim(),
+                idempotencyKey: getNameKey(`name:${teamName.trim()}`),
             });
-            setRoomData(updatedRoom);
-            setIsEditingName(false);
         } catch (error) {
             console.error('Error updating team name:', error);
         }
     };
 
+    const handleUndoLastVetoAction = async () => {
+        if (!roomData) return;
+
+        try {
+            await undoLastVetoActionMutation.mutateAsync({
+                roomId: roomData.masterRoomId,
+                expectedVersion: roomData.version,
+            });
+        } catch (error) {
+            console.error('Error undoing veto action:', error);
+        }
+    };
+
     const getCurrentTeamName = () => {
-        if (!roomData?.teamRole) return '';
-        return roomData.teamRole === 'team-a' ? (roomData.teamAName ?? '') : (roomData.teamBName ?? '');
+        if (!roomData || !teamRole) return '';
+        return teamRole === 'team-a' ? (roomData.teamAName ?? '') : (roomData.teamBName ?? '');
     };
 
     const isCurrentTeamReady = () => {
-        if (!roomData?.teamRole) return false;
-        return roomData.teamRole === 'team-a' ? roomData.teamAReady : roomData.teamBReady;
+        if (!roomData || !teamRole) return false;
+        return teamRole === 'team-a' ? roomData.teamAReady : roomData.teamBReady;
     };
 
     const getTimeRemaining = (expiresAt: string): string => {
@@ -189,8 +280,8 @@ export default function RoomPage() {
         console.log('User dismissed connection refresh prompt');
     };
 
-    const isSpectator = !roomData?.teamRole;
-    const isTeamA = roomData?.teamRole === 'team-a';
+    const isSpectator = !teamRole;
+    const isTeamA = teamRole === 'team-a';
 
     if (isLoading) {
         return (
@@ -219,6 +310,49 @@ export default function RoomPage() {
         );
     }
 
+    if (roomData.status === 'cancelled') {
+        return (
+            <div className="w-full max-w-4xl mx-auto p-4">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Ban className="w-5 h-5" />
+                            Room Cancelled
+                        </CardTitle>
+                        <CardDescription>
+                            The organizer cancelled this veto. No further actions can be taken in this room.
+                        </CardDescription>
+                    </CardHeader>
+                    {roomData.cancelReason && (
+                        <CardContent>
+                            <p className="text-sm">
+                                <span className="text-muted-foreground">Reason:</span> {roomData.cancelReason}
+                            </p>
+                        </CardContent>
+                    )}
+                </Card>
+            </div>
+        );
+    }
+
+    if (roomData.status === 'expired') {
+        return (
+            <div className="w-full max-w-4xl mx-auto p-4">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Clock className="w-5 h-5" />
+                            Room Expired
+                        </CardTitle>
+                        <CardDescription>
+                            This room has expired. No further actions can be taken in it.
+                        </CardDescription>
+                    </CardHeader>
+                </Card>
+            </div>
+        );
+    }
+
     return (
         <div className="w-full max-w-4xl mx-auto p-4">
             <TooltipProvider>
@@ -243,7 +377,7 @@ export default function RoomPage() {
                                 : `You are ${isTeamA ? 'Team A' : 'Team B'}. Wait for both teams to be ready to start the veto process.`
                             }
                         </CardDescription>
-                        <div className="flex items-center gap-2 mt-2">
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
                             <Badge variant="outline" className="flex items-center gap-1">
                                 <Clock className="w-3 h-3" />
                                 {getTimeRemaining(roomData.expiresAt)}
@@ -294,6 +428,11 @@ export default function RoomPage() {
                                     </div>
                                 </TooltipContent>
                             </Tooltip>
+                            <RoomPresence
+                                presence={presence}
+                                teamAName={roomData.teamAName ?? null}
+                                teamBName={roomData.teamBName ?? null}
+                            />
                         </div>
                     </CardHeader>
                     <CardContent>
@@ -465,20 +604,65 @@ export default function RoomPage() {
                                 </div>
                             )}
 
+                            {/* Organizer Controls */}
+                            {canManageQuery.data && (
+                                <div className="border-t pt-4 space-y-3">
+                                    <div className="flex items-center justify-between">
+                                        <div className="text-sm text-muted-foreground">
+                                            Organizer Controls
+                                        </div>
+                                        {roomData.vetoStarted && (
+                                            <Button
+                                                variant="outline"
+                                                onClick={handleUndoLastVetoAction}
+                                                disabled={undoLastVetoActionMutation.isPending}
+                                            >
+                                                <Undo2 className="w-4 h-4 mr-2" />
+                                                {undoLastVetoActionMutation.isPending ? 'Undoing...' : 'Undo Last Step'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                    <RoomPresence
+                                        presence={presence}
+                                        teamAName={roomData.teamAName ?? null}
+                                        teamBName={roomData.teamBName ?? null}
+                                        detailed
+                                    />
+                                    {undoLastVetoActionMutation.error && (
+                                        <p className="text-sm text-destructive mt-2">
+                                            {undoLastVetoActionMutation.error.message}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Veto Process */}
                             {roomData.teamAReady && roomData.teamBReady && (
                                 <div className="border-t pt-6">
                                     <VetoProcess
-                                        masterRoomId={roomData.masterRoomId ?? roomId}
+                                        masterRoomId={roomData.masterRoomId}
                                         teamRoomId={roomId}
-                                        teamRole={roomData.teamRole}
+                                        teamRole={teamRole}
                                         isSpectator={isSpectator}
                                         teamAName={roomData.teamAName ?? null}
                                         teamBName={roomData.teamBName ?? null}
-                                        roundType={roomData.roundType}
                                     />
                                 </div>
                             )}
+
+                            {/* Map scores, once the veto has decided which maps are played */}
+                            {roomData.vetoCompleted && !!roomData.vetoState && (
+                                <MapResults
+                                    masterRoomId={roomData.masterRoomId}
+                                    teamRoomId={roomId}
+                                    teamRole={teamRole}
+                                    canManage={!!canManageQuery.data}
+                                    vetoState={roomData.vetoState as VetoState}
+                                    teamAName={roomData.teamAName ?? null}
+                                    teamBName={roomData.teamBName ?? null}
+                                    version={roomData.version}
+                                />
+                            )}
                         </div>
                     </CardContent>
                 </Card>
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '~/trpc/react';
+import { copyToClipboard } from '~/lib/utils';
+
+export default function AdminApiTokens() {
+    const [name, setName] = useState('');
+    const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+    const tokensQuery = api.organizer.listApiTokens.useQuery();
+
+    const createMutation = api.organizer.createApiToken.useMutation({
+        onSuccess: (result) => {
+            setCreatedToken(result.token);
+            setName('');
+            void tokensQuery.refetch();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const revokeMutation = api.organizer.revokeApiToken.useMutation({
+        onSuccess: () => {
+            toast.success('Token revoked');
+            void tokensQuery.refetch();
+        },
+    });
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="w-5 h-5" />
+                    Admin API Tokens
+                </CardTitle>
+                <CardDescription>
+                    Send a token as <code>Authorization: Bearer &lt;token&gt;</code> to call <code>/api/admin/rooms</code> from a cron host.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="space-y-4">
+                    <div className="flex gap-2">
+                        <Input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Token name, e.g. cron"
+                            maxLength={50}
+                        />
+                        <Button
+                            onClick={() => createMutation.mutate({ name: name.trim() })}
+                            disabled={createMutation.isPending || name.trim() === ''}
+                        >
+                            Create
+                        </Button>
+                    </div>
+
+                    {createdToken && (
+                        <div className="space-y-2 rounded-lg border p-3">
+                            <p className="text-sm text-muted-foreground">
+                                Copy this token now. It will not be shown again.
+                            </p>
+                            <div className="flex gap-2">
+                                <Input value={createdToken} readOnly className="font-mono text-sm" />
+                                <Button variant="outline" size="sm" onClick={() => copyToClipboard(createdToken, 'Admin API token')}>
+                                    <Copy className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        {tokensQuery.data?.map((token) => (
+                            <div key={token.id} className="flex items-center justify-between bg-muted/50 rounded-lg p-2 text-sm">
+                                <div>
+                                    <span className="font-medium">{token.name}</span>
+                                    <span className="text-muted-foreground text-xs ml-2">
+                                        {token.lastUsedAt
+                                            ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                                            : 'Never used'}
+                                    </span>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => revokeMutation.mutate({ id: token.id })}
+                                    disabled={revokeMutation.isPending}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                    <span className="sr-only">Revoke</span>
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
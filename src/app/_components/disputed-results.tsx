@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { AlertTriangle, ExternalLink } from 'lucide-react';
+import { api } from '~/trpc/react';
+import { getMapDisplayName, getTeamDisplayName } from '~/lib/veto-utils';
+
+export default function DisputedResults() {
+    const disputesQuery = api.room.listDisputedResults.useQuery(undefined, { refetchInterval: 30000 });
+    const disputes = disputesQuery.data ?? [];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5" />
+                    Disputed Results
+                </CardTitle>
+                <CardDescription>
+                    Map scores one captain reported and the other rejected. Open the room to set the final score.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {disputes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No disputes right now.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {disputes.map(({ masterRoomId, teamAName, teamBName, result }) => (
+                            <div key={`${masterRoomId}-${result.mapIndex}`} className="flex items-center justify-between gap-2 bg-muted/50 rounded-lg p-2 text-sm">
+                                <div className="min-w-0">
+                                    <div className="font-medium truncate">
+                                        {getTeamDisplayName('team-a', teamAName, teamBName)} vs {getTeamDisplayName('team-b', teamAName, teamBName)}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        Map {result.mapIndex + 1} ({getMapDisplayName(result.mapId)}): {result.teamAScore}–{result.teamBScore}
+                                        {result.disputeReason && ` · ${result.disputeReason}`}
+                                    </div>
+                                </div>
+                                <Button variant="outline" size="sm" asChild>
+                                    <Link href={`/${masterRoomId}`}>
+                                        <ExternalLink className="w-4 h-4" />
+                                        <span className="sr-only">Open room</span>
+                                    </Link>
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
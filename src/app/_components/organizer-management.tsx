@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { ShieldCheck, UserMinus, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '~/trpc/react';
+
+export default function OrganizerManagement() {
+    const [discordId, setDiscordId] = useState('');
+
+    const organizersQuery = api.organizer.list.useQuery();
+
+    const grantMutation = api.organizer.grant.useMutation({
+        onSuccess: () => {
+            toast.success('Organizer status granted');
+            setDiscordId('');
+            void organizersQuery.refetch();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const revokeMutation = api.organizer.revoke.useMutation({
+        onSuccess: () => {
+            toast.success('Organizer status revoked');
+            void organizersQuery.refetch();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const handleGrant = () => {
+        if (discordId.trim() === '') return;
+        grantMutation.mutate({ discordId: discordId.trim() });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="w-5 h-5" />
+                    Organizers
+                </CardTitle>
+                <CardDescription>
+                    Organizers can manage any room. Users must have signed in with Discord once before they can be added.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="space-y-4">
+                    <div className="flex gap-2">
+                        <Input
+                            value={discordId}
+                            onChange={(e) => setDiscordId(e.target.value)}
+                            placeholder="Discord user ID"
+                            className="font-mono"
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleGrant();
+                            }}
+                        />
+                        <Button onClick={handleGrant} disabled={grantMutation.isPending || discordId.trim() === ''}>
+                            <UserPlus className="w-4 h-4 mr-2" />
+                            Grant
+                        </Button>
+                    </div>
+
+                    <div className="space-y-2">
+                        {organizersQuery.data?.map((organizer) => (
+                            <div key={organizer.id} className="flex items-center justify-between bg-muted/50 rounded-lg p-2">
+                                <div className="flex items-center gap-2 text-sm">
+                                    {organizer.image && (
+                                        <Image
+                                            src={organizer.image}
+                                            alt={organizer.name ?? 'Organizer'}
+                                            width={24}
+                                            height={24}
+                                            className="rounded-full"
+                                        />
+                                    )}
+                                    <span className="font-medium">{organizer.name ?? 'Unknown'}</span>
+                                    {organizer.discordId && (
+                                        <span className="text-muted-foreground font-mono text-xs">{organizer.discordId}</span>
+                                    )}
+                                </div>
+                                {organizer.discordId && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => revokeMutation.mutate({ discordId: organizer.discordId! })}
+                                        disabled={revokeMutation.isPending}
+                                    >
+                                        <UserMinus className="w-4 h-4" />
+                                        <span className="sr-only">Revoke</span>
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
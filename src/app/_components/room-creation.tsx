@@ -6,12 +6,31 @@ import { Button } from '~/components/ui/button';
 import { Badge } from '~/components/ui/badge';
 import { Input } from '~/components/ui/input';
 import { Label } from '~/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
 import { Copy, Users, Eye, Crown, Clock } from 'lucide-react';
+import { TRPCClientError } from '@trpc/client';
 import { api } from '~/trpc/react';
-import { type RoomData } from '~/types/room';
+import { type AppRouter } from '~/server/api/root';
+import { type OrganizerRoomData, type RoomData } from '~/types/room';
 import { getRoundLabel } from '~/constants/maps';
+import { generateDynamicSequence } from '~/constants/veto-presets';
 import { copyToClipboard } from '~/lib/utils';
 
+// Per-turn time limits offered at room creation ('off' disables the timer)
+const TURN_TIMER_OPTIONS = [
+    { value: 'off', label: 'Off' },
+    { value: '30', label: '30 seconds' },
+    { value: '60', label: '60 seconds' },
+    { value: '90', label: '90 seconds' },
+    { value: '120', label: '2 minutes' },
+];
+
+// A step either follows the room's turn timer or has a limit of its own
+const STEP_TIMER_OPTIONS = [
+    { value: 'default', label: 'Room timer' },
+    ...TURN_TIMER_OPTIONS.filter(option => option.value !== 'off'),
+];
+
 interface RoomCreationProps {
     maps: string[];
     roundType: string;
@@ -21,7 +40,15 @@ interface RoomCreationProps {
 
 export default function RoomCreation({ maps, roundType, vetoSequence, onRoomCreatedAction: onRoomCreated }: RoomCreationProps) {
     const [isCreating, setIsCreating] = useState(false);
-    const [roomData, setRoomData] = useState<RoomData | null>(null);
+    const [roomData, setRoomData] = useState<OrganizerRoomData | null>(null);
+    const [turnTimer, setTurnTimer] = useState('off');
+    const [stepTimers, setStepTimers] = useState<Record<number, string>>({});
+    const [timeoutFallback, setTimeoutFallback] = useState<'random' | 'none'>('random');
+
+    // Without a custom format the server uses the default sequence, which step timers then apply to
+    const sequence = vetoSequence ?? generateDynamicSequence(roundType as 'bo1' | 'bo3' | 'bo5', maps.length, true);
+    const hasStepTimers = Object.values(stepTimers).some(value => value !== 'default');
+    const isTimed = turnTimer !== 'off' || hasStepTimers;
 
     const createRoomMutation = api.room.create.useMutation();
 
@@ -33,34 +60,36 @@ export default function RoomCreation({ maps, roundType, vetoSequence, onRoomCrea
             const result = await createRoomMutation.mutateAsync({
                 maps,
                 roundType: roundType as 'bo1' | 'bo3' | 'bo5',
-                clientIp: undefined, // Will be determined server-side
-                customVetoSequence: vetoSequence,
+                customVetoSequence: hasStepTimers
+                    ? sequence.map((step, index) => {
+                        const stepTimer = stepTimers[index];
+                        return stepTimer && stepTimer !== 'default'
+                            ? { team: step.team, action: step.action, timeLimitSeconds: Number(stepTimer) }
+                            : { team: step.team, action: step.action };
+                    })
+                    : vetoSequence,
+                turnTimeLimitSeconds: turnTimer === 'off' ? undefined : Number(turnTimer),
+                timeoutFallback,
             });
 
-            // Transform the result to match RoomData interface
-            const newRoomData: RoomData = {
-                id: result.id,
-                teamAId: result.teamAId,
-                teamBId: result.teamBId,
-                teamALink: result.teamALink,
-                teamBLink: result.teamBLink,
-                spectatorLink: result.spectatorLink,
-                createdAt: result.createdAt,
-                expiresAt: result.expiresAt,
-                maps: result.maps,
-                roundType: result.roundType,
-                teamAReady: result.teamAReady,
-                teamBReady: result.teamBReady,
-                status: result.status,
-            };
+            // The creator always receives the organizer view with both team links
+            if (result.role !== 'organizer') {
+                throw new Error('Room links are not available');
+            }
 
-            setRoomData(newRoomData);
-            onRoomCreated(newRoomData);
+            setRoomData(result);
+            onRoomCreated(result);
 
         } catch (error) {
             console.error('Error creating room:', error);
             // Handle specific error types
-            if (error instanceof Error) {
+            const issues = error instanceof TRPCClientError
+                ? (error as TRPCClientError<AppRouter>).data?.validationIssues
+                : null;
+
+            if (issues) {
+                alert(`Invalid room configuration:\n${issues.map(issue => `- ${issue.message}`).join('\n')}`);
+            } else if (error instanceof Error) {
                 if (error.message.includes('Rate limit exceeded')) {
                     alert('You are creating rooms too quickly. Please wait before creating another room.');
                 } else if (error.message.includes('Too many requests')) {
@@ -121,6 +150,38 @@ export default function RoomCreation({ maps, roundType, vetoSequence, onRoomCrea
                                         <span className="text-muted-foreground">Room Duration:</span>
                                         <span className="font-medium">24 hours</span>
                                     </div>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-muted-foreground">Turn Timer:</span>
+                                        <Select value={turnTimer} onValueChange={setTurnTimer}>
+                                            <SelectTrigger className="w-[140px] h-8">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {TURN_TIMER_OPTIONS.map((option) => (
+                                                    <SelectItem key={option.value} value={option.value}>
+                                                        {option.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    {isTimed && (
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-muted-foreground">On Timeout:</span>
+                                            <Select
+                                                value={timeoutFallback}
+                                                onValueChange={(value) => setTimeoutFallback(value as 'random' | 'none')}
+                                            >
+                                                <SelectTrigger className="w-[140px] h-8">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="random">Random action</SelectItem>
+                                                    <SelectItem value="none">Do nothing</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    )}
                                     {vetoSequence && (
                                         <div className="flex justify-between">
                                             <span className="text-muted-foreground">Veto Format:</span>
@@ -128,13 +189,12 @@ export default function RoomCreation({ maps, roundType, vetoSequence, onRoomCrea
                                         </div>
                                     )}
                                 </div>
-                                {vetoSequence && (
-                                    <div className="mt-3">
-                                        <h4 className="text-xs font-medium text-muted-foreground mb-2">Veto Sequence:</h4>
-                                        <div className="flex flex-wrap gap-1">
-                                            {vetoSequence.map((step, index) => (
+                                <div className="mt-3">
+                                    <h4 className="text-xs font-medium text-muted-foreground mb-2">Veto Sequence and Step Timers:</h4>
+                                    <div className="space-y-1">
+                                        {sequence.map((step, index) => (
+                                            <div key={index} className="flex items-center justify-between gap-2">
                                                 <Badge
-                                                    key={index}
                                                     variant={
                                                         step.action === 'ban' ? 'destructive' :
                                                             step.action === 'pick' ? 'default' :
@@ -142,12 +202,27 @@ export default function RoomCreation({ maps, roundType, vetoSequence, onRoomCrea
                                                     }
                                                     className="text-xs"
                                                 >
-                                                    {step.team === 'team-a' ? 'A' : 'B'}-{step.action === 'side' ? 'SIDE' : step.action.toUpperCase()}
+                                                    {index + 1}. {step.team === 'team-a' ? 'A' : 'B'}-{step.action === 'side' ? 'SIDE' : step.action.toUpperCase()}
                                                 </Badge>
-                                            ))}
-                                        </div>
+                                                <Select
+                                                    value={stepTimers[index] ?? 'default'}
+                                                    onValueChange={(value) => setStepTimers({ ...stepTimers, [index]: value })}
+                                                >
+                                                    <SelectTrigger className="w-[140px] h-7 text-xs" aria-label={`Timer for step ${index + 1}`}>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {STEP_TIMER_OPTIONS.map((option) => (
+                                                            <SelectItem key={option.value} value={option.value}>
+                                                                {option.label}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                        ))}
                                     </div>
-                                )}
+                                </div>
                             </div>
                             <div className="bg-muted/50 rounded-lg p-4">
                                 <h3 className="font-semibold mb-2">Room Features</h3>
@@ -0,0 +1,78 @@
+'use client';
+
+import { Badge } from '~/components/ui/badge';
+import { Eye } from 'lucide-react';
+import type { RoomPresenceSummary, TeamPresence } from '~/types/room';
+
+interface RoomPresenceProps {
+    presence: RoomPresenceSummary | undefined;
+    teamAName: string | null;
+    teamBName: string | null;
+    detailed?: boolean; // Organizer view with connection counts and last-seen times
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const getStatusText = (team: TeamPresence) => {
+    if (team.online) return 'online';
+    if (team.droppedAt) return `dropped at ${formatTime(team.droppedAt)}`;
+    return 'not joined';
+};
+
+const PresenceDot = ({ online }: { online: boolean }) => (
+    <span className={`w-2 h-2 rounded-full ${online ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+);
+
+export default function RoomPresence({ presence, teamAName, teamBName, detailed = false }: RoomPresenceProps) {
+    if (!presence) {
+        return null;
+    }
+
+    const teams = [
+        { key: 'team-a', name: teamAName ?? 'Team A', presence: presence.teamA },
+        { key: 'team-b', name: teamBName ?? 'Team B', presence: presence.teamB },
+    ];
+
+    if (!detailed) {
+        return (
+            <>
+                {teams.map(team => (
+                    <Badge key={team.key} variant="outline" className="flex items-center gap-1">
+                        <PresenceDot online={team.presence.online} />
+                        {team.name} {getStatusText(team.presence)}
+                    </Badge>
+                ))}
+                <Badge variant="outline" className="flex items-center gap-1">
+                    <Eye className="w-3 h-3" />
+                    {presence.spectators} watching
+                </Badge>
+            </>
+        );
+    }
+
+    return (
+        <div className="space-y-2 text-sm">
+            {teams.map(team => (
+                <div key={team.key} className="flex items-center justify-between bg-muted/50 rounded-lg p-2">
+                    <span className="flex items-center gap-2 font-medium">
+                        <PresenceDot online={team.presence.online} />
+                        {team.name}
+                    </span>
+                    <span className="text-muted-foreground text-xs">
+                        {team.presence.online
+                            ? `${team.presence.connections} connection${team.presence.connections === 1 ? '' : 's'}`
+                            : getStatusText(team.presence)}
+                        {team.presence.lastSeenAt && ` · last seen ${formatTime(team.presence.lastSeenAt)}`}
+                    </span>
+                </div>
+            ))}
+            <div className="flex items-center justify-between bg-muted/50 rounded-lg p-2">
+                <span className="flex items-center gap-2 font-medium">
+                    <Eye className="w-4 h-4" />
+                    Spectators
+                </span>
+                <span className="text-muted-foreground text-xs">{presence.spectators} watching</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,517 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Badge } from '~/components/ui/badge';
+import { Input } from '~/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '~/components/ui/table';
+import { Copy, DoorOpen, GitBranch, ListOrdered, Plus, Shuffle, Trash2, Trophy } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '~/trpc/react';
+import { ALL_MAPS, getMapName } from '~/constants/maps';
+import { VETO_PRESETS, getPresetById } from '~/constants/veto-presets';
+import { copyToClipboard } from '~/lib/utils';
+import type { BracketFormat } from '~/lib/bracket-engine';
+import type { StageFormat } from '~/lib/stage-engine';
+import type { MatchRoomLinks, MatchStatus, MatchView, TournamentView } from '~/types/tournament';
+
+const MATCH_STATUS_LABELS: Record<MatchStatus, string> = {
+    pending: 'Not opened',
+    veto: 'Veto open',
+    vetoed: 'Veto done',
+    completed: 'Finished',
+    bye: 'Bye',
+};
+
+const BRACKET_FORMAT_LABELS: Record<BracketFormat, string> = {
+    'single-elimination': 'Single elimination',
+    'double-elimination': 'Double elimination',
+};
+
+const STAGE_FORMAT_LABELS: Record<StageFormat, string> = {
+    swiss: 'Swiss',
+    'round-robin': 'Round robin',
+};
+
+const isDecided = (match: MatchView) => match.status === 'completed' || match.status === 'bye';
+
+// Playoff seeds follow the stage standings (group winners first, then runners-up, ...), then registration order
+const getPlayoffSeeds = (tournament: TournamentView) => {
+    const deepest = Math.max(0, ...tournament.standings.map(table => table.rows.length));
+    const ranked = Array.from({ length: deepest }, (_, index) => tournament.standings.flatMap(table => {
+        const row = table.rows[index];
+        return row ? [row.teamId] : [];
+    })).flat();
+
+    return [...ranked, ...tournament.teams.map(team => team.id).filter(teamId => !ranked.includes(teamId))];
+};
+
+// Presets that need an exact pool start with that many maps selected
+const getDefaultPool = (presetId: string) => {
+    const preset = getPresetById(presetId);
+    return ALL_MAPS.slice(0, preset?.exactMaps ?? preset?.minMaps ?? ALL_MAPS.length).map(map => map.id);
+};
+
+export default function TournamentManagement() {
+    const [name, setName] = useState('');
+    const [presetId, setPresetId] = useState(VETO_PRESETS[0]?.id ?? '');
+    const [mapPool, setMapPool] = useState<string[]>(() => getDefaultPool(VETO_PRESETS[0]?.id ?? ''));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [teamName, setTeamName] = useState('');
+    const [teamAId, setTeamAId] = useState('');
+    const [teamBId, setTeamBId] = useState('');
+    const [openedRoom, setOpenedRoom] = useState<MatchRoomLinks | null>(null);
+    const [bracketFormat, setBracketFormat] = useState<BracketFormat>('single-elimination');
+    const [stageFormat, setStageFormat] = useState<StageFormat>('swiss');
+    const [groupCount, setGroupCount] = useState(1);
+
+    const tournamentsQuery = api.tournament.list.useQuery();
+    const tournamentQuery = api.tournament.get.useQuery(
+        { tournamentId: selectedId ?? '' },
+        { enabled: !!selectedId }
+    );
+
+    const refetchSelected = () => {
+        void tournamentsQuery.refetch();
+        void tournamentQuery.refetch();
+    };
+
+    const createMutation = api.tournament.create.useMutation({
+        onSuccess: (result) => {
+            toast.success('Tournament created');
+            setName('');
+            setSelectedId(result.id);
+            void tournamentsQuery.refetch();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const addTeamMutation = api.tournament.addTeam.useMutation({
+        onSuccess: () => {
+            setTeamName('');
+            refetchSelected();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const removeTeamMutation = api.tournament.removeTeam.useMutation({
+        onSuccess: refetchSelected,
+        onError: (error) => toast.error(error.message),
+    });
+
+    const createMatchMutation = api.tournament.createMatch.useMutation({
+        onSuccess: () => {
+            setTeamAId('');
+            setTeamBId('');
+            refetchSelected();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const openMatchRoomMutation = api.tournament.openMatchRoom.useMutation({
+        onSuccess: (links) => {
+            setOpenedRoom(links);
+            void tournamentQuery.refetch();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const generateBracketMutation = api.tournament.generateBracket.useMutation({
+        onSuccess: () => {
+            toast.success('Bracket generated');
+            refetchSelected();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const generateStageMutation = api.tournament.generateStage.useMutation({
+        onSuccess: () => {
+            toast.success('Stage generated');
+            refetchSelected();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const pairNextRoundMutation = api.tournament.pairNextSwissRound.useMutation({
+        onSuccess: (result) => {
+            toast.success(`Round ${result.round} paired`);
+            refetchSelected();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const reportWinnerMutation = api.tournament.reportWinner.useMutation({
+        onSuccess: () => void tournamentQuery.refetch(),
+        onError: (error) => toast.error(error.message),
+    });
+
+    const handlePresetChange = (value: string) => {
+        setPresetId(value);
+        setMapPool(getDefaultPool(value));
+    };
+
+    const toggleMap = (mapId: string) => {
+        setMapPool(prev => prev.includes(mapId) ? prev.filter(id => id !== mapId) : [...prev, mapId]);
+    };
+
+    const tournament = tournamentQuery.data;
+
+    return (
+        <Card className="lg:col-span-2">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Trophy className="w-5 h-5" />
+                    Tournaments
+                </CardTitle>
+                <CardDescription>
+                    Every match in a tournament vetoes from the same map pool, using the preset for its series length. Opening a match creates its room with the team names filled in.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="space-y-6">
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <div className="flex flex-wrap gap-2">
+                            <Input
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="Tournament name, e.g. Weekly Cup #12"
+                                maxLength={100}
+                                className="flex-1 min-w-[200px]"
+                            />
+                            <Select value={presetId} onValueChange={handlePresetChange}>
+                                <SelectTrigger className="w-[200px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {VETO_PRESETS.map((preset) => (
+                                        <SelectItem key={preset.id} value={preset.id}>
+                                            {preset.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                onClick={() => createMutation.mutate({ name: name.trim(), presetId, mapPool })}
+                                disabled={createMutation.isPending || name.trim() === ''}
+                            >
+                                <Plus className="w-4 h-4 mr-2" />
+                                Create
+                            </Button>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {ALL_MAPS.map((map) => (
+                                <Badge
+                                    key={map.id}
+                                    variant={mapPool.includes(map.id) ? 'default' : 'outline'}
+                                    className="cursor-pointer"
+                                    onClick={() => toggleMap(map.id)}
+                                >
+                                    {map.name}
+                                </Badge>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {tournamentsQuery.data?.map((item) => (
+                            <Button
+                                key={item.id}
+                                variant={item.id === selectedId ? 'default' : 'outline'}
+                                size="sm"
+                                onClick={() => {
+                                    setSelectedId(item.id);
+                                    setOpenedRoom(null);
+                                }}
+                            >
+                                {item.name}
+                                <span className="text-xs opacity-70 ml-2">
+                                    {item.teamCount} teams · {item.matchCount} matches
+                                </span>
+                            </Button>
+                        ))}
+                    </div>
+
+                    {tournament && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <div className="text-sm font-medium">Teams</div>
+                                <div className="flex gap-2">
+                                    <Input
+                                        value={teamName}
+                                        onChange={(e) => setTeamName(e.target.value)}
+                                        placeholder="Team name"
+                                        maxLength={50}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && teamName.trim() !== '') {
+                                                addTeamMutation.mutate({ tournamentId: tournament.id, name: teamName.trim() });
+                                            }
+                                        }}
+                                    />
+                                    <Button
+                                        onClick={() => addTeamMutation.mutate({ tournamentId: tournament.id, name: teamName.trim() })}
+                                        disabled={addTeamMutation.isPending || teamName.trim() === ''}
+                                    >
+                                        Add
+                                    </Button>
+                                </div>
+                                {tournament.teams.map((team) => (
+                                    <div key={team.id} className="flex items-center justify-between bg-muted/50 rounded-lg p-2 text-sm">
+                                        <span className="font-medium">{team.name}</span>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => removeTeamMutation.mutate({ teamId: team.id })}
+                                            disabled={removeTeamMutation.isPending}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                            <span className="sr-only">Remove</span>
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="space-y-2">
+                                <div className="text-sm font-medium">Matches</div>
+                                {tournament.stageFormat ? (
+                                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                        <span>
+                                            {STAGE_FORMAT_LABELS[tournament.stageFormat]} stage · round {tournament.stageRound} of {tournament.stageRounds}
+                                        </span>
+                                        {tournament.stageFormat === 'swiss' && (tournament.stageRound ?? 0) < (tournament.stageRounds ?? 0) && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => pairNextRoundMutation.mutate({ tournamentId: tournament.id })}
+                                                disabled={pairNextRoundMutation.isPending}
+                                            >
+                                                <Shuffle className="w-4 h-4 mr-2" />
+                                                Pair round {(tournament.stageRound ?? 0) + 1}
+                                            </Button>
+                                        )}
+                                    </div>
+                                ) : !tournament.format && (
+                                    <div className="flex gap-2">
+                                        <Select value={stageFormat} onValueChange={(value) => setStageFormat(value as StageFormat)}>
+                                            <SelectTrigger className="flex-1">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.entries(STAGE_FORMAT_LABELS).map(([value, label]) => (
+                                                    <SelectItem key={value} value={value}>
+                                                        {label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        {stageFormat === 'round-robin' && (
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                max={26}
+                                                value={groupCount}
+                                                onChange={(e) => setGroupCount(Number(e.target.value) || 1)}
+                                                className="w-20"
+                                                aria-label="Groups"
+                                            />
+                                        )}
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => generateStageMutation.mutate({
+                                                tournamentId: tournament.id,
+                                                format: stageFormat,
+                                                seededTeamIds: tournament.teams.map(team => team.id),
+                                                groupCount: stageFormat === 'round-robin' ? groupCount : undefined,
+                                            })}
+                                            disabled={generateStageMutation.isPending || tournament.teams.length < 2}
+                                        >
+                                            <ListOrdered className="w-4 h-4 mr-2" />
+                                            Generate stage
+                                        </Button>
+                                    </div>
+                                )}
+                                {tournament.format ? (
+                                    <div className="text-xs text-muted-foreground">
+                                        {BRACKET_FORMAT_LABELS[tournament.format]} bracket
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <Select value={bracketFormat} onValueChange={(value) => setBracketFormat(value as BracketFormat)}>
+                                            <SelectTrigger className="flex-1">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.entries(BRACKET_FORMAT_LABELS).map(([value, label]) => (
+                                                    <SelectItem key={value} value={value}>
+                                                        {label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        {/* Teams are seeded by stage standings, or in the order they were added */}
+                                        <Button
+                                            variant="outline"
+                                            onClick={() => generateBracketMutation.mutate({
+                                                tournamentId: tournament.id,
+                                                format: bracketFormat,
+                                                seededTeamIds: getPlayoffSeeds(tournament),
+                                            })}
+                                            disabled={generateBracketMutation.isPending || tournament.teams.length < 2}
+                                        >
+                                            <GitBranch className="w-4 h-4 mr-2" />
+                                            Generate bracket
+                                        </Button>
+                                    </div>
+                                )}
+                                <div className="flex gap-2">
+                                    {[
+                                        { value: teamAId, onChange: setTeamAId, placeholder: 'Team A' },
+                                        { value: teamBId, onChange: setTeamBId, placeholder: 'Team B' },
+                                    ].map((side) => (
+                                        <Select key={side.placeholder} value={side.value} onValueChange={side.onChange}>
+                                            <SelectTrigger className="flex-1">
+                                                <SelectValue placeholder={side.placeholder} />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {tournament.teams.map((team) => (
+                                                    <SelectItem key={team.id} value={team.id}>
+                                                        {team.name}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    ))}
+                                    <Button
+                                        onClick={() => createMatchMutation.mutate({ tournamentId: tournament.id, teamAId, teamBId })}
+                                        disabled={createMatchMutation.isPending || !teamAId || !teamBId || teamAId === teamBId}
+                                    >
+                                        Add
+                                    </Button>
+                                </div>
+                                {tournament.matches.map((match) => (
+                                    <div key={match.id} className="bg-muted/50 rounded-lg p-2 text-sm space-y-1">
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-medium">
+                                                {match.bracket && (
+                                                    <span className="font-mono text-xs text-muted-foreground mr-2">{match.bracket.key}</span>
+                                                )}
+                                                {match.stage && (
+                                                    <span className="font-mono text-xs text-muted-foreground mr-2">
+                                                        {match.stage.group ? `${match.stage.group}-` : ''}R{match.stage.round}
+                                                    </span>
+                                                )}
+                                                {match.teamA?.name ?? 'TBD'} vs {match.teamB?.name ?? (match.status === 'bye' ? 'BYE' : 'TBD')}
+                                            </span>
+                                            <div className="flex items-center gap-2">
+                                                {match.roundType && <Badge variant="secondary">{match.roundType.toUpperCase()}</Badge>}
+                                                <Badge variant="outline">{MATCH_STATUS_LABELS[match.status]}</Badge>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => openMatchRoomMutation.mutate({ matchId: match.id })}
+                                                    disabled={openMatchRoomMutation.isPending || !match.teamA || !match.teamB || isDecided(match)}
+                                                >
+                                                    <DoorOpen className="w-4 h-4" />
+                                                    <span className="sr-only">Open room</span>
+                                                </Button>
+                                            </div>
+                                        </div>
+                                        {match.pickedMaps && (
+                                            <div className="text-xs text-muted-foreground">
+                                                {match.pickedMaps.map((map, index) => {
+                                                    const score = match.mapResults?.find(result => result.mapIndex === index);
+                                                    return score ? `${getMapName(map.mapId)} ${score.teamAScore}–${score.teamBScore}` : getMapName(map.mapId);
+                                                }).join(' → ')}
+                                            </div>
+                                        )}
+                                        {match.winnerId && (
+                                            <div className="text-xs flex items-center gap-1">
+                                                <Trophy className="w-3 h-3" />
+                                                {[match.teamA, match.teamB].find(team => team?.id === match.winnerId)?.name}
+                                            </div>
+                                        )}
+                                        {!isDecided(match) && match.teamA && match.teamB && (
+                                            <div className="flex gap-2">
+                                                {[match.teamA, match.teamB].map((team) => (
+                                                    <Button
+                                                        key={team.id}
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-7 text-xs"
+                                                        onClick={() => reportWinnerMutation.mutate({ matchId: match.id, winnerTeamId: team.id })}
+                                                        disabled={reportWinnerMutation.isPending}
+                                                    >
+                                                        {team.name} won
+                                                    </Button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {tournament && tournament.standings.length > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {tournament.standings.map((table) => (
+                                <div key={table.group ?? 'standings'} className="space-y-2">
+                                    <div className="text-sm font-medium">
+                                        {table.group ? `Group ${table.group}` : 'Standings'}
+                                    </div>
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead className="w-10">#</TableHead>
+                                                <TableHead>Team</TableHead>
+                                                <TableHead className="text-right">W-L</TableHead>
+                                                <TableHead className="text-right">Pts</TableHead>
+                                                <TableHead className="text-right">Buchholz</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {table.rows.map((row) => (
+                                                <TableRow key={row.teamId}>
+                                                    <TableCell>{row.rank}</TableCell>
+                                                    <TableCell className="font-medium">
+                                                        {tournament.teams.find(team => team.id === row.teamId)?.name}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        {row.wins}-{row.losses}{row.byes > 0 && ` (+${row.byes} bye)`}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">{row.points}</TableCell>
+                                                    <TableCell className="text-right">{row.buchholz}</TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {openedRoom && (
+                        <div className="space-y-2 rounded-lg border p-3">
+                            <p className="text-sm text-muted-foreground">
+                                Send each captain their own link. The spectator link can be shared publicly.
+                            </p>
+                            {[
+                                { label: 'Team A link', value: openedRoom.teamALink },
+                                { label: 'Team B link', value: openedRoom.teamBLink },
+                                { label: 'Spectator link', value: openedRoom.spectatorLink },
+                            ].map((link) => (
+                                <div key={link.label} className="flex gap-2">
+                                    <Input value={link.value} readOnly className="font-mono text-sm" />
+                                    <Button variant="outline" size="sm" onClick={() => copyToClipboard(link.value, link.label)}>
+                                        <Copy className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -18,7 +18,6 @@ export default function VetoProcess({
     isSpectator = false,
     teamAName,
     teamBName,
-    roundType,
     onVetoComplete
 }: VetoProcessProps) {
     const {
@@ -32,6 +31,8 @@ export default function VetoProcess({
         isMyTurn,
         vetoStarted,
         vetoCompleted,
+        turnDeadline,
+        serverTimeOffset,
         isLoading,
 
         // Helper functions
@@ -55,7 +56,6 @@ export default function VetoProcess({
         teamRoomId,
         teamRole,
         isSpectator,
-        roundType,
         onVetoComplete
     });
 
@@ -129,6 +129,8 @@ export default function VetoProcess({
                 teamAName={teamAName}
                 teamBName={teamBName}
                 shouldShowOppositeSideSelection={shouldShowOppositeSideSelection()}
+                turnDeadline={turnDeadline}
+                serverTimeOffset={serverTimeOffset}
             />
 
             {/* Side Selection Modal */}
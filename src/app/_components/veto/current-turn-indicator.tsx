@@ -1,6 +1,7 @@
+import { useEffect, useState } from 'react';
 import { Card, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
 import { Badge } from '~/components/ui/badge';
-import { Clock, Ban, Target, Shield } from 'lucide-react';
+import { Clock, Ban, Target, Shield, Timer } from 'lucide-react';
 import { getTeamDisplayName } from '~/lib/veto-utils';
 import type { VetoState, TeamType } from '~/types/veto';
 
@@ -11,16 +12,38 @@ interface CurrentTurnIndicatorProps {
     teamAName: string | null;
     teamBName: string | null;
     shouldShowOppositeSideSelection: boolean;
+    turnDeadline?: string | null;
+    serverTimeOffset?: number;
 }
 
+// Seconds left until the server-side deadline, ticking once per second
+const useSecondsRemaining = (turnDeadline: string | null | undefined, serverTimeOffset: number) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!turnDeadline) return;
+
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [turnDeadline]);
+
+    if (!turnDeadline) return null;
+
+    return Math.max(0, Math.ceil((new Date(turnDeadline).getTime() - (now + serverTimeOffset)) / 1000));
+};
+
 export const CurrentTurnIndicator = ({
     currentSequenceItem,
     isMyTurn,
     teamRole,
     teamAName,
     teamBName,
-    shouldShowOppositeSideSelection
+    shouldShowOppositeSideSelection,
+    turnDeadline,
+    serverTimeOffset = 0
 }: CurrentTurnIndicatorProps) => {
+    const secondsRemaining = useSecondsRemaining(turnDeadline, serverTimeOffset);
+
     return (
         <Card className={`transition-all duration-300 ${isMyTurn ? 'ring-2 ring-primary/50 shadow-lg' : ''}`}>
             <CardHeader>
@@ -53,6 +76,14 @@ export const CurrentTurnIndicator = ({
                             )}
                         </div>
                     )}
+                    {secondsRemaining !== null && (
+                        <div className={`flex items-center gap-2 mt-2 font-mono ${secondsRemaining <= 10 ? 'text-red-500' : ''}`}>
+                            <Timer className="w-4 h-4" />
+                            {secondsRemaining > 0
+                                ? `${Math.floor(secondsRemaining / 60)}:${String(secondsRemaining % 60).padStart(2, '0')} left`
+                                : 'Time is up'}
+                        </div>
+                    )}
                     {isMyTurn && (
                         <Badge variant="default" className="mt-2 animate-pulse">
                             🎯 Your Turn
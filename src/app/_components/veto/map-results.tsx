@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Badge } from '~/components/ui/badge';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { AlertTriangle, CheckCircle, Clock, Trophy } from 'lucide-react';
+import { toast } from 'sonner';
+import { api } from '~/trpc/react';
+import { useIdempotencyKey } from '~/hooks/use-idempotency-key';
+import { MAX_MAP_SCORE, validateMapScore } from '~/lib/match-results';
+import { getMapDisplayName, getTeamDisplayName } from '~/lib/veto-utils';
+import type { MapResultView, TeamType, VetoState } from '~/types/veto';
+
+interface MapResultsProps {
+    masterRoomId: string;
+    teamRoomId: string;   // Team link ID for captains
+    teamRole?: TeamType;
+    canManage: boolean;   // Room creator or organizer, who can settle disputes
+    vetoState: VetoState;
+    teamAName: string | null;
+    teamBName: string | null;
+    version: number;      // Room version; results are refetched when it moves
+}
+
+interface MapResultRowProps extends Omit<MapResultsProps, 'vetoState' | 'version'> {
+    mapIndex: number;
+    mapId: string;
+    result: MapResultView | undefined;
+    seriesDecided: boolean;
+    onChanged: () => void;
+}
+
+const ScoreInput = ({ value, onChange, label }: { value: string; onChange: (value: string) => void; label: string }) => (
+    <Input
+        type="number"
+        min={0}
+        max={MAX_MAP_SCORE}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-16 text-center"
+        aria-label={label}
+    />
+);
+
+const MapResultRow = ({
+    masterRoomId,
+    teamRoomId,
+    teamRole,
+    canManage,
+    teamAName,
+    teamBName,
+    mapIndex,
+    mapId,
+    result,
+    seriesDecided,
+    onChanged,
+}: MapResultRowProps) => {
+    const [teamAScore, setTeamAScore] = useState('');
+    const [teamBScore, setTeamBScore] = useState('');
+    const [disputeReason, setDisputeReason] = useState('');
+    const { getKey, clearKey } = useIdempotencyKey();
+
+    const handleSuccess = () => {
+        clearKey();
+        setTeamAScore('');
+        setTeamBScore('');
+        setDisputeReason('');
+        onChanged();
+    };
+
+    const reportMutation = api.room.reportMapScore.useMutation({
+        onSuccess: handleSuccess,
+        onError: (error) => toast.error(error.message),
+    });
+    const respondMutation = api.room.respondToMapScore.useMutation({
+        onSuccess: handleSuccess,
+        onError: (error) => toast.error(error.message),
+    });
+    const resolveMutation = api.room.resolveMapScore.useMutation({
+        onSuccess: handleSuccess,
+        onError: (error) => toast.error(error.message),
+    });
+
+    const score = { teamAScore: Number(teamAScore), teamBScore: Number(teamBScore) };
+    const scoreError = teamAScore === '' || teamBScore === '' ? 'Enter both scores' : validateMapScore(score);
+    const isPending = reportMutation.isPending || respondMutation.isPending || resolveMutation.isPending;
+
+    const isConfirmed = result?.status === 'confirmed';
+    // Captains report until the other side has a report of theirs waiting; organizers can settle anything unconfirmed
+    const canReport = !!teamRole && !seriesDecided && !isConfirmed &&
+        !(result?.status === 'reported' && result.reportedBy !== teamRole);
+    const canRespond = !!teamRole && !seriesDecided && result?.status === 'reported' && result.reportedBy !== teamRole;
+    const canResolve = !teamRole && canManage && !seriesDecided && !isConfirmed;
+
+    const teamA = getTeamDisplayName('team-a', teamAName, teamBName);
+    const teamB = getTeamDisplayName('team-b', teamAName, teamBName);
+
+    return (
+        <div className="p-3 bg-muted/50 rounded-lg border space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">Map {mapIndex + 1}</Badge>
+                    <span className="font-medium">{getMapDisplayName(mapId)}</span>
+                </div>
+                {result ? (
+                    <div className="flex items-center gap-2 text-sm">
+                        <span className="font-mono">
+                            {teamA} {result.teamAScore} – {result.teamBScore} {teamB}
+                        </span>
+                        {result.status === 'confirmed' && (
+                            <Badge className="flex items-center gap-1 bg-green-600">
+                                <CheckCircle className="w-3 h-3" />
+                                {result.reportedBy === 'organizer' ? 'Set by organizer' : 'Confirmed'}
+                            </Badge>
+                        )}
+                        {result.status === 'reported' && (
+                            <Badge variant="outline" className="flex items-center gap-1 border-yellow-500 text-yellow-600">
+                                <Clock className="w-3 h-3" />
+                                Awaiting {getTeamDisplayName(result.reportedBy === 'team-a' ? 'team-b' : 'team-a', teamAName, teamBName)}
+                            </Badge>
+                        )}
+                        {result.status === 'disputed' && (
+                            <Badge variant="destructive" className="flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                Disputed
+                            </Badge>
+                        )}
+                    </div>
+                ) : (
+                    <span className="text-sm text-muted-foreground">Not reported</span>
+                )}
+            </div>
+
+            {result?.status === 'disputed' && result.disputeReason && (
+                <p className="text-xs text-muted-foreground">Dispute: {result.disputeReason}</p>
+            )}
+
+            {canRespond && (
+                <div className="flex flex-wrap gap-2">
+                    <Button
+                        size="sm"
+                        onClick={() => respondMutation.mutate({
+                            teamId: teamRoomId,
+                            mapIndex,
+                            confirm: true,
+                            idempotencyKey: getKey(`confirm:${mapIndex}`),
+                        })}
+                        disabled={isPending}
+                    >
+                        Confirm
+                    </Button>
+                    <Input
+                        value={disputeReason}
+                        onChange={(e) => setDisputeReason(e.target.value)}
+                        placeholder="What's wrong with this score?"
+                        maxLength={200}
+                        className="flex-1 min-w-[180px] h-8"
+                    />
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => respondMutation.mutate({
+                            teamId: teamRoomId,
+                            mapIndex,
+                            confirm: false,
+                            reason: disputeReason.trim(),
+                            idempotencyKey: getKey(`dispute:${mapIndex}:${disputeReason.trim()}`),
+                        })}
+                        disabled={isPending || disputeReason.trim() === ''}
+                    >
+                        Dispute
+                    </Button>
+                </div>
+            )}
+
+            {(canReport || canResolve) && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>{teamA}</span>
+                    <ScoreInput value={teamAScore} onChange={setTeamAScore} label={`${teamA} score`} />
+                    <span>–</span>
+                    <ScoreInput value={teamBScore} onChange={setTeamBScore} label={`${teamB} score`} />
+                    <span>{teamB}</span>
+                    <Button
+                        size="sm"
+                        variant={canResolve ? 'outline' : 'default'}
+                        onClick={() => canResolve
+                            ? resolveMutation.mutate({ masterRoomId, mapIndex, ...score })
+                            : reportMutation.mutate({
+                                teamId: teamRoomId,
+                                mapIndex,
+                                ...score,
+                                idempotencyKey: getKey(`report:${mapIndex}:${teamAScore}-${teamBScore}`),
+                            })}
+                        disabled={isPending || !!scoreError}
+                        title={scoreError ?? undefined}
+                    >
+                        {canResolve ? 'Set final score' : result?.reportedBy === teamRole ? 'Update score' : 'Report score'}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const MapResults = ({ vetoState, version, ...props }: MapResultsProps) => {
+    const resultsQuery = api.room.getMapResults.useQuery({ roomId: props.teamRoomId });
+    const { refetch } = resultsQuery;
+
+    // Every result change bumps the room version, so follow it
+    useEffect(() => {
+        void refetch();
+    }, [version, refetch]);
+
+    const results = resultsQuery.data?.results ?? [];
+    const series = resultsQuery.data?.series;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                    <span>Match Results</span>
+                    {series && (
+                        <span className="font-mono text-base">
+                            {series.teamAWins} – {series.teamBWins}
+                        </span>
+                    )}
+                </CardTitle>
+                <CardDescription>
+                    {series?.winner ? (
+                        <span className="flex items-center gap-1 font-medium text-foreground">
+                            <Trophy className="w-4 h-4 text-yellow-500" />
+                            {getTeamDisplayName(series.winner, props.teamAName, props.teamBName)} wins the series
+                        </span>
+                    ) : (
+                        `Captains report each map's score and the other captain confirms it. First to ${series?.winsNeeded ?? 1} confirmed ${series?.winsNeeded === 1 ? 'map' : 'maps'} wins.`
+                    )}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="space-y-3">
+                    {vetoState.pickedMaps.map((pick, index) => (
+                        <MapResultRow
+                            key={index}
+                            {...props}
+                            mapIndex={index}
+                            mapId={pick.mapId}
+                            result={results.find(result => result.mapIndex === index)}
+                            seriesDecided={!!series?.winner}
+                            onChanged={() => void refetch()}
+                        />
+                    ))}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState } from 'react';
+import { signIn, useSession } from 'next-auth/react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '~/components/ui/table';
+import { BarChart3 } from 'lucide-react';
+import { api } from '~/trpc/react';
+import { ROUND_OPTIONS, getMapName } from '~/constants/maps';
+import { VETO_PRESETS } from '~/constants/veto-presets';
+
+const ALL = 'all';
+
+const toPercent = (rate: number) => Math.round(rate * 100);
+
+const formatPercent = (value: number) => `${value}%`;
+
+// Date inputs give local calendar days; `to` covers the whole of its day
+const parseDay = (value: string, endOfDay: boolean): Date | undefined => {
+    if (!value) return undefined;
+
+    const date = new Date(`${value}T00:00:00`);
+    if (endOfDay) date.setDate(date.getDate() + 1);
+    return endOfDay ? new Date(date.getTime() - 1) : date;
+};
+
+const RateChart = ({ data, bars, stacked }: {
+    data: Array<Record<string, string | number>>;
+    bars: Array<{ key: string; name: string; color: string }>;
+    stacked?: boolean;
+}) => (
+    <ResponsiveContainer width="100%" height={320}>
+        <BarChart data={data} margin={{ top: 8, right: 8, left: 0, bottom: 48 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="name" angle={-35} textAnchor="end" interval={0} tick={{ fontSize: 12 }} />
+            <YAxis domain={[0, 100]} tickFormatter={formatPercent} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value) => formatPercent(Number(value))} />
+            <Legend verticalAlign="top" />
+            {bars.map(bar => (
+                <Bar key={bar.key} dataKey={bar.key} name={bar.name} fill={bar.color} stackId={stacked ? 'side' : undefined} />
+            ))}
+        </BarChart>
+    </ResponsiveContainer>
+);
+
+export default function AnalyticsPage() {
+    const { data: session, status: sessionStatus } = useSession();
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [roundType, setRoundType] = useState(ALL);
+    const [presetId, setPresetId] = useState(ALL);
+    const [tournamentId, setTournamentId] = useState(ALL);
+
+    const organizerQuery = api.organizer.me.useQuery(undefined, { enabled: !!session?.user });
+    const isOrganizer = !!organizerQuery.data?.isOrganizer;
+
+    const filters = {
+        from: parseDay(from, false),
+        to: parseDay(to, true),
+        roundType: roundType === ALL ? undefined : roundType as 'bo1' | 'bo3' | 'bo5',
+        presetId: presetId === ALL ? undefined : presetId,
+        tournamentId: tournamentId === ALL ? undefined : tournamentId,
+    };
+
+    const tournamentsQuery = api.tournament.list.useQuery(undefined, { enabled: isOrganizer });
+    const statsQuery = api.analytics.mapStats.useQuery(filters, { enabled: isOrganizer });
+    const tendenciesQuery = api.analytics.teamTendencies.useQuery(
+        { ...filters, tournamentId },
+        { enabled: isOrganizer && tournamentId !== ALL }
+    );
+
+    const presets = VETO_PRESETS.filter(preset => roundType === ALL || preset.roundType === roundType);
+
+    const handleRoundTypeChange = (value: string) => {
+        setRoundType(value);
+        // A preset only exists for one round type
+        if (value !== ALL && VETO_PRESETS.find(preset => preset.id === presetId)?.roundType !== value) {
+            setPresetId(ALL);
+        }
+    };
+
+    const clearFilters = () => {
+        setFrom('');
+        setTo('');
+        setRoundType(ALL);
+        setPresetId(ALL);
+        setTournamentId(ALL);
+    };
+
+    if (sessionStatus === 'loading' || (session?.user && organizerQuery.isLoading)) {
+        return (
+            <div className="container mx-auto p-6">
+                <div className="text-center">
+                    <p>Loading...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!session?.user || !isOrganizer) {
+        return (
+            <div className="w-full max-w-4xl mx-auto p-4">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Veto Analytics</CardTitle>
+                        <CardDescription>
+                            {session?.user
+                                ? 'Veto analytics are only available to organizers.'
+                                : 'Sign in with Discord to see pick and ban statistics across completed vetoes.'}
+                        </CardDescription>
+                    </CardHeader>
+                    {!session?.user && (
+                        <CardContent>
+                            <Button onClick={() => signIn('discord')}>Sign in with Discord</Button>
+                        </CardContent>
+                    )}
+                </Card>
+            </div>
+        );
+    }
+
+    // Maps that never appeared in a pool under these filters would only add empty bars
+    const maps = (statsQuery.data?.maps ?? []).filter(map => map.inPool > 0);
+    const rateData = maps.map(map => ({
+        name: map.name,
+        ban: toPercent(map.banRate),
+        pick: toPercent(map.pickRate),
+        firstBan: toPercent(map.firstBanRate),
+    }));
+    const sideData = maps.filter(map => map.sideChoices > 0).map(map => ({
+        name: map.name,
+        attack: toPercent(map.attackRate),
+        defense: toPercent(map.defenseRate),
+    }));
+
+    return (
+        <div className="container mx-auto p-6 space-y-6">
+            <div>
+                <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+                    <BarChart3 className="w-8 h-8" />
+                    Veto Analytics
+                </h1>
+                <p className="text-muted-foreground">
+                    How often each map is banned, picked and banned first, and which side teams start on.
+                    Rates are out of the vetoes whose map pool included the map.
+                </p>
+            </div>
+
+            <Card>
+                <CardContent className="pt-6">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+                        <div className="space-y-2">
+                            <Label htmlFor="analytics-from">From</Label>
+                            <Input id="analytics-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="analytics-to">To</Label>
+                            <Input id="analytics-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Round type</Label>
+                            <Select value={roundType} onValueChange={handleRoundTypeChange}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>All round types</SelectItem>
+                                    {ROUND_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Preset</Label>
+                            <Select value={presetId} onValueChange={setPresetId}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>All presets</SelectItem>
+                                    {presets.map(preset => (
+                                        <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Tournament</Label>
+                            <Select value={tournamentId} onValueChange={setTournamentId}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>All vetoes</SelectItem>
+                                    {tournamentsQuery.data?.map(tournament => (
+                                        <SelectItem key={tournament.id} value={tournament.id}>{tournament.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-4">
+                        <span className="text-sm text-muted-foreground">
+                            {statsQuery.data ? `${statsQuery.data.vetoCount} completed vetoes` : 'Loading...'}
+                        </span>
+                        <Button variant="outline" size="sm" onClick={clearFilters}>Clear filters</Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {statsQuery.data && statsQuery.data.vetoCount === 0 ? (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>No completed vetoes</CardTitle>
+                        <CardDescription>No veto matching these filters has finished yet.</CardDescription>
+                    </CardHeader>
+                </Card>
+            ) : (
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Bans and picks</CardTitle>
+                            <CardDescription>Share of vetoes in which each map was banned, picked, or the first map banned.</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <RateChart
+                                data={rateData}
+                                bars={[
+                                    { key: 'ban', name: 'Ban rate', color: '#ef4444' },
+                                    { key: 'pick', name: 'Pick rate', color: '#22c55e' },
+                                    { key: 'firstBan', name: 'First ban rate', color: '#f97316' },
+                                ]}
+                            />
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Starting sides</CardTitle>
+                            <CardDescription>Which side teams chose to start on, per map.</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {sideData.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No sides have been chosen yet.</p>
+                            ) : (
+                                <RateChart
+                                    data={sideData}
+                                    bars={[
+                                        { key: 'attack', name: 'Attack', color: '#ef4444' },
+                                        { key: 'defense', name: 'Defense', color: '#3b82f6' },
+                                    ]}
+                                    stacked
+                                />
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Team tendencies</CardTitle>
+                    <CardDescription>
+                        What each team bans and picks most, and how often it starts on attack. Pick a tournament to see its teams.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {tournamentId === ALL ? (
+                        <p className="text-sm text-muted-foreground">Select a tournament above.</p>
+                    ) : !tendenciesQuery.data || tendenciesQuery.data.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                            {tendenciesQuery.isLoading ? 'Loading...' : 'No completed vetoes for this tournament yet.'}
+                        </p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Team</TableHead>
+                                    <TableHead className="text-right">Vetoes</TableHead>
+                                    <TableHead>Most banned</TableHead>
+                                    <TableHead>Most picked</TableHead>
+                                    <TableHead className="text-right">Starts on attack</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {tendenciesQuery.data.map(team => (
+                                    <TableRow key={team.teamId}>
+                                        <TableCell className="font-medium">{team.name}</TableCell>
+                                        <TableCell className="text-right">{team.vetoes}</TableCell>
+                                        <TableCell>
+                                            {team.mostBanned ? `${getMapName(team.mostBanned)} (${team.bans[team.mostBanned]})` : '—'}
+                                        </TableCell>
+                                        <TableCell>
+                                            {team.mostPicked ? `${getMapName(team.mostPicked)} (${team.picks[team.mostPicked]})` : '—'}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {team.sideChoices > 0 ? `${formatPercent(toPercent(team.attackRate))} of ${team.sideChoices}` : '—'}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
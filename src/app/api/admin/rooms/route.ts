@@ -1,63 +1,96 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { handleCleanupRequest, getRoomStatistics } from '~/lib/room-cleanup';
-// import { auth } from '~/server/auth'; // Uncomment for admin authentication
+import { type z } from 'zod';
+import { cleanupExpiredRooms, getRoomStatistics } from '~/lib/room-cleanup';
+import { forceExpireRoom, getRoomPresenceByMasterId, getRoomVetoHistory, listActiveRooms } from '~/lib/room-admin';
+import { authenticateAdminRequest } from '~/lib/admin-auth';
+import {
+    activeRoomSchema,
+    adminActionSchema,
+    adminResponseSchema,
+    cleanupResultSchema,
+    forceExpireResultSchema,
+    roomPresenceSchema,
+    roomStatisticsSchema,
+    vetoHistoryResultSchema,
+    type AdminAction,
+    type AdminResponse,
+} from '~/lib/admin-api';
 
-export async function GET(request: NextRequest) {
-    try {
-        // Optional: Add authentication check for admin routes
-        // const session = await auth();
-        // if (!session?.user?.email?.endsWith('@yourdomain.com')) {
-        //   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        // }
-
-        const url = new URL(request.url);
-        const action = url.searchParams.get('action');
-
-        if (action === 'cleanup') {
-            const result = await handleCleanupRequest();
-            return NextResponse.json(result);
-        } else if (action === 'stats') {
-            const stats = await getRoomStatistics();
-            return NextResponse.json(stats);
-        } else {
-            return NextResponse.json(
-                { error: 'Invalid action. Use ?action=cleanup or ?action=stats' },
-                { status: 400 }
-            );
+// Actions that change data are only accepted via POST, except the cleanup Vercel Cron runs with a GET
+const MUTATING_ACTIONS: AdminAction['action'][] = ['cleanup', 'force-expire'];
+
+// The only action CRON_SECRET is good for
+const CRON_ACTION: AdminAction['action'] = 'cleanup';
+
+// Responses go through the same schemas callers parse them with, so the two can't drift apart
+const respond = <T extends z.ZodTypeAny>(schema: T, data: z.input<T>) => {
+    return NextResponse.json(adminResponseSchema(schema).parse({ success: true, data }));
+};
+
+const fail = (error: string, status: number) => {
+    return NextResponse.json({ success: false, error } satisfies AdminResponse<never>, { status });
+};
+
+async function runAction(action: AdminAction) {
+    switch (action.action) {
+        case 'cleanup': {
+            const cleanup = await cleanupExpiredRooms();
+            const statistics = await getRoomStatistics();
+            return respond(cleanupResultSchema, { cleanup, statistics });
+        }
+        case 'stats':
+            return respond(roomStatisticsSchema, await getRoomStatistics());
+        case 'active-rooms':
+            return respond(activeRoomSchema.array(), await listActiveRooms());
+        case 'force-expire': {
+            const result = await forceExpireRoom(action.roomId);
+            return result ? respond(forceExpireResultSchema, result) : fail('Room not found', 404);
+        }
+        case 'history': {
+            const result = await getRoomVetoHistory(action.roomId);
+            return result ? respond(vetoHistoryResultSchema, result) : fail('Room not found', 404);
+        }
+        case 'presence': {
+            const result = await getRoomPresenceByMasterId(action.roomId);
+            return result ? respond(roomPresenceSchema, result) : fail('Room not found', 404);
         }
-    } catch (error) {
-        console.error('Admin API error:', error);
-        return NextResponse.json(
-            { error: 'Internal server error' },
-            { status: 500 }
-        );
     }
 }
 
-export async function POST(request: NextRequest) {
+async function handle(request: NextRequest, readInput: () => Promise<unknown>, allowMutations: boolean) {
     try {
-        // Optional: Add authentication check for admin routes
-        // const session = await auth();
-        // if (!session?.user?.email?.endsWith('@yourdomain.com')) {
-        //   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        // }
-
-        const body = await request.json() as { action: string };
-
-        if (body.action === 'cleanup') {
-            const result = await handleCleanupRequest();
-            return NextResponse.json(result);
-        } else {
-            return NextResponse.json(
-                { error: 'Invalid action' },
-                { status: 400 }
-            );
+        const authResult = await authenticateAdminRequest(request.headers);
+        if (!authResult.ok) {
+            return fail(authResult.error, authResult.status);
+        }
+
+        const parsed = adminActionSchema.safeParse(await readInput());
+        if (!parsed.success) {
+            return fail('Invalid action. Use cleanup, stats, active-rooms, force-expire, history or presence', 400);
+        }
+
+        const isCron = authResult.principal.type === 'cron';
+
+        if (isCron && parsed.data.action !== CRON_ACTION) {
+            return fail(`CRON_SECRET can only run ${CRON_ACTION}`, 403);
         }
+
+        if (!allowMutations && !isCron && MUTATING_ACTIONS.includes(parsed.data.action)) {
+            return fail(`Use POST for ${parsed.data.action}`, 405);
+        }
+
+        return await runAction(parsed.data);
     } catch (error) {
         console.error('Admin API error:', error);
-        return NextResponse.json(
-            { error: 'Internal server error' },
-            { status: 500 }
-        );
+        return fail('Internal server error', 500);
     }
 }
+
+export async function GET(request: NextRequest) {
+    return handle(request, async () => Object.fromEntries(new URL(request.url).searchParams), false);
+}
+
+export async function POST(request: NextRequest) {
+    // A body that isn't JSON is as invalid as an unknown action
+    return handle(request, () => request.json().catch(() => null), true);
+}
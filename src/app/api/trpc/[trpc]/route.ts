@@ -2,6 +2,7 @@ import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
 import { type NextRequest } from "next/server";
 
 import { env } from "~/env";
+import { RateLimitError, toRateLimitHeaders } from "~/lib/rate-limiter";
 import { appRouter } from "~/server/api/root";
 import { createTRPCContext } from "~/server/api/trpc";
 
@@ -21,6 +22,14 @@ const handler = (req: NextRequest) =>
     req,
     router: appRouter,
     createContext: () => createContext(req),
+    // Tell rate-limited callers when to come back
+    responseMeta: ({ errors }) => {
+      const rateLimit = errors
+        .map((error) => error.cause)
+        .find((cause) => cause instanceof RateLimitError);
+
+      return rateLimit ? { headers: toRateLimitHeaders(rateLimit.info) } : {};
+    },
     onError:
       env.NODE_ENV === "development"
         ? ({ path, error }) => {
@@ -0,0 +1,340 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { signIn, useSession } from 'next-auth/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card';
+import { Button } from '~/components/ui/button';
+import { Badge } from '~/components/ui/badge';
+import { Input } from '~/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '~/components/ui/alert-dialog';
+import { Ban, BarChart3, Clock, Copy, Eye, ExternalLink, LayoutDashboard, Trash2 } from 'lucide-react';
+import { api } from '~/trpc/react';
+import OrganizerManagement from '../_components/organizer-management';
+import AdminApiTokens from '../_components/admin-api-tokens';
+import TournamentManagement from '../_components/tournament-management';
+import DisputedResults from '../_components/disputed-results';
+import { getRoundLabel } from '~/constants/maps';
+import { copyToClipboard } from '~/lib/utils';
+import { type OrganizerRoomData, type RoomStatus } from '~/types/room';
+
+const PAGE_SIZE = 10;
+
+const STATUS_FILTERS: Array<{ value: 'all' | RoomStatus; label: string }> = [
+    { value: 'all', label: 'All rooms' },
+    { value: 'waiting', label: 'Waiting' },
+    { value: 'active', label: 'Active' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'expired', label: 'Expired' },
+    { value: 'cancelled', label: 'Cancelled' },
+];
+
+const getTimeRemaining = (expiresAt: string): string => {
+    const diff = new Date(expiresAt).getTime() - Date.now();
+
+    if (diff <= 0) return 'Expired';
+
+    const hours = Math.floor(diff / (1000 * 60 * 60));
+    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+
+    return hours > 0 ? `${hours}h ${minutes}m remaining` : `${minutes}m remaining`;
+};
+
+export default function DashboardPage() {
+    const { data: session, status: sessionStatus } = useSession();
+    const [page, setPage] = useState(1);
+    const [statusFilter, setStatusFilter] = useState<'all' | RoomStatus>('all');
+
+    const roomsQuery = api.room.listMine.useQuery(
+        {
+            page,
+            pageSize: PAGE_SIZE,
+            status: statusFilter === 'all' ? undefined : [statusFilter],
+        },
+        { enabled: !!session?.user }
+    );
+
+    const organizerQuery = api.organizer.me.useQuery(undefined, { enabled: !!session?.user });
+
+    const extendMutation = api.room.extend.useMutation({
+        onSuccess: () => void roomsQuery.refetch(),
+    });
+
+    const deleteMutation = api.room.delete.useMutation({
+        onSuccess: () => void roomsQuery.refetch(),
+    });
+
+    const cancelMutation = api.room.cancel.useMutation({
+        onSuccess: () => void roomsQuery.refetch(),
+    });
+
+    const handleStatusFilterChange = (value: string) => {
+        setStatusFilter(value as 'all' | RoomStatus);
+        setPage(1);
+    };
+
+    if (sessionStatus === 'loading') {
+        return (
+            <div className="container mx-auto p-6">
+                <div className="text-center">
+                    <p>Loading...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!session?.user) {
+        return (
+            <div className="w-full max-w-4xl mx-auto p-4">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>My Rooms</CardTitle>
+                        <CardDescription>
+                            Sign in with Discord to find, extend and manage the veto rooms you created.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Button onClick={() => signIn('discord')}>Sign in with Discord</Button>
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const data = roomsQuery.data;
+
+    return (
+        <div className="container mx-auto p-6">
+            <div className="mb-6 flex flex-col sm:flex-row gap-4 sm:items-end justify-between">
+                <div>
+                    <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+                        <LayoutDashboard className="w-8 h-8" />
+                        My Rooms
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Rooms you created while signed in. Reopen them, share their links again, or clean them up.
+                    </p>
+                </div>
+                <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
+                    <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {STATUS_FILTERS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {roomsQuery.isLoading ? (
+                <p className="text-center text-muted-foreground">Loading rooms...</p>
+            ) : !data || data.rooms.length === 0 ? (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>No rooms yet</CardTitle>
+                        <CardDescription>
+                            Rooms you create while signed in will show up here.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Button asChild>
+                            <Link href="/">Create a room</Link>
+                        </Button>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="space-y-4">
+                    {data.rooms.map((room) => (
+                        <RoomCard
+                            key={room.id}
+                            room={room}
+                            onExtend={() => extendMutation.mutate({ roomId: room.id })}
+                            onDelete={() => deleteMutation.mutate({ roomId: room.id })}
+                            onCancel={(reason) => cancelMutation.mutate({ roomId: room.id, reason: reason || undefined })}
+                            isExtending={extendMutation.isPending && extendMutation.variables?.roomId === room.id}
+                            isDeleting={deleteMutation.isPending && deleteMutation.variables?.roomId === room.id}
+                            isCancelling={cancelMutation.isPending && cancelMutation.variables?.roomId === room.id}
+                        />
+                    ))}
+
+                    <div className="flex items-center justify-between pt-2">
+                        <span className="text-sm text-muted-foreground">
+                            Page {data.page} of {data.totalPages} ({data.total} rooms)
+                        </span>
+                        <div className="flex gap-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page - 1)}
+                                disabled={page <= 1}
+                            >
+                                Previous
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page + 1)}
+                                disabled={page >= data.totalPages}
+                            >
+                                Next
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {organizerQuery.data?.isOrganizer && (
+                <div className="mt-8 flex justify-end">
+                    <Button variant="outline" asChild>
+                        <Link href="/analytics">
+                            <BarChart3 className="w-4 h-4 mr-2" />
+                            Veto Analytics
+                        </Link>
+                    </Button>
+                </div>
+            )}
+
+            {organizerQuery.data?.isOrganizer && (
+                <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <OrganizerManagement />
+                    <AdminApiTokens />
+                    <DisputedResults />
+                    <TournamentManagement />
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface RoomCardProps {
+    room: OrganizerRoomData;
+    onExtend: () => void;
+    onDelete: () => void;
+    onCancel: (reason: string) => void;
+    isExtending: boolean;
+    isDeleting: boolean;
+    isCancelling: boolean;
+}
+
+function RoomCard({ room, onExtend, onDelete, onCancel, isExtending, isDeleting, isCancelling }: RoomCardProps) {
+    const [cancelReason, setCancelReason] = useState('');
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                    <span>
+                        {room.teamAName ?? 'Team A'} vs {room.teamBName ?? 'Team B'}
+                    </span>
+                    <Badge variant={room.status === 'waiting' ? 'default' : 'outline'}>
+                        {room.status}
+                    </Badge>
+                </CardTitle>
+                <CardDescription>
+                    Room {room.id} · Created {new Date(room.createdAt).toLocaleString()}
+                    {room.status === 'cancelled' && room.cancelReason && ` · Cancelled: ${room.cancelReason}`}
+                </CardDescription>
+                <div className="flex items-center gap-2 mt-2">
+                    <Badge variant="outline" className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {getTimeRemaining(room.expiresAt)}
+                    </Badge>
+                    <Badge variant="secondary">
+                        {getRoundLabel(room.roundType)}
+                    </Badge>
+                    <Badge variant="secondary">
+                        {room.maps.length} maps
+                    </Badge>
+                </div>
+            </CardHeader>
+            <CardContent>
+                <div className="flex flex-wrap gap-2">
+                    <Button size="sm" asChild>
+                        <Link href={`/${room.id}`}>
+                            <ExternalLink className="w-4 h-4 mr-2" />
+                            Open
+                        </Link>
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => copyToClipboard(room.teamALink, 'Team A link')}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Team A
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => copyToClipboard(room.teamBLink, 'Team B link')}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Team B
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => copyToClipboard(room.spectatorLink, 'Spectator link')}>
+                        <Eye className="w-4 h-4 mr-2" />
+                        Spectator
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={onExtend} disabled={isExtending}>
+                        <Clock className="w-4 h-4 mr-2" />
+                        {isExtending ? 'Extending...' : 'Extend'}
+                    </Button>
+                    {room.status !== 'cancelled' && (
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button variant="outline" size="sm" disabled={isCancelling}>
+                                    <Ban className="w-4 h-4 mr-2" />
+                                    {isCancelling ? 'Cancelling...' : 'Cancel Room'}
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>Cancel room {room.id}?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        Teams and spectators will see that the room was cancelled, and no further veto actions are accepted.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <Input
+                                    value={cancelReason}
+                                    onChange={(e) => setCancelReason(e.target.value)}
+                                    placeholder="Reason (optional)"
+                                    maxLength={200}
+                                />
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Keep Room</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => onCancel(cancelReason.trim())}>Cancel Room</AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                    )}
+                    <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                            <Button variant="destructive" size="sm" disabled={isDeleting}>
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                {isDeleting ? 'Deleting...' : 'Delete'}
+                            </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                            <AlertDialogHeader>
+                                <AlertDialogTitle>Delete room {room.id}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                    The room, its links and its veto history will be removed permanently.
+                                </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                        </AlertDialogContent>
+                    </AlertDialog>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -4,7 +4,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { Button } from '~/components/ui/button';
 import { ModeToggle } from '~/components/theme-toggle';
-import { Github, Heart } from 'lucide-react';
+import { Github, Heart, LayoutDashboard } from 'lucide-react';
 import { signIn, signOut, useSession } from 'next-auth/react';
 
 export function TopNavigation() {
@@ -42,6 +42,17 @@ export function TopNavigation() {
                                         {session.user.name}
                                     </span>
                                 </div>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    asChild
+                                    className="text-xs"
+                                >
+                                    <Link href="/dashboard" className="flex items-center">
+                                        <LayoutDashboard className="h-4 w-4 mr-1" />
+                                        My Rooms
+                                    </Link>
+                                </Button>
                                 <Button
                                     variant="outline"
                                     size="sm"
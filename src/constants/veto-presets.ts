@@ -3,6 +3,7 @@ export interface VetoStep {
     team: 'team-a' | 'team-b';
     action: 'ban' | 'pick' | 'side';
     completed: boolean;
+    timeLimitSeconds?: number; // Optional per-step turn timer
 }
 
 export interface VetoPreset {
@@ -163,6 +164,19 @@ export const getPresetById = (id: string): VetoPreset | undefined => {
     return VETO_PRESETS.find(preset => preset.id === id);
 };
 
+// The preset whose steps a sequence follows exactly (per-step timers aside), if any
+export const findPresetForSequence = (
+    roundType: 'bo1' | 'bo3' | 'bo5',
+    sequence: Array<Pick<VetoStep, 'team' | 'action'>> | undefined
+): VetoPreset | undefined => {
+    if (!sequence) return undefined;
+
+    return getPresetsForRoundType(roundType).find(preset =>
+        preset.sequence.length === sequence.length &&
+        preset.sequence.every((step, index) => step.team === sequence[index]?.team && step.action === sequence[index]?.action)
+    );
+};
+
 export const isPresetAvailable = (preset: VetoPreset, mapCount: number): boolean => {
     if (preset.exactMaps) {
         return mapCount === preset.exactMaps;
@@ -236,23 +250,20 @@ export const validateVetoSequence = (
         errors.push(`This veto format is designed for exactly 7 maps (Ayatori/Mighty Meow rules)`);
     }
 
-    // Validate side actions come after their corresponding picks
-    const pickIndices: number[] = [];
-    const sideIndices: number[] = [];
-
+    // Validate every side action has a picked map without a side yet (otherwise the veto gets stuck)
+    let mapsAwaitingSide = 0;
     sequence.forEach((step, index) => {
         if (step.action === 'pick') {
-            pickIndices.push(index);
+            mapsAwaitingSide++;
         } else if (step.action === 'side') {
-            sideIndices.push(index);
+            if (mapsAwaitingSide === 0) {
+                errors.push(`Step ${index + 1}: side choice has no picked map to apply to`);
+            } else {
+                mapsAwaitingSide--;
+            }
         }
     });
 
-    // Basic validation: each side action should come after at least one pick
-    if (sides > 0 && pickIndices.length === 0) {
-        errors.push('Side actions require at least one map to be picked first');
-    }
-
     return { isValid: errors.length === 0, errors };
 };
 
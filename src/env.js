@@ -15,6 +15,17 @@ export const env = createEnv({
     AUTH_DISCORD_SECRET: z.string(),
     DATABASE_URL: z.string().url(),
     SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
+    // Where rate limit counters live; "memory" is per instance, so only use it locally
+    RATE_LIMIT_STORE: z.enum(["memory", "postgres", "redis"]).default("postgres"),
+    REDIS_URL: z.string().url().optional(),
+    // Client IP resolution; see src/lib/get-ip.ts
+    TRUSTED_PROXIES: z.string().optional(),
+    CLIENT_IP_HEADER: z.string().optional(),
+    IP_SALT: z.string().optional(),
+    // Comma-separated Discord user IDs made organizers when they sign in
+    INITIAL_ORGANIZER_DISCORD_IDS: z.string().optional(),
+    // Sent by Vercel Cron as a bearer token; only allows the scheduled room cleanup
+    CRON_SECRET: z.string().min(16).optional(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -26,8 +37,12 @@ export const env = createEnv({
    * `NEXT_PUBLIC_`.
    */
   client: {
-    NEXT_PUBLIC_SUPABASE_URL: z.string().url(),
-    NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string(),
+    // "supabase" uses Supabase Realtime; "sse" streams room updates from this server over tRPC
+    NEXT_PUBLIC_REALTIME_TRANSPORT: z
+      .enum(["supabase", "sse"])
+      .default("supabase"),
+    NEXT_PUBLIC_SUPABASE_URL: z.string().url().optional(),
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().optional(),
   },
 
   /**
@@ -40,7 +55,15 @@ export const env = createEnv({
     AUTH_DISCORD_SECRET: process.env.AUTH_DISCORD_SECRET,
     DATABASE_URL: process.env.DATABASE_URL,
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+    REDIS_URL: process.env.REDIS_URL,
+    TRUSTED_PROXIES: process.env.TRUSTED_PROXIES,
+    CLIENT_IP_HEADER: process.env.CLIENT_IP_HEADER,
+    IP_SALT: process.env.IP_SALT,
+    INITIAL_ORGANIZER_DISCORD_IDS: process.env.INITIAL_ORGANIZER_DISCORD_IDS,
+    CRON_SECRET: process.env.CRON_SECRET,
     NODE_ENV: process.env.NODE_ENV,
+    NEXT_PUBLIC_REALTIME_TRANSPORT: process.env.NEXT_PUBLIC_REALTIME_TRANSPORT,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
   },
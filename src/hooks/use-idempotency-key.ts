@@ -0,0 +1,24 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Hands out one idempotency key per intent (e.g. "ban ascent at v4") and keeps reusing it
+ * until the request succeeds, so clicking again after a flaky response replays the original
+ * result on the server instead of applying the action twice.
+ */
+export const useIdempotencyKey = () => {
+    const pendingRef = useRef<{ intent: string; key: string } | null>(null);
+
+    const getKey = useCallback((intent: string) => {
+        if (pendingRef.current?.intent !== intent) {
+            pendingRef.current = { intent, key: crypto.randomUUID() };
+        }
+        return pendingRef.current.key;
+    }, []);
+
+    // Call once the request succeeded; the next attempt is a new intent
+    const clearKey = useCallback(() => {
+        pendingRef.current = null;
+    }, []);
+
+    return { getKey, clearKey };
+};
@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { api } from '~/trpc/react';
+
+// Must stay well under the server's presence timeout (45 seconds)
+const PRESENCE_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+interface UseRoomPresenceOptions {
+    roomId: string; // The ID this tab opened the room with; team links count as that team
+    masterRoomId: string;
+    clientId: string;
+    enabled: boolean;
+}
+
+/**
+ * Reports this tab as connected to the room and returns who else is
+ */
+export const useRoomPresence = ({ roomId, masterRoomId, clientId, enabled }: UseRoomPresenceOptions) => {
+    const { mutate: sendHeartbeat } = api.room.heartbeat.useMutation();
+    const { mutate: sendLeave } = api.room.leave.useMutation();
+
+    useEffect(() => {
+        if (!enabled || !roomId) {
+            return;
+        }
+
+        sendHeartbeat({ roomId, clientId });
+        const heartbeatInterval = setInterval(() => sendHeartbeat({ roomId, clientId }), PRESENCE_HEARTBEAT_INTERVAL_MS);
+
+        return () => {
+            clearInterval(heartbeatInterval);
+            sendLeave({ roomId, clientId });
+        };
+    }, [roomId, clientId, enabled, sendHeartbeat, sendLeave]);
+
+    const presenceQuery = api.room.getPresence.useQuery(
+        { masterRoomId },
+        { enabled: enabled && !!masterRoomId, refetchInterval: PRESENCE_HEARTBEAT_INTERVAL_MS }
+    );
+
+    return presenceQuery.data;
+};
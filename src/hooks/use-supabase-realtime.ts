@@ -1,43 +1,77 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { supabase } from '~/lib/supabase';
-import type { RealtimeChannel } from '@supabase/supabase-js';
-
-type RoomUpdateType = 'team-ready-updated' | 'veto-started' | 'veto-action' | 'side-selected' | 'team-name-updated';
-
-interface RoomRealtimeUpdate {
-    type: RoomUpdateType;
-    room: string;
-    data?: Record<string, unknown>;
-    timestamp?: number;
-}
-
+import { useEffect, useMemo, useState, useRef } from 'react';
+import { TRPCClientError } from '@trpc/client';
+import { env } from '~/env';
+import {
+    createSseTransport,
+    createSupabaseTransport,
+    type PingPayload,
+    type RoomChannel,
+    type RoomChannelStatus,
+} from '~/lib/realtime-transport';
+import { api } from '~/trpc/react';
+import type { AppRouter } from '~/server/api/root';
+import type { RoomRealtimeUpdate, RoomUpdateType } from '~/types/realtime';
+
+// A broadcast only signals that the room moved to a newer version; its contents are never applied
 interface BroadcastPayload {
     type?: string;
-    room?: string;
-    data?: Record<string, unknown>;
-    timestamp?: number;
-    clientId?: string;
+    version?: number;
 }
 
+// Latency is measured with a round trip to the server, so keep it rare
+const LATENCY_PING_INTERVAL_MS = 15 * 1000;
+
 interface UseSupabaseRoomUpdatesOptions {
     roomId: string;
     enabled: boolean;
-    onUpdate?: (update: RoomRealtimeUpdate) => void;
+    measureLatency?: boolean; // Only one subscription per page needs to ping
+    version?: number; // Version of the room state the caller currently holds
+    onUpdate?: (update: RoomRealtimeUpdate) => void; // Called with events read from the server's log
+    onResync?: () => void; // Missed events could not be replayed; refetch the full state
 }
 
-export const useSupabaseRoomUpdates = ({ roomId, enabled, onUpdate }: UseSupabaseRoomUpdatesOptions) => {
+const isRoomNotFound = (error: unknown) =>
+    error instanceof TRPCClientError && (error as TRPCClientError<AppRouter>).data?.code === 'NOT_FOUND';
+
+export const useSupabaseRoomUpdates = ({
+    roomId,
+    enabled,
+    measureLatency = true,
+    version,
+    onUpdate,
+    onResync,
+}: UseSupabaseRoomUpdatesOptions) => {
     const [isConnected, setIsConnected] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const channelRef = useRef<RealtimeChannel | null>(null);
+    const channelRef = useRef<RoomChannel | null>(null);
     const [latency, setLatency] = useState<number>(-1); // Initialize to -1 to distinguish from actual 0ms latency
     const [shouldShowRefreshPrompt, setShouldShowRefreshPrompt] = useState(false);
     const [connectionFailureCount, setConnectionFailureCount] = useState(0);
     const lastPingTimestampRef = useRef<number | null>(null);
     const missedPingsRef = useRef<number>(0);
     const onUpdateRef = useRef(onUpdate);
-
-    // Keep the callback ref up to date
+    const onResyncRef = useRef(onResync);
+    // Last room version applied, the highest version seen on the channel, and whether a catch-up is running
+    const lastVersionRef = useRef<number | null>(null);
+    const seenVersionRef = useRef(0);
+    const catchingUpRef = useRef(false);
+    const catchUpRef = useRef<(() => Promise<void>) | null>(null);
+
+    // Keep the callback refs up to date
     onUpdateRef.current = onUpdate;
+    onResyncRef.current = onResync;
+
+    // A fresh fetch moves the baseline forward; events at or below it are already reflected
+    useEffect(() => {
+        if (version !== undefined && version > (lastVersionRef.current ?? -1)) {
+            lastVersionRef.current = version;
+
+            // A signal arrived while that fetch was still on its way
+            if (seenVersionRef.current > version) {
+                void catchUpRef.current?.();
+            }
+        }
+    }, [version]);
 
     const [clientId] = useState<string>(() => {
         // Try to get clientId from sessionStorage
@@ -53,25 +87,80 @@ export const useSupabaseRoomUpdates = ({ roomId, enabled, onUpdate }: UseSupabas
         return newClientId;
     });
 
+    // The transport is fixed per build; the SSE one needs this app's tRPC client
+    const trpcClient = api.useUtils().client;
+    const transport = useMemo(
+        () => env.NEXT_PUBLIC_REALTIME_TRANSPORT === 'sse'
+            ? createSseTransport(trpcClient)
+            : createSupabaseTransport(trpcClient),
+        [trpcClient]
+    );
+
     useEffect(() => {
         if (!enabled || !roomId) {
             return;
         }
 
-        console.log(`🔌 Setting up Supabase channel for room: ${roomId}`);
+        console.log(`🔌 Setting up ${env.NEXT_PUBLIC_REALTIME_TRANSPORT} channel for room: ${roomId}`);
 
-        // Create a channel for this specific room
-        const channel = supabase.channel(`room:${roomId}`, {
-            config: {
-                broadcast: { self: true, ack: true }, // Allow self messages for ping latency
-                presence: { key: clientId },
-            },
-        });
+        const applyUpdate = (update: RoomRealtimeUpdate) => {
+            lastVersionRef.current = update.version;
+            onUpdateRef.current?.(update);
+        };
 
-        channelRef.current = channel;
+        // Load events from the server's log; only resync fully if the log can't bridge the gap
+        const catchUp = async (): Promise<void> => {
+            const fromVersion = lastVersionRef.current;
+            if (fromVersion === null || catchingUpRef.current) {
+                return;
+            }
 
-        const handleUpdate = (payload: { payload: BroadcastPayload }) => {
-            const broadcastPayload = payload.payload;
+            catchingUpRef.current = true;
+            let failed = false;
+
+            try {
+                const result = await trpcClient.room.getEventsSince.query({ masterRoomId: roomId, version: fromVersion });
+
+                if (result.complete) {
+                    for (const event of result.events) {
+                        if (event.version === (lastVersionRef.current ?? fromVersion) + 1) {
+                            applyUpdate(event);
+                        }
+                    }
+                } else {
+                    console.warn(`Cannot replay updates since v${fromVersion}, resyncing`);
+                    lastVersionRef.current = Math.max(lastVersionRef.current ?? 0, result.version);
+                    onResyncRef.current?.();
+                }
+            } catch (catchUpError) {
+                failed = true;
+
+                // The room and its log are gone
+                if (isRoomNotFound(catchUpError)) {
+                    onUpdateRef.current?.({
+                        type: 'room-deleted',
+                        room: roomId,
+                        version: seenVersionRef.current,
+                        timestamp: Date.now(),
+                    });
+                } else {
+                    console.error('Failed to catch up on room updates:', catchUpError);
+                    onResyncRef.current?.();
+                }
+            } finally {
+                catchingUpRef.current = false;
+            }
+
+            // Updates that arrived while catching up may have opened a new gap
+            if (!failed && seenVersionRef.current > (lastVersionRef.current ?? seenVersionRef.current)) {
+                void catchUp();
+            }
+        };
+
+        catchUpRef.current = catchUp;
+
+        const handleUpdate = (payload: unknown) => {
+            const broadcastPayload = payload as BroadcastPayload | undefined;
             const updateType = broadcastPayload?.type;
 
             if (!updateType || !isValidRoomUpdateType(updateType)) {
@@ -79,115 +168,106 @@ export const useSupabaseRoomUpdates = ({ roomId, enabled, onUpdate }: UseSupabas
                 return;
             }
 
-            const update: RoomRealtimeUpdate = {
-                type: updateType,
-                room: broadcastPayload?.room ?? roomId,
-                data: broadcastPayload?.data,
-                timestamp: broadcastPayload?.timestamp ?? Date.now(),
-            };
+            if (typeof broadcastPayload.version !== 'number') {
+                console.warn('Update without a room version received:', updateType);
+                return;
+            }
 
-            onUpdateRef.current?.(update);
+            const version = broadcastPayload.version;
+            seenVersionRef.current = Math.max(seenVersionRef.current, version);
+
+            const lastVersion = lastVersionRef.current;
+            if (lastVersion !== null && version <= lastVersion) {
+                console.log(`Dropping stale or duplicate update v${version} (at v${lastVersion})`);
+                return;
+            }
+
+            // Fetch what changed from the server; a deleted room shows up as the room being gone.
+            // Before the first fetch there is nothing to catch up on; that fetch returns the latest state.
+            void catchUp();
         };
 
-        // Subscribe to broadcast messages for room updates
-        channel
-            .on('broadcast', { event: 'room-update' }, (payload) => {
-                // Skip our own room updates to avoid duplicate processing
-                const broadcastPayload = payload.payload as BroadcastPayload;
-                if (broadcastPayload?.clientId === clientId) {
-                    console.log('📨 Skipping own room update');
-                    return;
-                }
-                console.log('📨 Received room update:', payload);
-                handleUpdate({ payload: payload.payload as BroadcastPayload });
-            })
-            .on('broadcast', { event: 'veto-update' }, (payload) => {
-                // Skip our own veto updates to avoid duplicate processing
-                const broadcastPayload = payload.payload as BroadcastPayload;
-                if (broadcastPayload?.clientId === clientId) {
-                    console.log('🎮 Skipping own veto update');
-                    return;
-                }
-                console.log('🎮 Received veto update:', payload);
-                handleUpdate({ payload: payload.payload as BroadcastPayload });
-            })
-            .on('broadcast', { event: 'ping' }, (payload) => {
-                // Handle ping responses for latency calculation
-                const pingPayload = payload?.payload as { clientId?: string; timestamp?: number };
-                if (pingPayload?.clientId === clientId && typeof pingPayload.timestamp === 'number') {
-                    const currentTime = Date.now();
-                    const pingLatency = currentTime - pingPayload.timestamp;
-
-                    console.log(`🏓 Setting latency state to: ${pingLatency}ms`);
-                    setLatency(pingLatency);
-                    console.log(`🏓 Ping latency: ${pingLatency}ms`);
-
-                    // Reset missed pings counter on successful ping response
-                    missedPingsRef.current = 0;
-                    lastPingTimestampRef.current = currentTime;
-
-                    // If latency is very high, increment connection failure count
-                    if (pingLatency > 5000) { // 5 seconds
-                        setConnectionFailureCount(prev => {
-                            const newCount = prev + 1;
-                            if (newCount >= 3) {
-                                setShouldShowRefreshPrompt(true);
-                            }
-                            return newCount;
-                        });
-                    } else if (pingLatency < 1000) {
-                        // Reset failure count on good connection
-                        setConnectionFailureCount(0);
-                        setShouldShowRefreshPrompt(false);
-                    }
-                }
-            })
-            .subscribe((status) => {
-                console.log(`📡 Supabase channel status for room:${roomId}:`, status);
+        const handlePing = (pingPayload: Partial<PingPayload>) => {
+            // Handle ping responses for latency calculation
+            if (pingPayload?.clientId === clientId && typeof pingPayload.timestamp === 'number') {
+                const currentTime = Date.now();
+                const pingLatency = currentTime - pingPayload.timestamp;
 
-                const statusStr = status as string;
+                console.log(`🏓 Setting latency state to: ${pingLatency}ms`);
+                setLatency(pingLatency);
+                console.log(`🏓 Ping latency: ${pingLatency}ms`);
 
-                if (statusStr === 'SUBSCRIBED') {
-                    setIsConnected(true);
-                    setError(null);
-                    setConnectionFailureCount(0);
-                    setShouldShowRefreshPrompt(false);
-                    console.log(`✅ Successfully subscribed to room:${roomId}`);
-                } else if (statusStr === 'CHANNEL_ERROR') {
-                    setIsConnected(false);
-                    setError('Failed to connect to realtime updates');
-                    setConnectionFailureCount(prev => {
-                        const newCount = prev + 1;
-                        if (newCount >= 2) {
-                            setShouldShowRefreshPrompt(true);
-                        }
-                        return newCount;
-                    });
-                    console.error(`❌ Channel error for room:${roomId}`);
-                } else if (statusStr === 'TIMED_OUT') {
-                    setIsConnected(false);
-                    setError('Connection timed out');
+                // Reset missed pings counter on successful ping response
+                missedPingsRef.current = 0;
+                lastPingTimestampRef.current = currentTime;
+
+                // If latency is very high, increment connection failure count
+                if (pingLatency > 5000) { // 5 seconds
                     setConnectionFailureCount(prev => {
                         const newCount = prev + 1;
-                        if (newCount >= 2) {
+                        if (newCount >= 3) {
                             setShouldShowRefreshPrompt(true);
                         }
                         return newCount;
                     });
-                    console.error(`⏰ Timeout for room:${roomId}`);
-                } else if (statusStr === 'CLOSED') {
-                    setIsConnected(false);
-                    console.log(`🔒 Channel closed for room:${roomId}`);
+                } else if (pingLatency < 1000) {
+                    // Reset failure count on good connection
+                    setConnectionFailureCount(0);
+                    setShouldShowRefreshPrompt(false);
                 }
-            });
+            }
+        };
+
+        const handleStatus = (status: RoomChannelStatus) => {
+            if (status === 'connected') {
+                // Pick up anything published while we were not subscribed
+                void catchUp();
+                setIsConnected(true);
+                setError(null);
+                setConnectionFailureCount(0);
+                setShouldShowRefreshPrompt(false);
+                console.log(`✅ Successfully subscribed to room:${roomId}`);
+            } else if (status === 'error') {
+                setIsConnected(false);
+                setError('Failed to connect to realtime updates');
+                setConnectionFailureCount(prev => {
+                    const newCount = prev + 1;
+                    if (newCount >= 2) {
+                        setShouldShowRefreshPrompt(true);
+                    }
+                    return newCount;
+                });
+                console.error(`❌ Channel error for room:${roomId}`);
+            } else if (status === 'timed-out') {
+                setIsConnected(false);
+                setError('Connection timed out');
+                setConnectionFailureCount(prev => {
+                    const newCount = prev + 1;
+                    if (newCount >= 2) {
+                        setShouldShowRefreshPrompt(true);
+                    }
+                    return newCount;
+                });
+                console.error(`⏰ Timeout for room:${roomId}`);
+            } else if (status === 'closed') {
+                setIsConnected(false);
+                console.log(`🔒 Channel closed for room:${roomId}`);
+            }
+        };
+
+        channelRef.current = transport.connect({ roomId, clientId }, {
+            onUpdate: handleUpdate,
+            onPing: handlePing,
+            onStatus: handleStatus,
+        });
 
-        // Set up latency monitoring with ping every second
-        const latencyInterval = setInterval(() => {
+        // Set up latency monitoring with a ping right away and then every LATENCY_PING_INTERVAL_MS
+        const sendPing = () => {
             if (channelRef.current) {
                 const pingTimestamp = Date.now();
 
-                // Check for missed pings (no response for more than 5 seconds)
-                if (lastPingTimestampRef.current && pingTimestamp - lastPingTimestampRef.current > 5000) {
+                // Check for missed pings (no response within 5 seconds of the last one being due)
+                if (lastPingTimestampRef.current && pingTimestamp - lastPingTimestampRef.current > LATENCY_PING_INTERVAL_MS + 5000) {
                     missedPingsRef.current += 1;
                     console.warn(`⚠️ Missed ping detected. Count: ${missedPingsRef.current}`);
 
@@ -199,22 +279,24 @@ export const useSupabaseRoomUpdates = ({ roomId, enabled, onUpdate }: UseSupabas
                 }
 
                 console.log(`🏓 Sending ping for room: ${roomId}`);
-                void channelRef.current.send({
-                    type: 'broadcast',
-                    event: 'ping',
-                    payload: { clientId: clientId, timestamp: pingTimestamp },
-                });
+                channelRef.current.ping({ clientId: clientId, timestamp: pingTimestamp });
 
                 // Set the timestamp for this ping attempt
                 lastPingTimestampRef.current ??= pingTimestamp;
             }
-        }, 1000);
+        };
+
+        if (measureLatency) {
+            sendPing();
+        }
+        const latencyInterval = measureLatency ? setInterval(sendPing, LATENCY_PING_INTERVAL_MS) : undefined;
 
         return () => {
-            console.log(`🧹 Cleaning up Supabase channel for room:${roomId}`);
+            console.log(`🧹 Cleaning up realtime channel for room:${roomId}`);
             clearInterval(latencyInterval);
+            catchUpRef.current = null;
             if (channelRef.current) {
-                void supabase.removeChannel(channelRef.current);
+                channelRef.current.close();
                 channelRef.current = null;
             }
             setIsConnected(false);
@@ -223,63 +305,15 @@ export const useSupabaseRoomUpdates = ({ roomId, enabled, onUpdate }: UseSupabas
             missedPingsRef.current = 0;
             lastPingTimestampRef.current = null;
         };
-    }, [roomId, enabled, clientId]);
-
-    // Method to send updates (for when this client makes changes)
-    const broadcastRoomUpdate = useCallback(async (type: string, data?: Record<string, unknown>) => {
-        if (!channelRef.current) {
-            console.warn(`Cannot broadcast room update: channel not available for room:${roomId}`);
-            return;
-        }
-
-        const payload = {
-            type,
-            room: roomId,
-            data,
-            timestamp: Date.now(),
-            clientId, // Include clientId for filtering
-        };
-
-        console.log('📤 Broadcasting room update:', payload);
-
-        await channelRef.current.send({
-            type: 'broadcast',
-            event: 'room-update',
-            payload,
-        });
-    }, [roomId, clientId]);
-
-    const broadcastVetoUpdate = useCallback(async (type: string, data?: Record<string, unknown>) => {
-        if (!channelRef.current) {
-            console.warn(`Cannot broadcast veto update: channel not available for room:${roomId}`);
-            return;
-        }
-
-        const payload = {
-            type,
-            room: roomId,
-            data,
-            timestamp: Date.now(),
-            clientId, // Include clientId for filtering
-        };
-
-        console.log('🎮 Broadcasting veto update:', payload);
-
-        await channelRef.current.send({
-            type: 'broadcast',
-            event: 'veto-update',
-            payload,
-        });
-    }, [roomId, clientId]);
+    }, [roomId, enabled, measureLatency, clientId, transport, trpcClient]);
 
     return {
+        clientId,
         isConnected,
         error,
         latency,
         shouldShowRefreshPrompt,
         connectionFailureCount,
-        broadcastRoomUpdate,
-        broadcastVetoUpdate,
     };
 };
 
@@ -290,7 +324,12 @@ function isValidRoomUpdateType(type: string): type is RoomUpdateType {
         'veto-started',
         'veto-action',
         'side-selected',
-        'team-name-updated'
+        'team-name-updated',
+        'veto-undone',
+        'room-cancelled',
+        'room-expired',
+        'room-deleted',
+        'map-result-updated'
     ];
     return validTypes.includes(type as RoomUpdateType);
 }
\ No newline at end of file
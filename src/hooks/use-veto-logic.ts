@@ -1,15 +1,30 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
 import { api } from '~/trpc/react';
 import type { VetoState, TeamType, ActionType, SideType } from '~/types/veto';
-import { MAP_DATA } from '~/constants/maps';
+import {
+    applyAction,
+    getCurrentStep,
+    getCurrentTurn,
+    getMapAwaitingSide,
+} from '~/lib/veto-engine';
 import { useSupabaseRoomUpdates } from '~/hooks/use-supabase-realtime';
+import { useIdempotencyKey } from '~/hooks/use-idempotency-key';
+import type { RoomRealtimeUpdate } from '~/types/realtime';
+
+// Payload of veto-started, veto-action, side-selected and veto-undone events
+interface VetoUpdateData {
+    vetoState: VetoState;
+    currentTurn: string | null;
+    vetoCompleted: boolean;
+    turnDeadline: string | null;
+}
 
 interface UseVetoLogicProps {
     masterRoomId: string; // For realtime subscriptions
     teamRoomId: string;   // For API calls
     teamRole?: TeamType;
     isSpectator?: boolean;
-    roundType?: string;
     onVetoComplete?: () => void;
 }
 
@@ -18,54 +33,78 @@ export const useVetoLogic = ({
     teamRoomId,
     teamRole,
     isSpectator = false,
-    roundType,
     onVetoComplete
 }: UseVetoLogicProps) => {
     const [showSideSelection, setShowSideSelection] = useState(false);
     const [pendingMapId, setPendingMapId] = useState<string | null>(null);
 
-    // Queries - use masterRoomId to get shared veto state
-    const vetoStateQuery = api.room.getVetoState.useQuery(
-        { roomId: masterRoomId },
-        { refetchInterval: 2000 }
-    );
+    // Queries - use masterRoomId to get shared veto state.
+    // No polling: realtime signals and the catch-up on reconnect or a version gap keep it current.
+    const vetoStateQuery = api.room.getVetoState.useQuery({ roomId: masterRoomId });
+
+    const utils = api.useUtils();
 
-    // Supabase realtime updates for veto actions - use masterRoomId for shared updates
-    const handleVetoUpdate = useCallback((update: { type: string; data?: Record<string, unknown> }) => {
+    // Realtime updates for veto actions - use masterRoomId for shared updates.
+    // A broadcast only triggers a fetch of the server's event log; those events carry the resulting state.
+    const handleVetoUpdate = useCallback((update: RoomRealtimeUpdate) => {
         console.log('Received veto update:', update);
 
-        if (update.type === 'veto-action' || update.type === 'side-selected' || update.type === 'veto-started') {
-            // Refetch veto state when veto actions occur
+        if (update.type !== 'veto-action' && update.type !== 'side-selected' && update.type !== 'veto-started' && update.type !== 'veto-undone') {
+            return;
+        }
+
+        const current = utils.room.getVetoState.getData({ roomId: masterRoomId });
+        if (current && update.version <= current.version) {
+            return;
+        }
+
+        const data = update.data as VetoUpdateData | undefined;
+        if (!data?.vetoState) {
             void vetoStateQuery.refetch();
+            return;
         }
+
+        utils.room.getVetoState.setData({ roomId: masterRoomId }, {
+            vetoStarted: true,
+            vetoCompleted: data.vetoCompleted,
+            currentTurn: data.currentTurn,
+            vetoState: data.vetoState,
+            turnDeadline: data.turnDeadline,
+            serverTime: new Date(update.timestamp).toISOString(),
+            version: update.version,
+        });
+    }, [utils, masterRoomId, vetoStateQuery]);
+
+    const handleResync = useCallback(() => {
+        void vetoStateQuery.refetch();
     }, [vetoStateQuery]);
 
     const {
-        broadcastVetoUpdate,
+        clientId,
         latency: realtimeLatency,
         isConnected: realtimeConnected,
         shouldShowRefreshPrompt: realtimeRefreshPrompt,
         connectionFailureCount: realtimeFailureCount
     } = useSupabaseRoomUpdates({
         roomId: masterRoomId, // Use masterRoomId for shared realtime channel
-        enabled: !isSpectator,
+        enabled: true,
+        // The room page around this veto already measures latency for the tab
+        measureLatency: false,
+        version: vetoStateQuery.data?.version,
         onUpdate: handleVetoUpdate,
+        onResync: handleResync,
     });
 
     // Mutations
+    const { getKey: getActionKey, clearKey: clearActionKey } = useIdempotencyKey();
+
     const makeVetoActionMutation = api.room.makeVetoAction.useMutation({
         onSuccess: (result) => {
+            clearActionKey();
             void vetoStateQuery.refetch();
             setShowSideSelection(false);
             setPendingMapId(null);
 
-            // Broadcast the veto action to other clients
-            void broadcastVetoUpdate('veto-action', {
-                vetoState: result.vetoState,
-                currentTurn: result.currentTurn,
-                vetoCompleted: result.vetoCompleted,
-            });
-
             if (result.vetoCompleted && onVetoComplete) {
                 onVetoComplete();
             }
@@ -74,188 +113,117 @@ export const useVetoLogic = ({
             console.error('Veto action failed:', error);
             setShowSideSelection(false);
             setPendingMapId(null);
+
+            // Someone else (or the turn timer) acted first; show the state that won
+            const freshState = error.data?.vetoConflict;
+            if (error.data?.code === 'CONFLICT' && freshState) {
+                utils.room.getVetoState.setData({ roomId: masterRoomId }, freshState);
+                toast.info('The veto moved on before your action went through. Please check the current step.');
+            }
         },
     });
 
-    const selectSideForMapMutation = api.room.selectSideForMap.useMutation({
-        onSuccess: (result) => {
-            void vetoStateQuery.refetch();
-            setShowSideSelection(false);
-            setPendingMapId(null);
-
-            // Broadcast the side selection to other clients
-            void broadcastVetoUpdate('side-selected', {
-                vetoState: result.vetoState,
-                currentTurn: result.currentTurn,
-                vetoCompleted: result.vetoCompleted,
-            });
-
-            if (result.vetoCompleted && onVetoComplete) {
-                onVetoComplete();
+    // The server applies a timed-out turn's fallback when a client reports the countdown ran out
+    const { mutate: expireTurn } = api.room.expireTurn.useMutation({
+        onSuccess: (freshState) => {
+            const current = utils.room.getVetoState.getData({ roomId: masterRoomId });
+            if (!current || freshState.version > current.version) {
+                utils.room.getVetoState.setData({ roomId: masterRoomId }, freshState);
             }
         },
-        onError: (error) => {
-            console.error('Side selection failed:', error);
-            setShowSideSelection(false);
-            setPendingMapId(null);
-        },
     });
 
-    // Computed values
+    // Computed values - derived with the same engine the server uses
     const vetoData = vetoStateQuery.data;
     const vetoState = vetoData?.vetoState as VetoState | null;
-    const currentSequenceItem = vetoState?.vetoSequence[vetoState.currentStep];
-    const isMyTurn = !isSpectator && teamRole === vetoData?.currentTurn;
+    const currentSequenceItem = vetoState ? getCurrentStep(vetoState) : undefined;
+    const currentTurn = vetoState ? getCurrentTurn(vetoState) : null;
+    const isMyTurn = !isSpectator && !!teamRole && teamRole === currentTurn;
     const vetoStarted = vetoData?.vetoStarted ?? false;
     const vetoCompleted = vetoData?.vetoCompleted ?? false;
+    const mapAwaitingSide = vetoState ? getMapAwaitingSide(vetoState) : undefined;
+    const turnDeadline = vetoData?.turnDeadline ?? null;
+    // Difference between server and local clock, so countdowns follow the server's deadline
+    const serverTimeOffset = vetoData ? new Date(vetoData.serverTime).getTime() - vetoStateQuery.dataUpdatedAt : 0;
+
+    useEffect(() => {
+        if (!turnDeadline || vetoCompleted) return;
+
+        // A little after the deadline, so the server's clock has passed it too
+        const delay = new Date(turnDeadline).getTime() - (Date.now() + serverTimeOffset) + 500;
+        const timer = setTimeout(() => expireTurn({ masterRoomId }), Math.max(0, delay));
+
+        return () => clearTimeout(timer);
+    }, [turnDeadline, vetoCompleted, serverTimeOffset, masterRoomId, expireTurn]);
 
     // Helper functions
     const shouldShowOppositeSideSelection = (): boolean => {
-        if (!vetoState || vetoState.pickedMaps.length === 0) return false;
+        return isMyTurn &&
+            currentSequenceItem?.action === 'side' &&
+            !!mapAwaitingSide &&
+            mapAwaitingSide.pickedBy !== teamRole;
+    };
 
-        const mapWithoutSide = vetoState.pickedMaps.find(
-            pick => !pick.side && pick.pickedBy !== teamRole
-        );
+    const getMapForSideSelection = (): string | null => {
+        if (currentSequenceItem?.action !== 'side') return null;
 
-        return !!mapWithoutSide &&
-            !vetoCompleted &&
-            vetoData?.currentTurn === teamRole;
+        return mapAwaitingSide?.mapId ?? null;
     };
 
-    const getMapForSideSelection = (): string | null => {
-        if (!vetoState || vetoState.pickedMaps.length === 0) return null;
+    // Predict the outcome locally so invalid actions never reach the server
+    const submitAction = async (action: ActionType, mapId?: string, side?: SideType): Promise<void> => {
+        if (!teamRole || !vetoState) return;
+
+        const prediction = applyAction(vetoState, {
+            type: action,
+            team: teamRole,
+            mapId,
+            side,
+            timestamp: new Date().toISOString(),
+        });
 
-        const mapWithoutSide = vetoState.pickedMaps.find(
-            pick => !pick.side && pick.pickedBy !== teamRole
-        );
+        if (!prediction.ok) {
+            console.warn('Veto action rejected locally:', prediction.error.message);
+            return;
+        }
 
-        return mapWithoutSide?.mapId ?? null;
+        try {
+            await makeVetoActionMutation.mutateAsync({
+                teamId: teamRoomId, // Use teamRoomId for API calls
+                action,
+                mapId,
+                side,
+                clientId,
+                expectedVersion: vetoData?.version,
+                // Retrying the same action on the same state reuses the key
+                idempotencyKey: getActionKey(`${vetoData?.version}:${action}:${mapId}:${side}`),
+            });
+        } catch (error) {
+            console.error('Failed to make veto action:', error);
+        }
     };
 
     // Action handlers
     const handleMapAction = async (mapId: string, action: ActionType): Promise<void> => {
         if (!teamRole || !isMyTurn) return;
 
-        // Handle side action type
         if (action === 'side') {
-            // For side actions, we need to trigger side selection for the most recently picked map
-            const mostRecentPickedMap = vetoState?.pickedMaps[vetoState.pickedMaps.length - 1];
-            if (mostRecentPickedMap) {
-                setPendingMapId(mostRecentPickedMap.mapId);
+            // Side steps always apply to the earliest picked map without a side
+            if (mapAwaitingSide) {
+                setPendingMapId(mapAwaitingSide.mapId);
                 setShowSideSelection(true);
             }
             return;
         }
 
-        const mapData = MAP_DATA[mapId];
-
-        if (action === 'pick' && mapData?.isDemolition) {
-            const isFinalPick = vetoState &&
-                (vetoState.currentStep + 1) >= vetoState.vetoSequence.length;
-
-            if (isFinalPick) {
-                const isBo5 = roundType === 'bo5';
-
-                if (isBo5) {
-                    // Bo5 final map: opposing team chooses side
-                    try {
-                        await makeVetoActionMutation.mutateAsync({
-                            teamId: teamRoomId, // Use teamRoomId for API calls
-                            action,
-                            mapId,
-                        });
-                    } catch (error) {
-                        console.error('Failed to make veto action:', error);
-                    }
-                } else {
-                    // Bo1/Bo3 final map: picking team selects side
-                    setPendingMapId(mapId);
-                    setShowSideSelection(true);
-                }
-            } else {
-                // Non-final demolition maps: opposing team chooses side
-                try {
-                    await makeVetoActionMutation.mutateAsync({
-                        teamId: teamRoomId, // Use teamRoomId for API calls
-                        action,
-                        mapId,
-                    });
-                } catch (error) {
-                    console.error('Failed to make veto action:', error);
-                }
-            }
-        } else if (action === 'pick') {
-            // Check if the next action in sequence is a side action by the same or different team
-            const nextSequenceItem = vetoState?.vetoSequence[vetoState.currentStep + 1];
-            const shouldTriggerSideSelection = !nextSequenceItem || nextSequenceItem.action !== 'side';
-
-            if (shouldTriggerSideSelection && !mapData?.isDemolition) {
-                // Non-demolition maps: require side selection
-                setPendingMapId(mapId);
-                setShowSideSelection(true);
-            } else {
-                // Direct pick action (either demolition map or side will be handled separately)
-                try {
-                    await makeVetoActionMutation.mutateAsync({
-                        teamId: teamRoomId, // Use teamRoomId for API calls
-                        action,
-                        mapId,
-                    });
-                } catch (error) {
-                    console.error('Failed to make veto action:', error);
-                }
-            }
-        } else {
-            // Direct ban action
-            try {
-                await makeVetoActionMutation.mutateAsync({
-                    teamId: teamRoomId, // Use teamRoomId for API calls
-                    action,
-                    mapId,
-                });
-            } catch (error) {
-                console.error('Failed to make veto action:', error);
-            }
-        }
+        await submitAction(action, mapId);
     };
 
     const handleSideSelection = async (side: SideType): Promise<void> => {
-        if (!teamRole) return;
+        const mapForSideSelection = getMapForSideSelection();
+        if (!mapForSideSelection) return;
 
-        try {
-            const mapForSideSelection = getMapForSideSelection();
-
-            if (mapForSideSelection && shouldShowOppositeSideSelection()) {
-                await selectSideForMapMutation.mutateAsync({
-                    teamId: teamRoomId, // Use teamRoomId for API calls
-                    mapId: mapForSideSelection,
-                    side,
-                });
-            } else if (pendingMapId) {
-                // Check if current action is a 'side' action in the sequence
-                const currentAction = currentSequenceItem?.action;
-
-                if (currentAction === 'side') {
-                    // This is a dedicated side action step
-                    await makeVetoActionMutation.mutateAsync({
-                        teamId: teamRoomId, // Use teamRoomId for API calls
-                        action: 'side',
-                        mapId: pendingMapId,
-                        side,
-                    });
-                } else {
-                    // This is a side selection after a pick
-                    await makeVetoActionMutation.mutateAsync({
-                        teamId: teamRoomId, // Use teamRoomId for API calls
-                        action: 'pick',
-                        mapId: pendingMapId,
-                        side,
-                    });
-                }
-            }
-        } catch (error) {
-            console.error('Failed to make veto action:', error);
-        }
+        await submitAction('side', mapForSideSelection, side);
     };
 
     const handleCancelSideSelection = (): void => {
@@ -274,6 +242,8 @@ export const useVetoLogic = ({
         isMyTurn,
         vetoStarted,
         vetoCompleted,
+        turnDeadline,
+        serverTimeOffset,
         isLoading: vetoStateQuery.isLoading,
 
         // Helper functions
@@ -286,7 +256,7 @@ export const useVetoLogic = ({
         handleCancelSideSelection,
 
         // Mutation states
-        isActionPending: makeVetoActionMutation.isPending || selectSideForMapMutation.isPending,
+        isActionPending: makeVetoActionMutation.isPending,
 
         // Realtime connection info
         realtimeLatency,
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+/**
+ * Request and response schemas for `/api/admin/rooms`.
+ *
+ * Shared by the route handler and by anything calling it (cron host, admin UI),
+ * so both sides agree on the payloads.
+ */
+
+export const adminActionSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('cleanup') }),
+    z.object({ action: z.literal('stats') }),
+    z.object({ action: z.literal('active-rooms') }),
+    z.object({ action: z.literal('force-expire'), roomId: z.string().min(1) }),
+    z.object({ action: z.literal('history'), roomId: z.string().min(1) }),
+    z.object({ action: z.literal('presence'), roomId: z.string().min(1) }),
+]);
+
+export type AdminAction = z.infer<typeof adminActionSchema>;
+
+export const roomStatisticsSchema = z.object({
+    activeRooms: z.number(),
+    roomsCreatedLast24h: z.number(),
+    roomsCreatedLastWeek: z.number(),
+    totalRoomsAllTime: z.number(),
+    timestamp: z.string(),
+});
+
+export const cleanupResultSchema = z.object({
+    cleanup: z.object({
+        expiredRoomsDeleted: z.number(),
+        oldRoomsDeleted: z.number(),
+        rateLimitsDeleted: z.number(),
+        timestamp: z.string(),
+    }),
+    statistics: roomStatisticsSchema,
+});
+
+export const activeRoomSchema = z.object({
+    masterRoomId: z.string(),
+    status: z.string(),
+    roundType: z.string(),
+    teamAName: z.string().nullable(),
+    teamBName: z.string().nullable(),
+    vetoStarted: z.boolean(),
+    vetoCompleted: z.boolean(),
+    currentStep: z.number().nullable(),
+    createdAt: z.string(),
+    expiresAt: z.string(),
+});
+
+export const forceExpireResultSchema = z.object({
+    masterRoomId: z.string(),
+    expiresAt: z.string(),
+});
+
+export const vetoHistoryEntrySchema = z.object({
+    stepIndex: z.number(),
+    team: z.string(),
+    action: z.string(),
+    mapId: z.string().nullable(),
+    side: z.string().nullable(),
+    actorClientId: z.string().nullable(),
+    actorUserId: z.string().nullable(),
+    createdAt: z.string(),
+    undoneAt: z.string().nullable(),
+});
+
+export const vetoHistoryResultSchema = z.object({
+    masterRoomId: z.string(),
+    events: z.array(vetoHistoryEntrySchema),
+});
+
+const teamPresenceSchema = z.object({
+    online: z.boolean(),
+    connections: z.number(),
+    lastSeenAt: z.string().nullable(),
+    droppedAt: z.string().nullable(),
+});
+
+export const roomPresenceSchema = z.object({
+    masterRoomId: z.string(),
+    teamA: teamPresenceSchema,
+    teamB: teamPresenceSchema,
+    spectators: z.number(),
+    checkedAt: z.string(),
+});
+
+export type RoomStatistics = z.infer<typeof roomStatisticsSchema>;
+export type CleanupResult = z.infer<typeof cleanupResultSchema>;
+export type ActiveRoom = z.infer<typeof activeRoomSchema>;
+export type ForceExpireResult = z.infer<typeof forceExpireResultSchema>;
+export type VetoHistoryResult = z.infer<typeof vetoHistoryResultSchema>;
+export type RoomPresenceResult = z.infer<typeof roomPresenceSchema>;
+
+// Every response is wrapped in the same envelope
+export const adminResponseSchema = <T extends z.ZodTypeAny>(data: T) => z.discriminatedUnion('success', [
+    z.object({ success: z.literal(true), data }),
+    z.object({ success: z.literal(false), error: z.string() }),
+]);
+
+export type AdminResponse<T> =
+    | { success: true; data: T }
+    | { success: false; error: string };
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { auth } from '~/server/auth';
+
+const TOKEN_PREFIX = 'avt_';
+
+export type AdminPrincipal =
+    | { type: 'session'; userId: string }
+    | { type: 'token'; tokenId: string }
+    | { type: 'cron' }; // Vercel Cron, which can only run the scheduled cleanup
+
+export type AdminAuthResult =
+    | { ok: true; principal: AdminPrincipal }
+    | { ok: false; status: 401 | 403; error: string };
+
+// Hash admin API tokens before they are stored or looked up
+export const hashAdminToken = (token: string): string => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Generate a new plain admin API token (only its hash is persisted)
+export const generateAdminToken = (): string => {
+    return TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+};
+
+const getBearerToken = (headers: Headers): string | null => {
+    const authorization = headers.get('authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+        return null;
+    }
+
+    return authorization.slice('Bearer '.length).trim() || null;
+};
+
+// Compare in constant time, so the secret can't be guessed one character at a time
+const isCronSecret = (token: string): boolean => {
+    if (!env.CRON_SECRET) {
+        return false;
+    }
+
+    const expected = Buffer.from(env.CRON_SECRET);
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Authenticate an admin API request.
+ *
+ * Accepts either `Authorization: Bearer <token>` with a non-revoked admin API token,
+ * or the session of a signed-in organizer. `Authorization: Bearer <CRON_SECRET>`, which
+ * Vercel Cron sends, authenticates as the cron principal.
+ */
+export const authenticateAdminRequest = async (headers: Headers): Promise<AdminAuthResult> => {
+    const token = getBearerToken(headers);
+
+    if (token && isCronSecret(token)) {
+        return { ok: true, principal: { type: 'cron' } };
+    }
+
+    if (token) {
+        const apiToken = await db.adminApiToken.findUnique({
+            where: { tokenHash: hashAdminToken(token) },
+            select: { id: true, revokedAt: true },
+        });
+
+        if (!apiToken || apiToken.revokedAt) {
+            return { ok: false, status: 401, error: 'Invalid admin API token' };
+        }
+
+        await db.adminApiToken.update({
+            where: { id: apiToken.id },
+            data: { lastUsedAt: new Date() },
+        });
+
+        return { ok: true, principal: { type: 'token', tokenId: apiToken.id } };
+    }
+
+    const session = await auth();
+    if (!session?.user) {
+        return { ok: false, status: 401, error: 'Authentication required' };
+    }
+
+    const user = await db.user.findUnique({
+        where: { id: session.user.id },
+        select: { organizer: true },
+    });
+
+    if (!user?.organizer) {
+        return { ok: false, status: 403, error: 'Only organizers can use the admin API' };
+    }
+
+    return { ok: true, principal: { type: 'session', userId: session.user.id } };
+};
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+    generateBracket,
+    getChampion,
+    getPlayableMatches,
+    getSeedOrder,
+    reportWinner,
+    type Bracket,
+    type BracketOptions,
+} from '~/lib/bracket-engine';
+
+const teams = (count: number) => Array.from({ length: count }, (_, i) => `t${i + 1}`);
+
+const build = (count: number, options: BracketOptions): Bracket => {
+    const result = generateBracket(teams(count), options);
+    if (!result.ok) throw new Error(result.error.message);
+    return result.bracket;
+};
+
+const match = (bracket: Bracket, key: string) => {
+    const found = bracket.matches.find(candidate => candidate.key === key);
+    if (!found) throw new Error(`No match ${key}`);
+    return found;
+};
+
+// Report a series of results, failing the test on the first one the engine rejects
+const play = (bracket: Bracket, results: Array<[string, string]>): Bracket => {
+    return results.reduce((current, [key, winner]) => {
+        const result = reportWinner(current, key, winner);
+        if (!result.ok) throw new Error(`${key}: ${result.error.message}`);
+        return result.bracket;
+    }, bracket);
+};
+
+describe('getSeedOrder', () => {
+    it('keeps the top seeds apart for as long as possible', () => {
+        expect(getSeedOrder(2)).toEqual([1, 2]);
+        expect(getSeedOrder(4)).toEqual([1, 4, 2, 3]);
+        expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+});
+
+describe('generateBracket', () => {
+    it('rejects fields it cannot seed', () => {
+        expect(generateBracket(['t1'], { format: 'single-elimination' })).toMatchObject({
+            ok: false,
+            error: { code: 'NOT_ENOUGH_TEAMS' },
+        });
+        expect(generateBracket(['t1', 't2', 't1'], { format: 'single-elimination' })).toMatchObject({
+            ok: false,
+            error: { code: 'DUPLICATE_TEAM' },
+        });
+        expect(generateBracket(teams(4), {
+            format: 'single-elimination',
+            roundTypes: { default: 'bo2' as 'bo1' },
+        })).toMatchObject({ ok: false, error: { code: 'INVALID_ROUND_TYPE' } });
+    });
+
+    it('gives the top seeds byes when the field is not a power of two', () => {
+        const bracket = build(6, { format: 'single-elimination' });
+
+        expect(match(bracket, 'W1-1')).toMatchObject({ teamA: 't1', teamB: null, winner: 't1', status: 'bye' });
+        expect(match(bracket, 'W1-3')).toMatchObject({ teamA: 't2', teamB: null, winner: 't2', status: 'bye' });
+        expect(match(bracket, 'W2-1')).toMatchObject({ teamA: 't1', teamB: null, status: 'open' });
+        expect(match(bracket, 'W2-2')).toMatchObject({ teamA: 't2', teamB: null, status: 'open' });
+
+        expect(getPlayableMatches(bracket).map(playable => [playable.key, playable.teamA, playable.teamB])).toEqual([
+            ['W1-2', 't4', 't5'],
+            ['W1-4', 't3', 't6'],
+        ]);
+    });
+
+    it('picks round types by how deep into the bracket a match is', () => {
+        const bracket = build(8, { format: 'double-elimination' });
+
+        expect(match(bracket, 'W1-1').roundType).toBe('bo1');
+        expect(match(bracket, 'W2-1').roundType).toBe('bo3');
+        expect(match(bracket, 'W3-1').roundType).toBe('bo3');
+        expect(match(bracket, 'L1-1').roundType).toBe('bo1');
+        expect(match(bracket, 'L4-1').roundType).toBe('bo3');
+        expect(match(bracket, 'GF1').roundType).toBe('bo5');
+        expect(match(bracket, 'GF2').roundType).toBe('bo5');
+    });
+});
+
+describe('reportWinner', () => {
+    it('advances winners through a single-elimination bracket', () => {
+        const start = build(4, { format: 'single-elimination' });
+        expect(start.matches.map(bracketMatch => bracketMatch.key)).toEqual(['W1-1', 'W1-2', 'W2-1']);
+
+        const semifinalsPlayed = play(start, [['W1-1', 't1'], ['W1-2', 't3']]);
+        expect(match(semifinalsPlayed, 'W2-1')).toMatchObject({ teamA: 't1', teamB: 't3', status: 'open' });
+        expect(getChampion(semifinalsPlayed)).toBeNull();
+
+        const finished = play(semifinalsPlayed, [['W2-1', 't3']]);
+        expect(getChampion(finished)).toBe('t3');
+        expect(getPlayableMatches(finished)).toEqual([]);
+    });
+
+    it('leaves the bracket it was given untouched', () => {
+        const start = build(4, { format: 'single-elimination' });
+        const snapshot = structuredClone(start);
+
+        play(start, [['W1-1', 't1']]);
+
+        expect(start).toEqual(snapshot);
+    });
+
+    it('rejects results that do not fit the match', () => {
+        const start = build(4, { format: 'single-elimination' });
+
+        expect(reportWinner(start, 'W9-9', 't1')).toMatchObject({ ok: false, error: { code: 'MATCH_NOT_FOUND' } });
+        expect(reportWinner(start, 'W2-1', 't1')).toMatchObject({ ok: false, error: { code: 'MATCH_NOT_READY' } });
+        expect(reportWinner(start, 'W1-1', 't2')).toMatchObject({ ok: false, error: { code: 'NOT_IN_MATCH' } });
+
+        const played = play(start, [['W1-1', 't1']]);
+        expect(reportWinner(played, 'W1-1', 't4')).toMatchObject({ ok: false, error: { code: 'MATCH_DECIDED' } });
+    });
+
+    it('routes losers into the double-elimination losers bracket', () => {
+        const start = build(4, { format: 'double-elimination' });
+
+        const firstRound = play(start, [['W1-1', 't1'], ['W1-2', 't2']]);
+        expect(match(firstRound, 'L1-1')).toMatchObject({ teamA: 't4', teamB: 't3' });
+
+        const winnersFinal = play(firstRound, [['W2-1', 't1']]);
+        expect(match(winnersFinal, 'L2-1')).toMatchObject({ teamA: null, teamB: 't2' });
+        expect(match(winnersFinal, 'GF1')).toMatchObject({ teamA: 't1', teamB: null });
+
+        const losersFinal = play(winnersFinal, [['L1-1', 't3'], ['L2-1', 't2']]);
+        expect(match(losersFinal, 'GF1')).toMatchObject({ teamA: 't1', teamB: 't2', status: 'open' });
+    });
+
+    it('passes a winners-bracket bye on to the losers bracket', () => {
+        const start = build(3, { format: 'double-elimination' });
+
+        // t1's first-round bye drops nobody into L1-1, so whoever loses W1-2 gets through it unplayed
+        const played = play(start, [['W1-2', 't2']]);
+
+        expect(match(played, 'L1-1')).toMatchObject({ teamA: null, teamB: 't3', winner: 't3', status: 'bye' });
+        expect(match(played, 'L2-1')).toMatchObject({ teamA: 't3' });
+    });
+
+    describe('grand final', () => {
+        const toGrandFinal = (options: BracketOptions) => play(build(4, options), [
+            ['W1-1', 't1'],
+            ['W1-2', 't2'],
+            ['W2-1', 't1'],
+            ['L1-1', 't3'],
+            ['L2-1', 't2'],
+        ]);
+
+        it('ends when the winners-bracket team wins it', () => {
+            const finished = play(toGrandFinal({ format: 'double-elimination' }), [['GF1', 't1']]);
+
+            expect(match(finished, 'GF2')).toMatchObject({ teamA: 't1', teamB: null, winner: 't1', status: 'bye' });
+            expect(getChampion(finished)).toBe('t1');
+        });
+
+        it('is played again when the losers-bracket team wins it', () => {
+            const reset = play(toGrandFinal({ format: 'double-elimination' }), [['GF1', 't2']]);
+
+            expect(match(reset, 'GF2')).toMatchObject({ teamA: 't2', teamB: 't1', status: 'open' });
+            expect(getChampion(reset)).toBeNull();
+
+            expect(getChampion(play(reset, [['GF2', 't1']]))).toBe('t1');
+        });
+
+        it('is final without a reset when the reset is turned off', () => {
+            const bracket = toGrandFinal({ format: 'double-elimination', grandFinalReset: false });
+            expect(bracket.matches.some(bracketMatch => bracketMatch.key === 'GF2')).toBe(false);
+
+            expect(getChampion(play(bracket, [['GF1', 't2']]))).toBe('t2');
+        });
+    });
+});
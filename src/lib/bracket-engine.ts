@@ -0,0 +1,383 @@
+import { ROUND_OPTIONS } from '~/constants/maps';
+
+/**
+ * Pure single- and double-elimination brackets.
+ *
+ * A bracket is a flat list of matches wired together by `winnerTo` and `loserTo`. Teams are
+ * placed by seed (1 plays the lowest seed, and the top seeds meet as late as possible); when
+ * the team count isn't a power of two, the top seeds get byes. A match whose opponent can
+ * never arrive is decided as a bye and its team moves on by itself, so the only thing callers
+ * ever do is `reportWinner`.
+ *
+ * Each match's round type comes from how deep into the bracket it is, via `RoundTypeRules`.
+ */
+
+export type BracketFormat = 'single-elimination' | 'double-elimination';
+
+export type BracketSection = 'winners' | 'losers' | 'grand-final';
+
+export type BracketSlot = 'a' | 'b';
+
+export type BracketMatchStatus = 'open' | 'completed' | 'bye';
+
+// One of the ROUND_OPTIONS values
+export type BracketRoundType = 'bo1' | 'bo3' | 'bo5';
+
+export interface BracketLink {
+    key: string;
+    slot: BracketSlot;
+}
+
+export interface BracketMatch {
+    key: string; // W1-1, L2-3, GF1; stable, so callers can store matches by it
+    section: BracketSection;
+    round: number; // 1-based within its section
+    position: number; // 1-based within its round
+    roundType: BracketRoundType;
+    teamA: string | null;
+    teamB: string | null;
+    winner: string | null;
+    status: BracketMatchStatus;
+    winnerTo: BracketLink | null;
+    loserTo: BracketLink | null;
+}
+
+export interface Bracket {
+    format: BracketFormat;
+    matches: BracketMatch[];
+}
+
+// Finals are the last round of a section (the losers final in double elimination), semifinals the one before
+export interface RoundTypeRules {
+    default: BracketRoundType;
+    semifinals?: BracketRoundType;
+    finals?: BracketRoundType;
+    grandFinal?: BracketRoundType;
+}
+
+export interface BracketOptions {
+    format: BracketFormat;
+    roundTypes?: RoundTypeRules;
+    // Double elimination only: if the losers-bracket team wins the grand final, play it again
+    grandFinalReset?: boolean;
+}
+
+export type BracketEngineErrorCode =
+    | 'NOT_ENOUGH_TEAMS'
+    | 'DUPLICATE_TEAM'
+    | 'INVALID_ROUND_TYPE'
+    | 'MATCH_NOT_FOUND'
+    | 'MATCH_NOT_READY'
+    | 'MATCH_DECIDED'
+    | 'NOT_IN_MATCH';
+
+export interface BracketEngineError {
+    code: BracketEngineErrorCode;
+    message: string;
+}
+
+export type BracketEngineResult =
+    | { ok: true; bracket: Bracket }
+    | { ok: false; error: BracketEngineError };
+
+export const DEFAULT_ROUND_TYPE_RULES: RoundTypeRules = {
+    default: 'bo1',
+    semifinals: 'bo3',
+    finals: 'bo3',
+    grandFinal: 'bo5',
+};
+
+const fail = (code: BracketEngineErrorCode, message: string): BracketEngineResult => ({
+    ok: false,
+    error: { code, message },
+});
+
+const isRoundType = (value: string): value is BracketRoundType => {
+    return ROUND_OPTIONS.some(option => option.value === value);
+};
+
+const matchKey = (section: BracketSection, round: number, position: number) => {
+    if (section === 'grand-final') return `GF${round}`;
+    return `${section === 'winners' ? 'W' : 'L'}${round}-${position}`;
+};
+
+/**
+ * Seed order for a bracket of `size` slots: 1 v size, then the pairs that keep top seeds apart longest
+ */
+export const getSeedOrder = (size: number): number[] => {
+    let order = [1];
+
+    while (order.length < size) {
+        const nextSize = order.length * 2;
+        order = order.flatMap(seed => [seed, nextSize + 1 - seed]);
+    }
+
+    return order;
+};
+
+const getRoundType = (rules: RoundTypeRules, roundsFromEnd: number): BracketRoundType => {
+    if (roundsFromEnd === 0) return rules.finals ?? rules.default;
+    if (roundsFromEnd === 1) return rules.semifinals ?? rules.default;
+    return rules.default;
+};
+
+const createMatch = (
+    section: BracketSection,
+    round: number,
+    position: number,
+    roundType: BracketRoundType
+): BracketMatch => ({
+    key: matchKey(section, round, position),
+    section,
+    round,
+    position,
+    roundType,
+    teamA: null,
+    teamB: null,
+    winner: null,
+    status: 'open',
+    winnerTo: null,
+    loserTo: null,
+});
+
+const setSlot = (match: BracketMatch, slot: BracketSlot, teamId: string | null) => {
+    if (slot === 'a') {
+        match.teamA = teamId;
+    } else {
+        match.teamB = teamId;
+    }
+};
+
+const cloneBracket = (bracket: Bracket): Bracket => ({
+    format: bracket.format,
+    matches: bracket.matches.map(match => ({ ...match })),
+});
+
+// Match keys that feed each slot, so we know whether a slot can still be filled
+const getFeeders = (matches: BracketMatch[]) => {
+    const feeders = new Map<string, string>();
+
+    for (const match of matches) {
+        if (match.winnerTo) feeders.set(`${match.winnerTo.key}:${match.winnerTo.slot}`, match.key);
+        if (match.loserTo) feeders.set(`${match.loserTo.key}:${match.loserTo.slot}`, match.key);
+    }
+
+    return feeders;
+};
+
+const isDecided = (match: BracketMatch) => match.status !== 'open';
+
+// Move the winner (and loser) of a decided match on to where they play next
+const propagate = (byKey: Map<string, BracketMatch>, match: BracketMatch) => {
+    const loser = match.winner === match.teamA ? match.teamB : match.teamA;
+
+    if (match.section === 'grand-final' && match.round === 1 && match.winnerTo) {
+        const reset = byKey.get(match.winnerTo.key);
+
+        // The winners-bracket team hasn't lost yet, so beating the losers-bracket team ends it
+        if (reset && match.winner === match.teamA) {
+            reset.teamA = match.winner;
+            reset.teamB = null;
+            reset.winner = match.winner;
+            reset.status = 'bye';
+            return;
+        }
+    }
+
+    if (match.winnerTo) {
+        const next = byKey.get(match.winnerTo.key);
+        if (next) setSlot(next, match.winnerTo.slot, match.winner);
+    }
+
+    if (match.loserTo) {
+        const next = byKey.get(match.loserTo.key);
+        if (next) setSlot(next, match.loserTo.slot, match.status === 'bye' ? null : loser);
+    }
+};
+
+// Decide every match that lost an opponent for good, until nothing changes
+const resolveByes = (bracket: Bracket) => {
+    const byKey = new Map(bracket.matches.map(match => [match.key, match]));
+    const feeders = getFeeders(bracket.matches);
+
+    const isSlotFinal = (match: BracketMatch, slot: BracketSlot) => {
+        const feeder = feeders.get(`${match.key}:${slot}`);
+        return !feeder || isDecided(byKey.get(feeder)!);
+    };
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+
+        for (const match of bracket.matches) {
+            if (isDecided(match) || !isSlotFinal(match, 'a') || !isSlotFinal(match, 'b')) {
+                continue;
+            }
+
+            if (match.teamA && match.teamB) {
+                continue;
+            }
+
+            match.winner = match.teamA ?? match.teamB;
+            match.status = 'bye';
+            propagate(byKey, match);
+            changed = true;
+        }
+    }
+};
+
+/**
+ * Build a bracket from team IDs ordered by seed, best first
+ */
+export const generateBracket = (seededTeams: string[], options: BracketOptions): BracketEngineResult => {
+    if (seededTeams.length < 2) {
+        return fail('NOT_ENOUGH_TEAMS', 'A bracket needs at least two teams');
+    }
+
+    if (new Set(seededTeams).size !== seededTeams.length) {
+        return fail('DUPLICATE_TEAM', 'Each team can only be seeded once');
+    }
+
+    const rules = options.roundTypes ?? DEFAULT_ROUND_TYPE_RULES;
+    const ruleValues = [rules.default, rules.semifinals, rules.finals, rules.grandFinal];
+    if (ruleValues.some(value => value !== undefined && !isRoundType(value))) {
+        return fail('INVALID_ROUND_TYPE', `Round types must be one of ${ROUND_OPTIONS.map(option => option.value).join(', ')}`);
+    }
+
+    const winnerRounds = Math.ceil(Math.log2(seededTeams.length));
+    const size = 2 ** winnerRounds;
+    const matches: BracketMatch[] = [];
+
+    // Winners bracket; in single elimination it is the whole bracket
+    const winners: BracketMatch[][] = [];
+    for (let round = 1; round <= winnerRounds; round++) {
+        const roundType = getRoundType(rules, winnerRounds - round);
+        winners.push(Array.from({ length: size / 2 ** round }, (_, i) => createMatch('winners', round, i + 1, roundType)));
+    }
+
+    const seedOrder = getSeedOrder(size);
+    winners[0]!.forEach((match, i) => {
+        match.teamA = seededTeams[seedOrder[i * 2]! - 1] ?? null;
+        match.teamB = seededTeams[seedOrder[i * 2 + 1]! - 1] ?? null;
+    });
+
+    for (let round = 0; round < winnerRounds - 1; round++) {
+        winners[round]!.forEach((match, i) => {
+            match.winnerTo = { key: winners[round + 1]![Math.floor(i / 2)]!.key, slot: i % 2 === 0 ? 'a' : 'b' };
+        });
+    }
+
+    matches.push(...winners.flat());
+
+    if (options.format === 'double-elimination') {
+        const grandFinal = createMatch('grand-final', 1, 1, rules.grandFinal ?? rules.finals ?? rules.default);
+        const winnersFinal = winners[winnerRounds - 1]![0]!;
+        winnersFinal.winnerTo = { key: grandFinal.key, slot: 'a' };
+
+        // Losers bracket: odd rounds pair up survivors, even rounds take the next winners round's losers
+        const loserRounds = 2 * (winnerRounds - 1);
+        const losers: BracketMatch[][] = [];
+
+        for (let round = 1; round <= loserRounds; round++) {
+            const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+            const roundType = getRoundType(rules, loserRounds - round);
+            losers.push(Array.from({ length: count }, (_, i) => createMatch('losers', round, i + 1, roundType)));
+        }
+
+        if (loserRounds === 0) {
+            // Two teams: the loser of the only match goes straight to the grand final
+            winnersFinal.loserTo = { key: grandFinal.key, slot: 'b' };
+        } else {
+            winners[0]!.forEach((match, i) => {
+                match.loserTo = { key: losers[0]![Math.floor(i / 2)]!.key, slot: i % 2 === 0 ? 'a' : 'b' };
+            });
+
+            for (let round = 1; round <= loserRounds; round++) {
+                const current = losers[round - 1]!;
+
+                if (round % 2 === 0) {
+                    // Drop-in round: losers from winners round round/2 + 1, reversed every other time to delay rematches
+                    const dropping = winners[round / 2]!;
+                    const reversed = (round / 2) % 2 === 1;
+                    dropping.forEach((match, i) => {
+                        const target = current[reversed ? current.length - 1 - i : i]!;
+                        match.loserTo = { key: target.key, slot: 'b' };
+                    });
+                }
+
+                if (round === loserRounds) {
+                    current[0]!.winnerTo = { key: grandFinal.key, slot: 'b' };
+                    continue;
+                }
+
+                const next = losers[round]!;
+                current.forEach((match, i) => {
+                    // Into a drop-in round every survivor keeps its lane; into a pairing round two lanes merge
+                    match.winnerTo = (round + 1) % 2 === 0
+                        ? { key: next[i]!.key, slot: 'a' }
+                        : { key: next[Math.floor(i / 2)]!.key, slot: i % 2 === 0 ? 'a' : 'b' };
+                });
+            }
+        }
+
+        matches.push(...losers.flat(), grandFinal);
+
+        if (options.grandFinalReset ?? true) {
+            const reset = createMatch('grand-final', 2, 1, grandFinal.roundType);
+            grandFinal.winnerTo = { key: reset.key, slot: 'a' };
+            grandFinal.loserTo = { key: reset.key, slot: 'b' };
+            matches.push(reset);
+        }
+    }
+
+    const bracket: Bracket = { format: options.format, matches };
+    resolveByes(bracket);
+
+    return { ok: true, bracket };
+};
+
+/**
+ * Record the winner of an open match and move both teams on
+ */
+export const reportWinner = (bracket: Bracket, key: string, winner: string): BracketEngineResult => {
+    const next = cloneBracket(bracket);
+    const match = next.matches.find(candidate => candidate.key === key);
+
+    if (!match) {
+        return fail('MATCH_NOT_FOUND', `No bracket match ${key}`);
+    }
+
+    if (isDecided(match)) {
+        return fail('MATCH_DECIDED', 'This match already has a winner');
+    }
+
+    if (!match.teamA || !match.teamB) {
+        return fail('MATCH_NOT_READY', 'Both teams must be known before a winner is reported');
+    }
+
+    if (winner !== match.teamA && winner !== match.teamB) {
+        return fail('NOT_IN_MATCH', 'The winner must be one of the two teams in the match');
+    }
+
+    match.winner = winner;
+    match.status = 'completed';
+    propagate(new Map(next.matches.map(candidate => [candidate.key, candidate])), match);
+    resolveByes(next);
+
+    return { ok: true, bracket: next };
+};
+
+/**
+ * Matches that can be played now: open, with both teams known
+ */
+export const getPlayableMatches = (bracket: Bracket): BracketMatch[] => {
+    return bracket.matches.filter(match => match.status === 'open' && !!match.teamA && !!match.teamB);
+};
+
+/**
+ * The bracket's winner, once its last match is decided
+ */
+export const getChampion = (bracket: Bracket): string | null => {
+    const last = bracket.matches[bracket.matches.length - 1];
+    return last && isDecided(last) ? last.winner : null;
+};
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Trusted proxies are read when the module loads, so every test loads it afresh with its own env
+const env = vi.hoisted(() => ({} as { TRUSTED_PROXIES?: string; CLIENT_IP_HEADER?: string }));
+
+vi.mock('~/env', () => ({ env }));
+
+const loadGetClientIp = async (settings: typeof env = {}) => {
+    env.TRUSTED_PROXIES = settings.TRUSTED_PROXIES;
+    env.CLIENT_IP_HEADER = settings.CLIENT_IP_HEADER;
+    vi.resetModules();
+
+    const { getClientIp } = await import('~/lib/get-ip');
+    return getClientIp;
+};
+
+const forwardedFor = (value: string) => new Headers({ 'x-forwarded-for': value });
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('getClientIp', () => {
+    it('takes the address the nearest proxy saw, not one the client made up', async () => {
+        const getClientIp = await loadGetClientIp();
+
+        expect(getClientIp(forwardedFor('1.1.1.1'))).toBe('1.1.1.1');
+        expect(getClientIp(forwardedFor('6.6.6.6, 203.0.113.7'))).toBe('203.0.113.7');
+    });
+
+    it('skips trusted proxies from the right, including CIDR ranges', async () => {
+        const getClientIp = await loadGetClientIp({ TRUSTED_PROXIES: '10.0.0.0/8, 192.0.2.1' });
+
+        expect(getClientIp(forwardedFor('6.6.6.6, 203.0.113.7, 10.1.2.3, 192.0.2.1'))).toBe('203.0.113.7');
+    });
+
+    it('falls back to the leftmost hop when every hop is a trusted proxy', async () => {
+        const getClientIp = await loadGetClientIp({ TRUSTED_PROXIES: '10.0.0.0/8' });
+
+        expect(getClientIp(forwardedFor('10.0.0.1, 10.0.0.2'))).toBe('10.0.0.1');
+    });
+
+    it('gives up at a hop that is not an address', async () => {
+        const getClientIp = await loadGetClientIp({ TRUSTED_PROXIES: '10.0.0.0/8' });
+
+        expect(getClientIp(forwardedFor('203.0.113.7, not-an-ip, 10.0.0.1'))).toBeNull();
+    });
+
+    it('returns null and warns once without any forwarding header', async () => {
+        const getClientIp = await loadGetClientIp();
+
+        expect(getClientIp(new Headers())).toBeNull();
+        expect(getClientIp(new Headers())).toBeNull();
+        expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('normalizes ports, brackets and IPv4-mapped addresses', async () => {
+        const getClientIp = await loadGetClientIp();
+
+        expect(getClientIp(forwardedFor('203.0.113.7:51234'))).toBe('203.0.113.7');
+        expect(getClientIp(forwardedFor('[2001:db8::1]:443'))).toBe('2001:db8::1');
+        expect(getClientIp(forwardedFor('::ffff:203.0.113.7'))).toBe('203.0.113.7');
+    });
+
+    it('handles IPv6 clients and IPv6 proxy ranges', async () => {
+        const getClientIp = await loadGetClientIp({ TRUSTED_PROXIES: 'fd00::/8' });
+
+        expect(getClientIp(forwardedFor('2001:db8::1, fd00::2'))).toBe('2001:db8::1');
+    });
+
+    describe('with CLIENT_IP_HEADER', () => {
+        it('trusts the platform header over X-Forwarded-For', async () => {
+            const getClientIp = await loadGetClientIp({ CLIENT_IP_HEADER: 'x-real-ip' });
+            const headers = new Headers({ 'x-real-ip': '203.0.113.7', 'x-forwarded-for': '6.6.6.6' });
+
+            expect(getClientIp(headers)).toBe('203.0.113.7');
+        });
+
+        it('falls back to X-Forwarded-For when the header is missing or invalid', async () => {
+            const getClientIp = await loadGetClientIp({ CLIENT_IP_HEADER: 'x-real-ip' });
+
+            expect(getClientIp(forwardedFor('203.0.113.7'))).toBe('203.0.113.7');
+            expect(getClientIp(new Headers({ 'x-real-ip': 'garbage', 'x-forwarded-for': '198.51.100.4' }))).toBe('198.51.100.4');
+            expect(console.warn).toHaveBeenCalledTimes(1);
+        });
+    });
+});
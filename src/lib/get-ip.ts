@@ -1,24 +1,108 @@
-import { type NextRequest } from 'next/server';
+import { BlockList, isIP } from 'net';
+import { env } from '~/env';
 
-export function getClientIp(request: NextRequest): string {
-    // Try various headers in order of preference
-    const forwardedFor = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const cfConnectingIp = request.headers.get('cf-connecting-ip'); // Cloudflare
+/**
+ * Resolve the client IP from request headers without trusting what the client can set.
+ *
+ * `X-Forwarded-For` is read right to left: each proxy appends the address it received the
+ * request from, so the rightmost entry that isn't one of our `TRUSTED_PROXIES` is the client.
+ * Anything to its left was supplied by the client and is ignored.
+ *
+ * Platforms that put the client address in a header of their own (`x-real-ip` on Vercel,
+ * `cf-connecting-ip` on Cloudflare) can be trusted with `CLIENT_IP_HEADER` instead. If that header
+ * is missing, `X-Forwarded-For` is used after all; without a proxy, Next.js fills it with the
+ * socket address. Callers reject requests whose IP still cannot be resolved.
+ */
 
-    if (forwardedFor) {
-        // x-forwarded-for can contain multiple IPs, get the first one
-        return forwardedFor.split(',')[0]?.trim() ?? 'unknown';
+// Strip ports, IPv6 brackets and the IPv4-mapped prefix; null if it isn't an IP at all
+const normalizeIp = (value: string): string | null => {
+    let ip = value.trim();
+
+    const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(ip);
+    if (bracketed?.[1]) {
+        ip = bracketed[1];
+    } else if (/^[\d.]+:\d+$/.test(ip)) {
+        ip = ip.slice(0, ip.lastIndexOf(':'));
+    }
+
+    if (ip.toLowerCase().startsWith('::ffff:') && isIP(ip.slice(7)) === 4) {
+        ip = ip.slice(7);
+    }
+
+    return isIP(ip) ? ip : null;
+};
+
+// TRUSTED_PROXIES is a comma-separated list of addresses and CIDR ranges
+const parseTrustedProxies = (value: string | undefined): BlockList => {
+    const proxies = new BlockList();
+
+    for (const entry of value?.split(',') ?? []) {
+        const [address = '', prefix] = entry.trim().split('/');
+        const ip = normalizeIp(address);
+        if (!ip) continue;
+
+        const type = isIP(ip) === 6 ? 'ipv6' : 'ipv4';
+        if (prefix) {
+            proxies.addSubnet(ip, Number(prefix), type);
+        } else {
+            proxies.addAddress(ip, type);
+        }
+    }
+
+    return proxies;
+};
+
+const trustedProxies = parseTrustedProxies(env.TRUSTED_PROXIES);
+
+const isTrustedProxy = (ip: string) => trustedProxies.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4');
+
+// A missing header is a deployment problem, not a per-request one, so it is only logged once
+const warned = new Set<string>();
+
+const warnOnce = (key: string, message: string) => {
+    if (warned.has(key)) return;
+
+    warned.add(key);
+    console.warn(message);
+};
+
+export function getClientIp(headers: Headers): string | null {
+    if (env.CLIENT_IP_HEADER) {
+        const platformIp = normalizeIp(headers.get(env.CLIENT_IP_HEADER)?.split(',')[0] ?? '');
+        if (platformIp) {
+            return platformIp;
+        }
+
+        warnOnce(
+            'client-ip-header',
+            `CLIENT_IP_HEADER is set to "${env.CLIENT_IP_HEADER}" but a request arrived without a valid address in it; falling back to X-Forwarded-For. Check the setting for this platform.`
+        );
     }
 
-    if (realIp) {
-        return realIp;
+    const forwardedFor = headers.get('x-forwarded-for');
+    if (!forwardedFor) {
+        warnOnce(
+            'x-forwarded-for',
+            'A request arrived without X-Forwarded-For, so its client IP is unknown and rate-limited requests from it are rejected. Set CLIENT_IP_HEADER if your platform passes the client IP in another header.'
+        );
+        return null;
     }
 
-    if (cfConnectingIp) {
-        return cfConnectingIp;
+    const hops = forwardedFor.split(',').map(normalizeIp);
+
+    for (let i = hops.length - 1; i >= 0; i--) {
+        const hop = hops[i];
+
+        // An unparseable hop means everything from here leftwards is untrustworthy
+        if (!hop) {
+            return null;
+        }
+
+        if (!isTrustedProxy(hop)) {
+            return hop;
+        }
     }
 
-    // Fallback for unknown cases
-    return 'unknown';
+    // Every hop is one of our proxies; the leftmost is the closest we can get
+    return hops[0] ?? null;
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getMapWinner,
+    getSeriesResult,
+    getWinsNeeded,
+    MAX_MAP_SCORE,
+    validateMapScore,
+} from '~/lib/match-results';
+import type { MapResultStatus } from '~/types/veto';
+
+const result = (teamAScore: number, teamBScore: number, status: MapResultStatus = 'confirmed') => ({
+    teamAScore,
+    teamBScore,
+    status,
+});
+
+describe('validateMapScore', () => {
+    it('accepts a decided score', () => {
+        expect(validateMapScore({ teamAScore: 13, teamBScore: 9 })).toBeNull();
+        expect(validateMapScore({ teamAScore: 0, teamBScore: MAX_MAP_SCORE })).toBeNull();
+    });
+
+    it('rejects a draw', () => {
+        expect(validateMapScore({ teamAScore: 12, teamBScore: 12 })).toBe('A map cannot end in a draw');
+    });
+
+    it('rejects negative, fractional and oversized scores', () => {
+        expect(validateMapScore({ teamAScore: -1, teamBScore: 13 })).not.toBeNull();
+        expect(validateMapScore({ teamAScore: 13, teamBScore: 2.5 })).not.toBeNull();
+        expect(validateMapScore({ teamAScore: MAX_MAP_SCORE + 1, teamBScore: 0 })).not.toBeNull();
+    });
+});
+
+describe('getMapWinner', () => {
+    it('names the team with more rounds', () => {
+        expect(getMapWinner({ teamAScore: 13, teamBScore: 9 })).toBe('team-a');
+        expect(getMapWinner({ teamAScore: 11, teamBScore: 13 })).toBe('team-b');
+    });
+});
+
+describe('getWinsNeeded', () => {
+    it('needs a majority of the picked maps', () => {
+        expect(getWinsNeeded(1)).toBe(1);
+        expect(getWinsNeeded(3)).toBe(2);
+        expect(getWinsNeeded(5)).toBe(3);
+    });
+});
+
+describe('getSeriesResult', () => {
+    it('has no winner before any map is confirmed', () => {
+        expect(getSeriesResult(3, [])).toEqual({ teamAWins: 0, teamBWins: 0, winsNeeded: 2, winner: null });
+    });
+
+    it('decides a BO1 on its only map', () => {
+        expect(getSeriesResult(1, [result(9, 13)]).winner).toBe('team-b');
+    });
+
+    it('decides a BO3 once a team takes two maps', () => {
+        expect(getSeriesResult(3, [result(13, 9), result(7, 13)]).winner).toBeNull();
+        expect(getSeriesResult(3, [result(13, 9), result(7, 13), result(13, 11)])).toEqual({
+            teamAWins: 2,
+            teamBWins: 1,
+            winsNeeded: 2,
+            winner: 'team-a',
+        });
+    });
+
+    it('decides a BO5 early on a sweep', () => {
+        expect(getSeriesResult(5, [result(5, 13), result(10, 13), result(11, 13)]).winner).toBe('team-b');
+    });
+
+    it('only counts confirmed maps', () => {
+        const series = getSeriesResult(3, [result(13, 9), result(13, 5, 'reported'), result(13, 2, 'disputed')]);
+
+        expect(series.teamAWins).toBe(1);
+        expect(series.winner).toBeNull();
+    });
+});
@@ -0,0 +1,62 @@
+import type { MapResultStatus, SeriesResult, TeamType } from '~/types/veto';
+
+/**
+ * Pure rules for turning reported map scores into a series result.
+ *
+ * Only confirmed maps count. A series over N picked maps is won by the first team to take
+ * a majority of them (one map in a BO1, two in a BO3, three in a BO5), so maps after that
+ * point are never played or reported.
+ */
+
+export interface MapScore {
+    teamAScore: number;
+    teamBScore: number;
+}
+
+// Scores are round counts, e.g. 13-9
+export const MAX_MAP_SCORE = 99;
+
+/**
+ * Why a score can't be recorded, or null if it can
+ */
+export const validateMapScore = (score: MapScore): string | null => {
+    const scores = [score.teamAScore, score.teamBScore];
+
+    if (scores.some(value => !Number.isInteger(value) || value < 0 || value > MAX_MAP_SCORE)) {
+        return `Scores must be whole numbers from 0 to ${MAX_MAP_SCORE}`;
+    }
+
+    if (score.teamAScore === score.teamBScore) {
+        return 'A map cannot end in a draw';
+    }
+
+    return null;
+};
+
+export const getMapWinner = (score: MapScore): TeamType => {
+    return score.teamAScore > score.teamBScore ? 'team-a' : 'team-b';
+};
+
+export const getWinsNeeded = (mapCount: number): number => {
+    return Math.floor(mapCount / 2) + 1;
+};
+
+/**
+ * Tally confirmed maps and name the series winner once one team has a majority
+ */
+export const getSeriesResult = (
+    mapCount: number,
+    results: Array<MapScore & { status: MapResultStatus }>
+): SeriesResult => {
+    const confirmed = results.filter(result => result.status === 'confirmed');
+    const teamAWins = confirmed.filter(result => getMapWinner(result) === 'team-a').length;
+    const teamBWins = confirmed.length - teamAWins;
+    const winsNeeded = getWinsNeeded(mapCount);
+
+    return {
+        teamAWins,
+        teamBWins,
+        winsNeeded,
+        winner: teamAWins >= winsNeeded ? 'team-a' : teamBWins >= winsNeeded ? 'team-b' : null,
+    };
+};
@@ -1,108 +1,96 @@
-// In-memory rate limiter for development
-// In production, replace with Redis or similar persistent store
-class InMemoryStore {
-    private store = new Map<string, { count: number; resetTime: number }>();
-
-    async get(key: string): Promise<{ count: number; resetTime: number } | null> {
-        const data = this.store.get(key);
-        if (!data) return null;
-
-        // Clean up expired entries
-        if (Date.now() > data.resetTime) {
-            this.store.delete(key);
-            return null;
-        }
-
-        return data;
-    }
+import { rateLimitStore, type RateLimitStore } from "~/server/rate-limit-store";
 
-    async set(key: string, value: { count: number; resetTime: number }): Promise<void> {
-        this.store.set(key, value);
-    }
+export interface RateLimitConfig {
+    windowMs: number; // Time window in milliseconds
+    maxRequests: number; // Max requests per window
+    keyGenerator?: (identifier: string) => string;
+    store?: RateLimitStore; // Defaults to the store selected by RATE_LIMIT_STORE
+}
 
-    async delete(key: string): Promise<void> {
-        this.store.delete(key);
-    }
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetTime: number;
+    totalRequests: number;
+}
 
-    // Cleanup expired entries periodically
-    cleanup(): void {
-        const now = Date.now();
-        for (const [key, data] of this.store.entries()) {
-            if (now > data.resetTime) {
-                this.store.delete(key);
-            }
-        }
-    }
+// What a rejected caller is told, mirroring the RateLimit-* and Retry-After headers
+export interface RateLimitInfo {
+    limit: number;
+    remaining: number;
+    resetAt: string;
+    retryAfterSeconds: number;
 }
 
-// Global store instance
-const store = new InMemoryStore();
+/**
+ * Attached as the `cause` of a TOO_MANY_REQUESTS error so the API can report when to retry
+ */
+export class RateLimitError extends Error {
+    constructor(public readonly info: RateLimitInfo) {
+        super(`Rate limit exceeded. Retry after ${info.retryAfterSeconds} seconds`);
+        this.name = 'RateLimitError';
+    }
+}
 
-// Cleanup every 5 minutes
-setInterval(() => store.cleanup(), 5 * 60 * 1000);
+export const toRateLimitInfo = (result: RateLimitResult): RateLimitInfo => ({
+    limit: result.limit,
+    remaining: result.remaining,
+    resetAt: new Date(result.resetTime).toISOString(),
+    retryAfterSeconds: Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000)),
+});
 
-export interface RateLimitConfig {
-    windowMs: number; // Time window in milliseconds
-    maxRequests: number; // Max requests per window
-    keyGenerator?: (identifier: string) => string;
-}
+export const toRateLimitHeaders = (info: RateLimitInfo): Record<string, string> => ({
+    'RateLimit-Limit': String(info.limit),
+    'RateLimit-Remaining': String(info.remaining),
+    'RateLimit-Reset': String(info.retryAfterSeconds),
+    'Retry-After': String(info.retryAfterSeconds),
+});
 
 export class RateLimiter {
     private config: RateLimitConfig;
+    private store: RateLimitStore;
 
     constructor(config: RateLimitConfig) {
         this.config = config;
+        this.store = config.store ?? rateLimitStore;
     }
 
-    async checkLimit(identifier: string): Promise<{
-        allowed: boolean;
-        remaining: number;
-        resetTime: number;
-        totalRequests: number;
-    }> {
-        const key = this.config.keyGenerator
+    private getKey(identifier: string): string {
+        return this.config.keyGenerator
             ? this.config.keyGenerator(identifier)
             : `ratelimit:${identifier}`;
+    }
 
-        const now = Date.now();
-
-        // Get current data
-        const current = await store.get(key);
-
-        let count = 0;
-        let resetTime = now + this.config.windowMs;
-
-        if (current && current.resetTime > now) {
-            // Within the current window
-            count = current.count;
-            resetTime = current.resetTime;
-        } else {
-            // New window or expired
-            resetTime = now + this.config.windowMs;
-        }
+    async checkLimit(identifier: string): Promise<RateLimitResult> {
+        // Rejected requests are counted too; they can't extend the window, only use it up
+        const { count, resetTime } = await this.store.increment(this.getKey(identifier), this.config.windowMs);
 
-        const newCount = count + 1;
-        const allowed = newCount <= this.config.maxRequests;
+        return {
+            allowed: count <= this.config.maxRequests,
+            limit: this.config.maxRequests,
+            remaining: Math.max(0, this.config.maxRequests - count),
+            resetTime,
+            totalRequests: count,
+        };
+    }
 
-        if (allowed) {
-            // Update the count
-            await store.set(key, { count: newCount, resetTime });
-        }
+    // Whether one more request would be allowed, without counting one
+    async peek(identifier: string): Promise<RateLimitResult> {
+        const current = await this.store.get(this.getKey(identifier));
+        const count = current?.count ?? 0;
 
         return {
-            allowed,
-            remaining: Math.max(0, this.config.maxRequests - newCount),
-            resetTime,
-            totalRequests: newCount,
+            allowed: count < this.config.maxRequests,
+            limit: this.config.maxRequests,
+            remaining: Math.max(0, this.config.maxRequests - count),
+            resetTime: current?.resetTime ?? Date.now() + this.config.windowMs,
+            totalRequests: count,
         };
     }
 
     async reset(identifier: string): Promise<void> {
-        const key = this.config.keyGenerator
-            ? this.config.keyGenerator(identifier)
-            : `ratelimit:${identifier}`;
-
-        await store.delete(key);
+        await this.store.delete(this.getKey(identifier));
     }
 }
 
@@ -114,7 +102,7 @@ export const roomCreationLimiter = new RateLimiter({
 });
 
 export const globalRoomCreationLimiter = new RateLimiter({
-    windowMs: 60 * 1000, // 1 minute  
+    windowMs: 60 * 1000, // 1 minute
     maxRequests: 10, // 10 rooms per minute globally
     keyGenerator: () => 'global_room_creation',
 });
@@ -124,3 +112,10 @@ export const ipBasedLimiter = new RateLimiter({
     maxRequests: 5, // 5 rooms per 5 minutes per IP
     keyGenerator: (ip) => `ip_room_creation:${ip}`,
 });
+
+// Team IDs are the only thing guarding a team's link, so guessing at them is cut off quickly
+export const failedTeamLookupLimiter = new RateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 20, // 20 unknown team IDs per 15 minutes per IP
+    keyGenerator: (ip) => `failed_team_lookup:${ip}`,
+});
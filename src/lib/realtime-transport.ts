@@ -0,0 +1,122 @@
+import type { TRPCClient } from '@trpc/client';
+import { supabase } from '~/lib/supabase';
+import type { AppRouter } from '~/server/api/root';
+
+/**
+ * A realtime transport delivers server-published room updates to the browser.
+ *
+ * - `supabase`: the Supabase Realtime channel `room:${masterRoomId}`
+ * - `sse`: the `room.onUpdate` tRPC subscription, fed by the server's in-process emitter
+ *
+ * The active one is chosen with `NEXT_PUBLIC_REALTIME_TRANSPORT`.
+ *
+ * Both are receive-only for browsers: every update is published by the server after its change is
+ * committed. Supabase room channels are private, and the Realtime authorization policy in
+ * `supabase/realtime-authorization.sql` lets clients read them but not send on them.
+ * Who is connected is tracked by the server from heartbeats (see `useRoomPresence`), not by the transport.
+ */
+
+export type RoomChannelStatus = 'connected' | 'error' | 'timed-out' | 'closed';
+
+export interface PingPayload {
+    clientId: string;
+    timestamp: number;
+}
+
+export interface RoomChannelHandlers {
+    onUpdate: (payload: unknown) => void;
+    onPing: (payload: Partial<PingPayload>) => void;
+    onStatus: (status: RoomChannelStatus) => void;
+}
+
+export interface RoomChannel {
+    ping: (payload: PingPayload) => void;
+    close: () => void;
+}
+
+export interface RoomChannelOptions {
+    roomId: string;
+    clientId: string;
+}
+
+export interface RealtimeTransport {
+    connect: (options: RoomChannelOptions, handlers: RoomChannelHandlers) => RoomChannel;
+}
+
+// Measure latency with a round trip to the server; browsers cannot send on the receive-only room channels
+const pingServer = (trpcClient: TRPCClient<AppRouter>, payload: PingPayload, handlers: RoomChannelHandlers) => {
+    trpcClient.room.ping.query(payload)
+        .then(handlers.onPing)
+        .catch(() => null);
+};
+
+export const createSupabaseTransport = (trpcClient: TRPCClient<AppRouter>): RealtimeTransport => ({
+    connect: ({ roomId }, handlers) => {
+        if (!supabase) {
+            console.error('Supabase realtime transport selected but Supabase is not configured');
+            handlers.onStatus('error');
+            return { ping: () => undefined, close: () => undefined };
+        }
+
+        const client = supabase;
+
+        // Create a channel for this specific room
+        const channel = client.channel(`room:${roomId}`, {
+            config: { private: true, broadcast: { self: false } },
+        });
+
+        channel
+            .on('broadcast', { event: 'room-update' }, (payload) => {
+                console.log('📨 Received room update:', payload);
+                handlers.onUpdate(payload.payload);
+            })
+            .on('broadcast', { event: 'veto-update' }, (payload) => {
+                console.log('🎮 Received veto update:', payload);
+                handlers.onUpdate(payload.payload);
+            })
+            .subscribe((status) => {
+                console.log(`📡 Supabase channel status for room:${roomId}:`, status);
+
+                const statusStr = status as string;
+
+                if (statusStr === 'SUBSCRIBED') {
+                    handlers.onStatus('connected');
+                } else if (statusStr === 'CHANNEL_ERROR') {
+                    handlers.onStatus('error');
+                } else if (statusStr === 'TIMED_OUT') {
+                    handlers.onStatus('timed-out');
+                } else if (statusStr === 'CLOSED') {
+                    handlers.onStatus('closed');
+                }
+            });
+
+        return {
+            ping: (payload) => pingServer(trpcClient, payload, handlers),
+            close: () => {
+                void client.removeChannel(channel);
+            },
+        };
+    },
+});
+
+export const createSseTransport = (trpcClient: TRPCClient<AppRouter>): RealtimeTransport => ({
+    connect: ({ roomId }, handlers) => {
+        const subscription = trpcClient.room.onUpdate.subscribe({ masterRoomId: roomId }, {
+            onStarted: () => handlers.onStatus('connected'),
+            onData: (update) => {
+                console.log('📨 Received room update:', update);
+                handlers.onUpdate(update);
+            },
+            onError: (error) => {
+                console.error(`❌ Room update stream failed for room:${roomId}:`, error);
+                handlers.onStatus('error');
+            },
+            onStopped: () => handlers.onStatus('closed'),
+        });
+
+        return {
+            ping: (payload) => pingServer(trpcClient, payload, handlers),
+            close: () => subscription.unsubscribe(),
+        };
+    },
+});
@@ -0,0 +1,122 @@
+import { db } from "~/server/db";
+import type { VetoState } from "~/types/veto";
+import { getRoomPresence } from "~/server/room-presence";
+import { publishRoomEvent, recordRoomEvent } from "~/server/room-events";
+import type { ActiveRoom, ForceExpireResult, RoomPresenceResult, VetoHistoryResult } from "~/lib/admin-api";
+
+/**
+ * List rooms that are waiting for teams or have a veto in progress
+ */
+export async function listActiveRooms(): Promise<ActiveRoom[]> {
+    const rooms = await db.room.findMany({
+        where: {
+            expiresAt: { gt: new Date() },
+            status: { in: ['waiting', 'active'] },
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    return rooms.map(room => ({
+        masterRoomId: room.masterRoomId,
+        status: room.status,
+        roundType: room.roundType,
+        teamAName: room.teamAName,
+        teamBName: room.teamBName,
+        vetoStarted: room.vetoStarted,
+        vetoCompleted: room.vetoCompleted,
+        currentStep: (room.vetoState as VetoState | null)?.currentStep ?? null,
+        createdAt: room.createdAt.toISOString(),
+        expiresAt: room.expiresAt.toISOString(),
+    }));
+}
+
+/**
+ * Expire a room immediately and tell connected clients; it is removed by the next cleanup run
+ */
+export async function forceExpireRoom(masterRoomId: string): Promise<ForceExpireResult | null> {
+    const room = await db.room.findUnique({
+        where: { masterRoomId },
+        select: { id: true },
+    });
+
+    if (!room) {
+        return null;
+    }
+
+    const { updatedRoom, update } = await db.$transaction(async (tx) => {
+        const updatedRoom = await tx.room.update({
+            where: { id: room.id },
+            data: {
+                expiresAt: new Date(),
+                status: 'expired',
+                turnDeadline: null,
+                version: { increment: 1 },
+            },
+        });
+
+        const update = await recordRoomEvent(tx, room.id, {
+            type: 'room-expired',
+            room: updatedRoom.masterRoomId,
+            version: updatedRoom.version,
+            data: { expiresAt: updatedRoom.expiresAt.toISOString() },
+        });
+
+        return { updatedRoom, update };
+    });
+
+    await publishRoomEvent(update);
+
+    return {
+        masterRoomId: updatedRoom.masterRoomId,
+        expiresAt: updatedRoom.expiresAt.toISOString(),
+    };
+}
+
+/**
+ * Dump the full veto history of a room, including undone steps and who acted.
+ * The history is kept after the room itself has been deleted.
+ */
+export async function getRoomVetoHistory(masterRoomId: string): Promise<VetoHistoryResult | null> {
+    const events = await db.vetoEvent.findMany({
+        where: { masterRoomId },
+        orderBy: { createdAt: 'asc' },
+    });
+
+    if (events.length === 0 && !(await db.room.findUnique({ where: { masterRoomId }, select: { id: true } }))) {
+        return null;
+    }
+
+    return {
+        masterRoomId,
+        events: events.map(event => ({
+            stepIndex: event.stepIndex,
+            team: event.team,
+            action: event.action,
+            mapId: event.mapId,
+            side: event.side,
+            actorClientId: event.actorClientId,
+            actorUserId: event.actorUserId,
+            createdAt: event.createdAt.toISOString(),
+            undoneAt: event.undoneAt?.toISOString() ?? null,
+        })),
+    };
+}
+
+/**
+ * Whether each team's captain is connected and how many spectators are watching
+ */
+export async function getRoomPresenceByMasterId(masterRoomId: string): Promise<RoomPresenceResult | null> {
+    const room = await db.room.findUnique({
+        where: { masterRoomId },
+        select: { id: true, masterRoomId: true },
+    });
+
+    if (!room) {
+        return null;
+    }
+
+    return {
+        masterRoomId: room.masterRoomId,
+        ...(await getRoomPresence(room.id)),
+    };
+}
@@ -1,4 +1,5 @@
 import { db } from "~/server/db";
+import { rateLimitStore } from "~/server/rate-limit-store";
 
 /**
  * Cleanup expired rooms and maintain database health
@@ -31,9 +32,15 @@ export async function cleanupExpiredRooms() {
 
         console.log(`Cleaned up ${deletedOldRooms.count} very old rooms`);
 
+        // Rate limit counters whose window has ended
+        const deletedRateLimits = await rateLimitStore.cleanup();
+
+        console.log(`Cleaned up ${deletedRateLimits} expired rate limit counters`);
+
         return {
             expiredRoomsDeleted: deletedRooms.count,
             oldRoomsDeleted: deletedOldRooms.count,
+            rateLimitsDeleted: deletedRateLimits,
             timestamp: now.toISOString(),
         };
     } catch (error) {
@@ -88,22 +95,3 @@ export async function getRoomStatistics() {
         throw error;
     }
 }
-
-// Export a function that can be called via API route for manual cleanup
-export async function handleCleanupRequest() {
-    try {
-        const cleanupResult = await cleanupExpiredRooms();
-        const stats = await getRoomStatistics();
-
-        return {
-            success: true,
-            cleanup: cleanupResult,
-            statistics: stats,
-        };
-    } catch (error) {
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-        };
-    }
-}
@@ -1,11 +1,31 @@
 import crypto from 'crypto';
+import { env } from '~/env';
 import { ALL_MAPS, ROUND_OPTIONS } from '~/constants/maps';
+import { validateVetoSequence, type VetoStep } from '~/constants/veto-presets';
 
 export interface ValidationResult {
     isValid: boolean;
     errors: string[];
 }
 
+// A validation error tied to the request field it came from
+export interface ValidationIssue {
+    field: 'maps' | 'roundType' | 'expiresAt' | 'customVetoSequence';
+    message: string;
+}
+
+export interface RoomCreationValidationResult extends ValidationResult {
+    issues: ValidationIssue[];
+}
+
+// Carries structured validation issues to the client through the tRPC error formatter
+export class RoomValidationError extends Error {
+    constructor(public readonly issues: ValidationIssue[]) {
+        super(`Validation failed: ${issues.map(issue => issue.message).join(', ')}`);
+        this.name = 'RoomValidationError';
+    }
+}
+
 export class RoomValidation {
     // Validate maps selection
     static validateMaps(maps: string[], roundType: string): ValidationResult {
@@ -64,6 +84,20 @@ export class RoomValidation {
         };
     }
 
+    // Validate a custom veto sequence against the room's maps and round type
+    static validateVetoSequence(
+        sequence: Omit<VetoStep, 'completed'>[],
+        roundType: string,
+        mapCount: number
+    ): ValidationResult {
+        if (!['bo1', 'bo3', 'bo5'].includes(roundType)) {
+            // Reported by validateRoundType
+            return { isValid: true, errors: [] };
+        }
+
+        return validateVetoSequence(sequence, roundType as 'bo1' | 'bo3' | 'bo5', mapCount);
+    }
+
     // Generate cryptographically secure room ID
     static generateSecureRoomId(length = 8): string {
         const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -115,20 +149,29 @@ export class RoomValidation {
         maps: string[];
         roundType: string;
         expiresAt: string;
-    }): ValidationResult {
-        const errors: string[] = [];
-
-        const mapValidation = this.validateMaps(data.maps, data.roundType);
-        const roundTypeValidation = this.validateRoundType(data.roundType);
-        const expirationValidation = this.validateExpiration(data.expiresAt);
+        customVetoSequence?: Omit<VetoStep, 'completed'>[];
+    }): RoomCreationValidationResult {
+        const results: Array<[ValidationIssue['field'], ValidationResult]> = [
+            ['maps', this.validateMaps(data.maps, data.roundType)],
+            ['roundType', this.validateRoundType(data.roundType)],
+            ['expiresAt', this.validateExpiration(data.expiresAt)],
+        ];
+
+        if (data.customVetoSequence) {
+            results.push([
+                'customVetoSequence',
+                this.validateVetoSequence(data.customVetoSequence, data.roundType, data.maps.length),
+            ]);
+        }
 
-        errors.push(...mapValidation.errors);
-        errors.push(...roundTypeValidation.errors);
-        errors.push(...expirationValidation.errors);
+        const issues = results.flatMap(([field, result]) =>
+            result.errors.map(message => ({ field, message }))
+        );
 
         return {
-            isValid: errors.length === 0,
-            errors,
+            isValid: issues.length === 0,
+            errors: issues.map(issue => issue.message),
+            issues,
         };
     }
 }
@@ -137,7 +180,7 @@ export class RoomValidation {
 export class SecurityUtils {
     // Hash IP for privacy-preserving rate limiting
     static hashIp(ip: string): string {
-        return crypto.createHash('sha256').update(ip + process.env.IP_SALT || 'default-salt').digest('hex');
+        return crypto.createHash('sha256').update(ip + (env.IP_SALT ?? 'default-salt')).digest('hex');
     }
 
     // Generate unique room links with proper entropy
@@ -157,12 +200,12 @@ export class SecurityUtils {
     }
 
     // Validate user session for authenticated rate limiting
-    static getUserIdentifier(userId?: string, ip?: string): string {
+    static getUserIdentifier(userId?: string, ipHash?: string | null): string {
         if (userId) {
             return `user:${userId}`;
         }
-        if (ip) {
-            return `ip:${this.hashIp(ip)}`;
+        if (ipHash) {
+            return `ip:${ipHash}`;
         }
         return 'anonymous';
     }
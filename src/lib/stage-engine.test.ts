@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import {
+    computeStandings,
+    generateRoundRobin,
+    getDefaultSwissRounds,
+    pairSwissRound,
+    type StagePairing,
+    type StageResult,
+} from '~/lib/stage-engine';
+
+const win = (winner: string, loser: string): StageResult => ({ teamA: winner, teamB: loser, winner });
+
+const bye = (teamId: string): StageResult => ({ teamA: teamId, teamB: null, winner: teamId });
+
+const pairKey = (pairing: StagePairing) => [pairing.teamA, pairing.teamB].sort().join('|');
+
+describe('computeStandings', () => {
+    it('ranks by points, then Buchholz, then seed, sharing ranks on a full tie', () => {
+        const standings = computeStandings(['a', 'b', 'c', 'd'], [
+            win('a', 'b'),
+            win('c', 'd'),
+            win('a', 'c'),
+            win('b', 'd'),
+        ]);
+
+        expect(standings.map(row => [row.teamId, row.rank, row.points, row.buchholz])).toEqual([
+            ['a', 1, 2, 2],
+            ['b', 2, 1, 2],
+            ['c', 2, 1, 2],
+            ['d', 4, 0, 2],
+        ]);
+    });
+
+    it('breaks a points tie on Buchholz before seed', () => {
+        // c is seeded above b and both have one win, but b's opponents scored more
+        const standings = computeStandings(['a', 'c', 'b', 'd'], [
+            win('b', 'a'),
+            win('c', 'd'),
+            win('a', 'd'),
+        ]);
+
+        expect(standings.find(row => row.teamId === 'b')!.buchholz).toBe(1);
+        expect(standings.find(row => row.teamId === 'c')!.buchholz).toBe(0);
+        expect(standings.map(row => row.teamId)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('scores a bye as a win without adding to anyone\'s Buchholz', () => {
+        const standings = computeStandings(['a', 'b', 'c'], [win('a', 'b'), bye('c')]);
+        const c = standings.find(row => row.teamId === 'c')!;
+
+        expect(c).toMatchObject({ points: 1, byes: 1, played: 0, wins: 0, buchholz: 0 });
+    });
+
+    it('ignores undecided results and teams outside the stage', () => {
+        const standings = computeStandings(['a', 'b'], [
+            { teamA: 'a', teamB: 'b', winner: null },
+            win('a', 'x'),
+        ]);
+
+        expect(standings.every(row => row.played === 0 && row.points === 0)).toBe(true);
+    });
+});
+
+describe('pairSwissRound', () => {
+    it('pairs the top half of a score group against the bottom half', () => {
+        const result = pairSwissRound(['a', 'b', 'c', 'd'], []);
+
+        expect(result).toEqual({
+            ok: true,
+            value: [{ teamA: 'a', teamB: 'c' }, { teamA: 'b', teamB: 'd' }],
+        });
+    });
+
+    it('pairs teams with the same score and never repeats a match', () => {
+        const result = pairSwissRound(['a', 'b', 'c', 'd'], [win('a', 'c'), win('b', 'd')]);
+
+        expect(result).toEqual({
+            ok: true,
+            value: [{ teamA: 'a', teamB: 'b' }, { teamA: 'c', teamB: 'd' }],
+        });
+    });
+
+    it('counts scheduled matches as played when avoiding rematches', () => {
+        const result = pairSwissRound(['a', 'b', 'c', 'd'], [
+            { teamA: 'a', teamB: 'c', winner: null },
+            { teamA: 'b', teamB: 'd', winner: null },
+        ]);
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.value.map(pairKey)).not.toContain('a|c');
+        expect(result.value.map(pairKey)).not.toContain('b|d');
+    });
+
+    it('gives the bye to the lowest-ranked team that has not had one', () => {
+        const first = pairSwissRound(['a', 'b', 'c'], []);
+        expect(first).toEqual({
+            ok: true,
+            value: [{ teamA: 'a', teamB: 'b' }, { teamA: 'c', teamB: null }],
+        });
+
+        const second = pairSwissRound(['a', 'b', 'c'], [win('a', 'b'), bye('c')]);
+        expect(second).toEqual({
+            ok: true,
+            value: [{ teamA: 'a', teamB: 'c' }, { teamA: 'b', teamB: null }],
+        });
+    });
+
+    it('fails when every pairing left would be a rematch', () => {
+        expect(pairSwissRound(['a', 'b'], [win('a', 'b')])).toMatchObject({
+            ok: false,
+            error: { code: 'NO_VALID_PAIRING' },
+        });
+    });
+
+    it('rejects fields it cannot pair', () => {
+        expect(pairSwissRound(['a'], [])).toMatchObject({ ok: false, error: { code: 'NOT_ENOUGH_TEAMS' } });
+        expect(pairSwissRound(['a', 'a'], [])).toMatchObject({ ok: false, error: { code: 'DUPLICATE_TEAM' } });
+    });
+});
+
+describe('getDefaultSwissRounds', () => {
+    it('plays enough rounds to leave one unbeaten team', () => {
+        expect(getDefaultSwissRounds(2)).toBe(1);
+        expect(getDefaultSwissRounds(5)).toBe(3);
+        expect(getDefaultSwissRounds(8)).toBe(3);
+        expect(getDefaultSwissRounds(16)).toBe(4);
+    });
+});
+
+describe('generateRoundRobin', () => {
+    it('has everyone in a group meet exactly once', () => {
+        const result = generateRoundRobin(['a', 'b', 'c', 'd']);
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+
+        const [group] = result.value;
+        expect(group!.rounds).toHaveLength(3);
+        expect(group!.rounds.every(round => round.length === 2)).toBe(true);
+
+        const pairs = group!.rounds.flat().map(pairKey);
+        expect(new Set(pairs).size).toBe(6);
+    });
+
+    it('sits one team out each round when a group is odd', () => {
+        const result = generateRoundRobin(['a', 'b', 'c', 'd', 'e']);
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+
+        const [group] = result.value;
+        expect(group!.rounds).toHaveLength(5);
+
+        const pairs = group!.rounds.flat().map(pairKey);
+        expect(new Set(pairs).size).toBe(10);
+
+        // Each team plays in all but one round
+        for (const teamId of group!.teamIds) {
+            const roundsPlayed = group!.rounds.filter(round =>
+                round.some(pairing => pairing.teamA === teamId || pairing.teamB === teamId)
+            );
+            expect(roundsPlayed).toHaveLength(4);
+        }
+    });
+
+    it('splits teams into groups by snake seeding', () => {
+        const result = generateRoundRobin(['t1', 't2', 't3', 't4', 't5', 't6', 't7', 't8'], 2);
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.value.map(group => [group.name, group.teamIds])).toEqual([
+            ['A', ['t1', 't4', 't5', 't8']],
+            ['B', ['t2', 't3', 't6', 't7']],
+        ]);
+    });
+
+    it('rejects group counts the field cannot fill', () => {
+        expect(generateRoundRobin(['a', 'b'], 0)).toMatchObject({ ok: false, error: { code: 'INVALID_GROUP_COUNT' } });
+        expect(generateRoundRobin(['a', 'b', 'c'], 2)).toMatchObject({
+            ok: false,
+            error: { code: 'NOT_ENOUGH_TEAMS', message: '2 groups need at least 4 teams' },
+        });
+    });
+});
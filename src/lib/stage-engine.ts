@@ -0,0 +1,270 @@
+/**
+ * Pure Swiss and round-robin stages, and the standings both are ranked by.
+ *
+ * A Swiss stage is paired one round at a time from the results so far: teams are ranked by
+ * points, then Buchholz (the points their opponents have scored), then seed, and each team is
+ * paired inside its score group, top half against bottom half. Nobody plays the same opponent
+ * twice; with an odd team count the lowest-ranked team that hasn't had a bye sits out and
+ * scores a win.
+ *
+ * A round-robin stage splits teams into groups by snake seeding and schedules every group up
+ * front with the circle method, so everyone in a group meets once.
+ */
+
+export type StageFormat = 'swiss' | 'round-robin';
+
+// A null teamB is a bye: teamA sits the round out and scores a win
+export interface StagePairing {
+    teamA: string;
+    teamB: string | null;
+}
+
+// A played or scheduled match; winner stays null until it's decided
+export interface StageResult {
+    teamA: string;
+    teamB: string | null;
+    winner: string | null;
+}
+
+export interface StandingRow {
+    teamId: string;
+    rank: number;
+    played: number;
+    wins: number;
+    losses: number;
+    byes: number;
+    points: number;
+    buchholz: number;
+}
+
+export interface RoundRobinGroup {
+    name: string;
+    teamIds: string[];
+    rounds: StagePairing[][]; // rounds[0] is round 1
+}
+
+export type StageEngineErrorCode =
+    | 'NOT_ENOUGH_TEAMS'
+    | 'DUPLICATE_TEAM'
+    | 'INVALID_GROUP_COUNT'
+    | 'NO_VALID_PAIRING';
+
+export interface StageEngineError {
+    code: StageEngineErrorCode;
+    message: string;
+}
+
+export type StageEngineResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: StageEngineError };
+
+const fail = <T>(code: StageEngineErrorCode, message: string): StageEngineResult<T> => ({
+    ok: false,
+    error: { code, message },
+});
+
+const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+const checkTeams = (teamIds: string[], minimum: number): StageEngineError | null => {
+    if (teamIds.length < minimum) {
+        return { code: 'NOT_ENOUGH_TEAMS', message: `This stage needs at least ${minimum} teams` };
+    }
+
+    if (new Set(teamIds).size !== teamIds.length) {
+        return { code: 'DUPLICATE_TEAM', message: 'Each team can only be seeded once' };
+    }
+
+    return null;
+};
+
+/**
+ * Rank teams from decided results. Ties on points go to Buchholz, then to the better seed.
+ * `teamIds` is the seed order; results involving other teams are ignored.
+ */
+export const computeStandings = (teamIds: string[], results: StageResult[]): StandingRow[] => {
+    const rows = new Map(teamIds.map((teamId): [string, StandingRow] => [teamId, {
+        teamId,
+        rank: 0,
+        played: 0,
+        wins: 0,
+        losses: 0,
+        byes: 0,
+        points: 0,
+        buchholz: 0,
+    }]));
+    const opponents = new Map(teamIds.map(teamId => [teamId, [] as string[]]));
+
+    for (const result of results) {
+        if (!result.winner) continue;
+
+        const teamA = rows.get(result.teamA);
+        if (!teamA) continue;
+
+        if (result.teamB === null) {
+            teamA.byes++;
+            teamA.points++;
+            continue;
+        }
+
+        const teamB = rows.get(result.teamB);
+        if (!teamB) continue;
+
+        const [winner, loser] = result.winner === result.teamA ? [teamA, teamB] : [teamB, teamA];
+        winner.wins++;
+        winner.points++;
+        loser.losses++;
+        teamA.played++;
+        teamB.played++;
+        opponents.get(teamA.teamId)!.push(teamB.teamId);
+        opponents.get(teamB.teamId)!.push(teamA.teamId);
+    }
+
+    // Byes add nothing to Buchholz, so sitting out never inflates anyone's tiebreak
+    for (const row of rows.values()) {
+        row.buchholz = opponents.get(row.teamId)!.reduce((sum, opponent) => sum + rows.get(opponent)!.points, 0);
+    }
+
+    const seed = new Map(teamIds.map((teamId, index) => [teamId, index]));
+    const ranked = [...rows.values()].sort((a, b) => {
+        return b.points - a.points || b.buchholz - a.buchholz || seed.get(a.teamId)! - seed.get(b.teamId)!;
+    });
+
+    ranked.forEach((row, index) => {
+        const previous = ranked[index - 1];
+        // Teams level on every tiebreak but seed share a rank
+        row.rank = previous && previous.points === row.points && previous.buchholz === row.buchholz
+            ? previous.rank
+            : index + 1;
+    });
+
+    return ranked;
+};
+
+/**
+ * Pair the next Swiss round. `teamIds` is the seed order and `results` every match so far,
+ * decided or not, so scheduled matches count as played for rematch purposes.
+ */
+export const pairSwissRound = (teamIds: string[], results: StageResult[]): StageEngineResult<StagePairing[]> => {
+    const invalid = checkTeams(teamIds, 2);
+    if (invalid) {
+        return { ok: false, error: invalid };
+    }
+
+    const standings = computeStandings(teamIds, results);
+    const points = new Map(standings.map(row => [row.teamId, row.points]));
+    const played = new Set(results.flatMap(result => result.teamB ? [pairKey(result.teamA, result.teamB)] : []));
+    const hadBye = new Set(results.filter(result => result.teamB === null).map(result => result.teamA));
+
+    // Same score group first, starting half-way down it so the top half meets the bottom half
+    const candidatesFor = (team: string, remaining: string[]) => {
+        const sameGroup = remaining.filter(other => points.get(other) === points.get(team));
+        const middle = Math.max(Math.floor((sameGroup.length + 1) / 2) - 1, 0);
+        return [
+            ...sameGroup.slice(middle),
+            ...sameGroup.slice(0, middle),
+            ...remaining.filter(other => points.get(other) !== points.get(team)),
+        ];
+    };
+
+    const pairAll = (remaining: string[]): StagePairing[] | null => {
+        const [team, ...rest] = remaining;
+        if (!team) return [];
+
+        for (const opponent of candidatesFor(team, rest)) {
+            if (played.has(pairKey(team, opponent))) continue;
+
+            const pairings = pairAll(rest.filter(other => other !== opponent));
+            if (pairings) {
+                return [{ teamA: team, teamB: opponent }, ...pairings];
+            }
+        }
+
+        return null;
+    };
+
+    const ranked = standings.map(row => row.teamId);
+
+    if (ranked.length % 2 === 0) {
+        const pairings = pairAll(ranked);
+        return pairings
+            ? { ok: true, value: pairings }
+            : fail('NO_VALID_PAIRING', 'Every remaining pairing would be a rematch');
+    }
+
+    // The bye goes to the lowest-ranked team that hasn't had one, as long as the rest can still be paired
+    const byeOrder = [
+        ...[...ranked].reverse().filter(team => !hadBye.has(team)),
+        ...[...ranked].reverse().filter(team => hadBye.has(team)),
+    ];
+
+    for (const byeTeam of byeOrder) {
+        const pairings = pairAll(ranked.filter(team => team !== byeTeam));
+        if (pairings) {
+            return { ok: true, value: [...pairings, { teamA: byeTeam, teamB: null }] };
+        }
+    }
+
+    return fail('NO_VALID_PAIRING', 'Every remaining pairing would be a rematch');
+};
+
+/**
+ * Rounds needed for a Swiss stage to separate a single unbeaten team
+ */
+export const getDefaultSwissRounds = (teamCount: number): number => {
+    return Math.max(Math.ceil(Math.log2(teamCount)), 1);
+};
+
+/**
+ * Split teams into groups by snake seeding (A B C C B A ...) and schedule each group's rounds
+ */
+export const generateRoundRobin = (teamIds: string[], groupCount = 1): StageEngineResult<RoundRobinGroup[]> => {
+    if (!Number.isInteger(groupCount) || groupCount < 1 || groupCount > 26) {
+        return fail('INVALID_GROUP_COUNT', 'Group count must be between 1 and 26');
+    }
+
+    const invalid = checkTeams(teamIds, groupCount * 2);
+    if (invalid) {
+        return {
+            ok: false,
+            error: invalid.code === 'NOT_ENOUGH_TEAMS'
+                ? { code: invalid.code, message: `${groupCount} groups need at least ${groupCount * 2} teams` }
+                : invalid,
+        };
+    }
+
+    const groups: RoundRobinGroup[] = Array.from({ length: groupCount }, (_, index) => ({
+        name: String.fromCharCode(65 + index),
+        teamIds: [],
+        rounds: [],
+    }));
+
+    teamIds.forEach((teamId, index) => {
+        const lap = Math.floor(index / groupCount);
+        const offset = index % groupCount;
+        groups[lap % 2 === 0 ? offset : groupCount - 1 - offset]!.teamIds.push(teamId);
+    });
+
+    for (const group of groups) {
+        // Circle method: the first slot stays put and the rest rotate; a null slot means that team sits out
+        const slots: (string | null)[] = group.teamIds.length % 2 === 0 ? [...group.teamIds] : [...group.teamIds, null];
+        const half = slots.length / 2;
+
+        for (let round = 0; round < slots.length - 1; round++) {
+            const pairings: StagePairing[] = [];
+
+            for (let i = 0; i < half; i++) {
+                const home = slots[i];
+                const away = slots[slots.length - 1 - i];
+                if (home && away) {
+                    // Alternate sides so nobody is always team A
+                    pairings.push(round % 2 === 0 ? { teamA: home, teamB: away } : { teamA: away, teamB: home });
+                }
+            }
+
+            group.rounds.push(pairings);
+            slots.splice(1, 0, slots.pop()!);
+        }
+    }
+
+    return { ok: true, value: groups };
+};
@@ -1,25 +1,26 @@
-import { supabase } from '~/lib/supabase-server';
+import { supabaseAdmin } from '~/lib/supabase-server';
+import type { RoomRealtimeUpdate } from '~/types/realtime';
 
-interface BroadcastRoomUpdate {
-    type: 'team-ready-updated' | 'veto-started' | 'veto-action' | 'side-selected' | 'team-name-updated';
-    room: string;
-    data?: Record<string, unknown>;
-    timestamp?: number;
-}
+type BroadcastRoomUpdate = Omit<RoomRealtimeUpdate, 'timestamp'> & { timestamp?: number };
 
 export const broadcastRoomUpdate = async (update: BroadcastRoomUpdate) => {
     try {
         const payload = {
             type: update.type,
             room: update.room,
+            version: update.version,
             data: update.data,
             timestamp: update.timestamp ?? Date.now(),
         };
 
         console.log('Broadcasting room update from server:', payload);
 
-        // Broadcast to the specific room channel
-        const result = await supabase.channel(`room:${update.room}`).send({
+        if (!supabaseAdmin) {
+            throw new Error('Supabase service role is not configured');
+        }
+
+        // Room channels are private; only the service role may send on them
+        const result = await supabaseAdmin.channel(`room:${update.room}`, { config: { private: true } }).send({
             type: 'broadcast',
             event: 'room-update',
             payload,
@@ -39,14 +40,19 @@ export const broadcastVetoUpdate = async (update: BroadcastRoomUpdate) => {
         const payload = {
             type: update.type,
             room: update.room,
+            version: update.version,
             data: update.data,
             timestamp: update.timestamp ?? Date.now(),
         };
 
         console.log('Broadcasting veto update from server:', payload);
 
-        // Broadcast to the specific room channel
-        const result = await supabase.channel(`room:${update.room}`).send({
+        if (!supabaseAdmin) {
+            throw new Error('Supabase service role is not configured');
+        }
+
+        // Room channels are private; only the service role may send on them
+        const result = await supabaseAdmin.channel(`room:${update.room}`, { config: { private: true } }).send({
             type: 'broadcast',
             event: 'veto-update',
             payload,
@@ -1,16 +1,19 @@
 import { createClient } from "@supabase/supabase-js";
 import { env } from "~/env";
 
-// Create a single supabase client for interacting with your database
-export const supabase = createClient(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    {
-        realtime: {
-            // Configure realtime settings
-            params: {
-                eventsPerSecond: 10,
+// Create a single supabase client for interacting with your database.
+// Deployments using the SSE transport may not configure Supabase at all.
+export const supabase = env.NEXT_PUBLIC_SUPABASE_URL && env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    ? createClient(
+        env.NEXT_PUBLIC_SUPABASE_URL,
+        env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+        {
+            realtime: {
+                // Configure realtime settings
+                params: {
+                    eventsPerSecond: 10,
+                },
             },
-        },
-    }
-);
+        }
+    )
+    : null;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { ALL_MAPS } from '~/constants/maps';
+import { computeMapStats, computeTeamTendencies, type AnalyticsVeto } from '~/lib/veto-analytics';
+import type { VetoAction } from '~/types/veto';
+
+const action = (team: VetoAction['team'], type: VetoAction['type'], mapId?: string, side?: VetoAction['side']): VetoAction => ({
+    type,
+    mapId,
+    side,
+    team,
+    timestamp: '2026-10-19T12:00:00.000Z',
+});
+
+// A BO1 over a three-map pool: two bans, then team-b picks a side on the map left over
+const bo1 = (maps: string[], teamIds?: AnalyticsVeto['teamIds'], side: VetoAction['side'] = 'attack'): AnalyticsVeto => ({
+    maps,
+    actions: [
+        action('team-a', 'ban', maps[0]),
+        action('team-b', 'ban', maps[1]),
+        action('team-b', 'side', maps[2], side),
+    ],
+    teamIds,
+});
+
+const statsFor = (vetoes: AnalyticsVeto[], mapId: string) => {
+    const stats = computeMapStats(vetoes).find(map => map.mapId === mapId);
+    if (!stats) throw new Error(`No stats for ${mapId}`);
+    return stats;
+};
+
+describe('computeMapStats', () => {
+    it('reports every map, with zeroes when there are no vetoes', () => {
+        const stats = computeMapStats([]);
+
+        expect(stats.map(map => map.mapId)).toEqual(ALL_MAPS.map(map => map.id));
+        expect(stats.every(map => map.inPool === 0 && map.banRate === 0 && map.attackRate === 0)).toBe(true);
+    });
+
+    it('counts bans, first bans and side choices', () => {
+        const vetoes = [
+            bo1(['area88', 'base404', 'cosmite']),
+            bo1(['area88', 'cosmite', 'base404'], undefined, 'defense'),
+        ];
+
+        expect(statsFor(vetoes, 'area88')).toMatchObject({ inPool: 2, bans: 2, firstBans: 2, banRate: 1, firstBanRate: 1 });
+        expect(statsFor(vetoes, 'base404')).toMatchObject({ bans: 1, banRate: 0.5, sideChoices: 1, attackRate: 0, defenseRate: 1 });
+        expect(statsFor(vetoes, 'cosmite')).toMatchObject({ bans: 1, sideChoices: 1, attackRate: 1, defenseRate: 0 });
+    });
+
+    it('rates a map against the vetoes whose pool included it', () => {
+        const vetoes = [
+            bo1(['ocarnus', 'area88', 'base404']),
+            bo1(['area88', 'base404', 'cosmite']),
+        ];
+
+        expect(statsFor(vetoes, 'ocarnus')).toMatchObject({ inPool: 1, bans: 1, banRate: 1 });
+        expect(statsFor(vetoes, 'space_lab').inPool).toBe(0);
+    });
+
+    it('counts picks', () => {
+        const veto: AnalyticsVeto = {
+            maps: ['area88', 'base404', 'cosmite'],
+            actions: [
+                action('team-a', 'ban', 'area88'),
+                action('team-b', 'pick', 'base404'),
+                action('team-a', 'side', 'base404', 'defense'),
+            ],
+        };
+
+        expect(statsFor([veto], 'base404')).toMatchObject({ picks: 1, pickRate: 1, defenseRate: 1 });
+    });
+});
+
+describe('computeTeamTendencies', () => {
+    it('ignores vetoes outside tournaments', () => {
+        expect(computeTeamTendencies([bo1(['area88', 'base404', 'cosmite'])])).toEqual([]);
+    });
+
+    it('attributes each step to the team that took it', () => {
+        const tendencies = computeTeamTendencies([
+            bo1(['area88', 'base404', 'cosmite'], { 'team-a': 'alpha', 'team-b': 'bravo' }),
+            bo1(['area88', 'cosmite', 'base404'], { 'team-a': 'charlie', 'team-b': 'alpha' }, 'defense'),
+        ]);
+
+        const alpha = tendencies.find(team => team.teamId === 'alpha');
+        expect(alpha).toMatchObject({
+            vetoes: 2,
+            bans: { area88: 1, cosmite: 1 },
+            picks: {},
+            sideChoices: 1,
+            attackRate: 0,
+            mostPicked: null,
+        });
+
+        expect(tendencies.find(team => team.teamId === 'bravo')).toMatchObject({
+            vetoes: 1,
+            bans: { base404: 1 },
+            mostBanned: 'base404',
+            attackRate: 1,
+        });
+    });
+
+    it('lists the most active teams first and skips unknown slots', () => {
+        const tendencies = computeTeamTendencies([
+            bo1(['area88', 'base404', 'cosmite'], { 'team-a': 'alpha', 'team-b': null }),
+            bo1(['area88', 'base404', 'cosmite'], { 'team-a': 'bravo', 'team-b': 'alpha' }),
+        ]);
+
+        expect(tendencies.map(team => team.teamId)).toEqual(['alpha', 'bravo']);
+        expect(tendencies[0]).toMatchObject({ vetoes: 2, bans: { area88: 1, base404: 1 } });
+    });
+});
@@ -0,0 +1,135 @@
+import { ALL_MAPS } from '~/constants/maps';
+import type { TeamType, VetoAction } from '~/types/veto';
+
+/**
+ * Pure pick/ban statistics over completed vetoes.
+ *
+ * Rates are shares of the vetoes a map could have been chosen in, i.e. the ones whose map
+ * pool included it, so a map that is rarely in the pool isn't made to look unpopular.
+ * Side rates are shares of the side choices made on the map.
+ */
+
+// One completed veto: its map pool and the steps that stood, in order
+export interface AnalyticsVeto {
+    maps: string[];
+    actions: VetoAction[];
+    // Tournament team IDs behind team-a and team-b, when the room belonged to a match
+    teamIds?: Record<TeamType, string | null>;
+}
+
+export interface MapStats {
+    mapId: string;
+    name: string;
+    inPool: number; // Vetoes whose pool included the map
+    bans: number;
+    picks: number;
+    firstBans: number;
+    banRate: number;
+    pickRate: number;
+    firstBanRate: number;
+    sideChoices: number;
+    attackRate: number; // Share of side choices on this map that went attack
+    defenseRate: number;
+}
+
+export interface TeamTendency {
+    teamId: string;
+    vetoes: number;
+    bans: Record<string, number>; // By map ID
+    picks: Record<string, number>;
+    sideChoices: number;
+    attackRate: number;
+    mostBanned: string | null;
+    mostPicked: string | null;
+}
+
+const rate = (count: number, total: number) => total > 0 ? count / total : 0;
+
+const getTop = (counts: Record<string, number>): string | null => {
+    return Object.entries(counts).reduce<[string, number] | null>(
+        (top, entry) => !top || entry[1] > top[1] ? entry : top,
+        null
+    )?.[0] ?? null;
+};
+
+/**
+ * Ban, pick, first-ban and side rates for every map in ALL_MAPS
+ */
+export const computeMapStats = (vetoes: AnalyticsVeto[]): MapStats[] => {
+    return ALL_MAPS.map(map => {
+        const pools = vetoes.filter(veto => veto.maps.includes(map.id));
+        const actions = pools.flatMap(veto => veto.actions.filter(action => action.mapId === map.id));
+        const bans = actions.filter(action => action.type === 'ban').length;
+        const picks = actions.filter(action => action.type === 'pick').length;
+        const sides = actions.filter(action => action.type === 'side' && action.side);
+        const attacks = sides.filter(action => action.side === 'attack').length;
+        const firstBans = pools.filter(veto => veto.actions.find(action => action.type === 'ban')?.mapId === map.id).length;
+
+        return {
+            mapId: map.id,
+            name: map.name,
+            inPool: pools.length,
+            bans,
+            picks,
+            firstBans,
+            banRate: rate(bans, pools.length),
+            pickRate: rate(picks, pools.length),
+            firstBanRate: rate(firstBans, pools.length),
+            sideChoices: sides.length,
+            attackRate: rate(attacks, sides.length),
+            defenseRate: rate(sides.length - attacks, sides.length),
+        };
+    });
+};
+
+/**
+ * What each tournament team bans, picks and which side it starts on, most active teams first
+ */
+export const computeTeamTendencies = (vetoes: AnalyticsVeto[]): TeamTendency[] => {
+    const teams = new Map<string, TeamTendency & { attacks: number }>();
+
+    for (const veto of vetoes) {
+        if (!veto.teamIds) continue;
+
+        for (const role of ['team-a', 'team-b'] as const) {
+            const teamId = veto.teamIds[role];
+            if (!teamId) continue;
+
+            const tendency = teams.get(teamId) ?? {
+                teamId,
+                vetoes: 0,
+                bans: {},
+                picks: {},
+                sideChoices: 0,
+                attackRate: 0,
+                mostBanned: null,
+                mostPicked: null,
+                attacks: 0,
+            };
+            tendency.vetoes++;
+
+            for (const action of veto.actions) {
+                if (action.team !== role) continue;
+
+                if (action.type === 'side') {
+                    tendency.sideChoices++;
+                    if (action.side === 'attack') tendency.attacks++;
+                } else if (action.mapId) {
+                    const counts = action.type === 'ban' ? tendency.bans : tendency.picks;
+                    counts[action.mapId] = (counts[action.mapId] ?? 0) + 1;
+                }
+            }
+
+            teams.set(teamId, tendency);
+        }
+    }
+
+    return [...teams.values()]
+        .map(({ attacks, ...tendency }) => ({
+            ...tendency,
+            attackRate: rate(attacks, tendency.sideChoices),
+            mostBanned: getTop(tendency.bans),
+            mostPicked: getTop(tendency.picks),
+        }))
+        .sort((a, b) => b.vetoes - a.vetoes);
+};
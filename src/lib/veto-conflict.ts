@@ -0,0 +1,10 @@
+import type { VetoStateView } from '~/types/veto';
+
+// Carries the current veto state to the client through the tRPC error formatter when a
+// veto mutation was based on an outdated room version
+export class VetoConflictError extends Error {
+    constructor(public readonly state: VetoStateView) {
+        super(`Veto state has moved on to version ${state.version}`);
+        this.name = 'VetoConflictError';
+    }
+}
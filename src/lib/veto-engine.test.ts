@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyAction,
+    createInitialVetoState,
+    createVetoSequence,
+    determineTeamRoles,
+    getCurrentTurn,
+    getMapAwaitingSide,
+    getTimeoutAction,
+    getTurnDeadline,
+    isVetoComplete,
+    undoLastAction,
+    type VetoEngineAction,
+} from '~/lib/veto-engine';
+import type { VetoState } from '~/types/veto';
+
+const MAPS = ['area88', 'base404', 'space_lab', 'windy_town'];
+const TIMESTAMP = '2026-01-01T00:00:00.000Z';
+
+// A ban each, B picks, A picks the side, then A picks and B picks the side
+const SEQUENCE = createVetoSequence('bo3', MAPS.length, [
+    { team: 'team-a', action: 'ban' },
+    { team: 'team-b', action: 'ban' },
+    { team: 'team-b', action: 'pick' },
+    { team: 'team-a', action: 'side' },
+    { team: 'team-a', action: 'pick' },
+    { team: 'team-b', action: 'side' },
+]);
+
+const act = (action: Omit<VetoEngineAction, 'timestamp'>): VetoEngineAction => ({ ...action, timestamp: TIMESTAMP });
+
+// Apply actions in order, failing the test on the first one the engine rejects
+const play = (state: VetoState, actions: Array<Omit<VetoEngineAction, 'timestamp'>>): VetoState => {
+    return actions.reduce((current, action) => {
+        const result = applyAction(current, act(action));
+        if (!result.ok) throw new Error(result.error.message);
+        return result.state;
+    }, state);
+};
+
+const start = () => createInitialVetoState(MAPS, SEQUENCE);
+
+const FULL_VETO: Array<Omit<VetoEngineAction, 'timestamp'>> = [
+    { type: 'ban', team: 'team-a', mapId: 'area88' },
+    { type: 'ban', team: 'team-b', mapId: 'base404' },
+    { type: 'pick', team: 'team-b', mapId: 'windy_town' },
+    { type: 'side', team: 'team-a', side: 'defense' },
+    { type: 'pick', team: 'team-a', mapId: 'space_lab' },
+    { type: 'side', team: 'team-b', side: 'attack' },
+];
+
+describe('createVetoSequence', () => {
+    it('applies the room timer to steps without their own limit', () => {
+        const sequence = createVetoSequence('bo1', 3, [
+            { team: 'team-a', action: 'ban', timeLimitSeconds: 20 },
+            { team: 'team-b', action: 'ban' },
+        ], 60);
+
+        expect(sequence).toEqual([
+            { team: 'team-a', action: 'ban', completed: false, timeLimitSeconds: 20 },
+            { team: 'team-b', action: 'ban', completed: false, timeLimitSeconds: 60 },
+        ]);
+    });
+
+    it('falls back to the standard sequence without a custom one', () => {
+        const sequence = createVetoSequence('bo1', 3, []);
+
+        expect(sequence.filter(step => step.action === 'pick')).toHaveLength(1);
+        expect(sequence.filter(step => step.action === 'ban')).toHaveLength(2);
+        expect(sequence.every(step => !step.completed && step.timeLimitSeconds === undefined)).toBe(true);
+    });
+});
+
+describe('applyAction', () => {
+    it('bans and picks maps and passes the turn on', () => {
+        const state = play(start(), FULL_VETO.slice(0, 3));
+
+        expect(state.availableMaps).toEqual(['space_lab']);
+        expect(state.bannedMaps).toEqual(['area88', 'base404']);
+        expect(state.pickedMaps).toEqual([{ mapId: 'windy_town', pickedBy: 'team-b' }]);
+        expect(state.actions).toHaveLength(3);
+        expect(state.vetoSequence.slice(0, 3).every(step => step.completed)).toBe(true);
+        expect(getCurrentTurn(state)).toBe('team-a');
+    });
+
+    it('applies a side step to the earliest picked map without a side', () => {
+        const state = play(start(), FULL_VETO);
+
+        expect(state.pickedMaps).toEqual([
+            { mapId: 'windy_town', pickedBy: 'team-b', side: 'defense', attackingTeam: 'team-b', defendingTeam: 'team-a' },
+            { mapId: 'space_lab', pickedBy: 'team-a', side: 'attack', attackingTeam: 'team-b', defendingTeam: 'team-a' },
+        ]);
+        expect(state.actions[3]).toMatchObject({ type: 'side', mapId: 'windy_town' });
+        expect(getMapAwaitingSide(state)).toBeUndefined();
+        expect(isVetoComplete(state)).toBe(true);
+        expect(getCurrentTurn(state)).toBeNull();
+    });
+
+    it('never changes the state it was given', () => {
+        const state = start();
+        const snapshot = structuredClone(state);
+
+        play(state, FULL_VETO.slice(0, 2));
+
+        expect(state).toEqual(snapshot);
+    });
+
+    it('rejects actions out of turn or out of sequence', () => {
+        expect(applyAction(start(), act({ type: 'ban', team: 'team-b', mapId: 'area88' })))
+            .toMatchObject({ ok: false, error: { code: 'NOT_YOUR_TURN' } });
+        expect(applyAction(start(), act({ type: 'pick', team: 'team-a', mapId: 'area88' })))
+            .toMatchObject({ ok: false, error: { code: 'WRONG_ACTION' } });
+        expect(applyAction(play(start(), FULL_VETO), act({ type: 'ban', team: 'team-a', mapId: 'area88' })))
+            .toMatchObject({ ok: false, error: { code: 'VETO_COMPLETE' } });
+    });
+
+    it('rejects maps and sides that do not fit the step', () => {
+        const afterBan = play(start(), FULL_VETO.slice(0, 1));
+
+        expect(applyAction(afterBan, act({ type: 'ban', team: 'team-b', mapId: 'area88' })))
+            .toMatchObject({ ok: false, error: { code: 'MAP_UNAVAILABLE' } });
+        expect(applyAction(afterBan, act({ type: 'ban', team: 'team-b' })))
+            .toMatchObject({ ok: false, error: { code: 'MAP_REQUIRED' } });
+        expect(applyAction(afterBan, act({ type: 'ban', team: 'team-b', mapId: 'base404', side: 'attack' })))
+            .toMatchObject({ ok: false, error: { code: 'SIDE_NOT_ALLOWED' } });
+
+        const atSide = play(start(), FULL_VETO.slice(0, 3));
+
+        expect(applyAction(atSide, act({ type: 'side', team: 'team-a' })))
+            .toMatchObject({ ok: false, error: { code: 'SIDE_REQUIRED' } });
+        expect(applyAction(atSide, act({ type: 'side', team: 'team-a', mapId: 'space_lab', side: 'attack' })))
+            .toMatchObject({ ok: false, error: { code: 'MAP_UNAVAILABLE' } });
+    });
+
+    it('rejects a side step with no picked map waiting for one', () => {
+        const state = createInitialVetoState(MAPS, createVetoSequence('bo1', MAPS.length, [
+            { team: 'team-a', action: 'side' },
+        ]));
+
+        expect(applyAction(state, act({ type: 'side', team: 'team-a', side: 'attack' })))
+            .toMatchObject({ ok: false, error: { code: 'NO_MAP_AWAITING_SIDE' } });
+    });
+});
+
+describe('determineTeamRoles', () => {
+    it('puts the choosing team on the side it chose', () => {
+        expect(determineTeamRoles('team-a', 'attack')).toEqual({ attackingTeam: 'team-a', defendingTeam: 'team-b' });
+        expect(determineTeamRoles('team-a', 'defense')).toEqual({ attackingTeam: 'team-b', defendingTeam: 'team-a' });
+    });
+});
+
+describe('undoLastAction', () => {
+    it('rolls back the last action and restores the original map order', () => {
+        const afterTwoBans = play(start(), FULL_VETO.slice(0, 2));
+        const result = undoLastAction(afterTwoBans, MAPS);
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.state).toEqual(play(start(), FULL_VETO.slice(0, 1)));
+        expect(result.state.availableMaps).toEqual(['base404', 'space_lab', 'windy_town']);
+    });
+
+    it('undoes a side choice', () => {
+        const result = undoLastAction(play(start(), FULL_VETO.slice(0, 4)), MAPS);
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(getMapAwaitingSide(result.state)?.mapId).toBe('windy_town');
+        expect(getCurrentTurn(result.state)).toBe('team-a');
+    });
+
+    it('has nothing to undo before the first action', () => {
+        expect(undoLastAction(start(), MAPS)).toMatchObject({ ok: false, error: { code: 'NOTHING_TO_UNDO' } });
+    });
+});
+
+describe('timed turns', () => {
+    const timed = () => createInitialVetoState(MAPS, createVetoSequence('bo3', MAPS.length, [
+        { team: 'team-a', action: 'ban', timeLimitSeconds: 30 },
+        { team: 'team-b', action: 'pick' },
+        { team: 'team-a', action: 'side' },
+    ]));
+
+    it('gives the current step a deadline only when it has a time limit', () => {
+        const startedAt = new Date(TIMESTAMP);
+
+        expect(getTurnDeadline(timed(), startedAt)).toEqual(new Date(startedAt.getTime() + 30 * 1000));
+        expect(getTurnDeadline(play(timed(), [{ type: 'ban', team: 'team-a', mapId: 'area88' }]), startedAt)).toBeNull();
+    });
+
+    it('falls back to a random available map for bans and picks', () => {
+        expect(getTimeoutAction(timed(), () => 0, TIMESTAMP))
+            .toEqual({ type: 'ban', team: 'team-a', mapId: 'area88', timestamp: TIMESTAMP });
+        expect(getTimeoutAction(timed(), () => 0.99, TIMESTAMP))
+            .toMatchObject({ mapId: 'windy_town' });
+    });
+
+    it('falls back to a random side for side steps', () => {
+        const atSide = play(timed(), [
+            { type: 'ban', team: 'team-a', mapId: 'area88' },
+            { type: 'pick', team: 'team-b', mapId: 'base404' },
+        ]);
+
+        expect(getTimeoutAction(atSide, () => 0.2, TIMESTAMP)).toEqual({ type: 'side', team: 'team-a', side: 'attack', timestamp: TIMESTAMP });
+        expect(getTimeoutAction(atSide, () => 0.7, TIMESTAMP)).toMatchObject({ side: 'defense' });
+
+        const fallback = getTimeoutAction(atSide, () => 0.7, TIMESTAMP)!;
+        expect(isVetoComplete(play(atSide, [fallback]))).toBe(true);
+    });
+
+    it('has no fallback once the veto is complete', () => {
+        expect(getTimeoutAction(play(start(), FULL_VETO), () => 0, TIMESTAMP)).toBeNull();
+    });
+});
@@ -0,0 +1,281 @@
+import { generateDynamicSequence, type VetoStep } from '~/constants/veto-presets';
+import type { VetoState, VetoAction, TeamType, SideType } from '~/types/veto';
+
+/**
+ * Pure veto rules shared by the server procedures and the client.
+ *
+ * Every change to a veto goes through `applyAction`, so the server and the UI
+ * always agree on whose turn it is and what the next step will be. Sides are
+ * only ever chosen in explicit `side` steps of the sequence; a `side` step
+ * always applies to the earliest picked map that has no side yet, and the
+ * acting team starts on the side it chose.
+ */
+
+export type VetoEngineErrorCode =
+    | 'VETO_COMPLETE'
+    | 'NOT_YOUR_TURN'
+    | 'WRONG_ACTION'
+    | 'MAP_REQUIRED'
+    | 'MAP_UNAVAILABLE'
+    | 'SIDE_REQUIRED'
+    | 'SIDE_NOT_ALLOWED'
+    | 'NO_MAP_AWAITING_SIDE'
+    | 'NOTHING_TO_UNDO';
+
+export interface VetoEngineError {
+    code: VetoEngineErrorCode;
+    message: string;
+}
+
+export interface VetoEngineAction {
+    type: VetoAction['type'];
+    team: TeamType;
+    mapId?: string;
+    side?: SideType;
+    timestamp: string;
+}
+
+export type VetoEngineResult =
+    | { ok: true; state: VetoState }
+    | { ok: false; error: VetoEngineError };
+
+type SequenceInput = Array<Omit<VetoStep, 'completed'>>;
+
+const fail = (code: VetoEngineErrorCode, message: string): VetoEngineResult => ({
+    ok: false,
+    error: { code, message },
+});
+
+/**
+ * Get the team that did not act
+ */
+export const getOpposingTeam = (team: TeamType): TeamType => {
+    return team === 'team-a' ? 'team-b' : 'team-a';
+};
+
+/**
+ * Resolve attacking and defending teams when `chooser` starts on `side`
+ */
+export const determineTeamRoles = (chooser: TeamType, side: SideType) => {
+    return side === 'attack'
+        ? { attackingTeam: chooser, defendingTeam: getOpposingTeam(chooser) }
+        : { attackingTeam: getOpposingTeam(chooser), defendingTeam: chooser };
+};
+
+/**
+ * Build the veto sequence for a room, preferring the custom sequence set at creation
+ */
+export const createVetoSequence = (
+    roundType: 'bo1' | 'bo3' | 'bo5',
+    mapCount: number,
+    customSequence?: SequenceInput | null,
+    defaultTimeLimitSeconds?: number | null
+): VetoStep[] => {
+    const sequence: SequenceInput = customSequence && customSequence.length > 0
+        ? customSequence
+        : generateDynamicSequence(roundType, mapCount, true);
+
+    return sequence.map(step => {
+        const timeLimitSeconds = step.timeLimitSeconds ?? defaultTimeLimitSeconds ?? undefined;
+
+        return timeLimitSeconds
+            ? { team: step.team, action: step.action, completed: false, timeLimitSeconds }
+            : { team: step.team, action: step.action, completed: false };
+    });
+};
+
+/**
+ * Create the state a veto starts from
+ */
+export const createInitialVetoState = (maps: string[], vetoSequence: VetoStep[]): VetoState => ({
+    actions: [],
+    availableMaps: [...maps],
+    pickedMaps: [],
+    bannedMaps: [],
+    vetoSequence,
+    currentStep: 0,
+});
+
+/**
+ * Get the step that has to be played next (undefined once the veto is complete)
+ */
+export const getCurrentStep = (state: VetoState): VetoStep | undefined => {
+    return state.vetoSequence[state.currentStep];
+};
+
+/**
+ * Get the team whose turn it is (null once the veto is complete)
+ */
+export const getCurrentTurn = (state: VetoState): TeamType | null => {
+    return getCurrentStep(state)?.team ?? null;
+};
+
+export const isVetoComplete = (state: VetoState): boolean => {
+    return state.currentStep >= state.vetoSequence.length;
+};
+
+/**
+ * Get the picked map the next `side` step applies to
+ */
+export const getMapAwaitingSide = (state: VetoState): VetoState['pickedMaps'][0] | undefined => {
+    return state.pickedMaps.find(map => !map.side);
+};
+
+/**
+ * Get the deadline of the current step if it started at `startedAt` (null when untimed)
+ */
+export const getTurnDeadline = (state: VetoState, startedAt: Date): Date | null => {
+    const timeLimitSeconds = getCurrentStep(state)?.timeLimitSeconds;
+    if (!timeLimitSeconds) return null;
+
+    return new Date(startedAt.getTime() + timeLimitSeconds * 1000);
+};
+
+/**
+ * Build the fallback action for the current step: a random ban or pick from the
+ * available maps, or a random side. `random` returns a number in [0, 1).
+ */
+export const getTimeoutAction = (
+    state: VetoState,
+    random: () => number,
+    timestamp: string
+): VetoEngineAction | null => {
+    const step = getCurrentStep(state);
+    if (!step) return null;
+
+    if (step.action === 'side') {
+        if (!getMapAwaitingSide(state)) return null;
+
+        return {
+            type: 'side',
+            team: step.team,
+            side: random() < 0.5 ? 'attack' : 'defense',
+            timestamp,
+        };
+    }
+
+    const mapId = state.availableMaps[Math.floor(random() * state.availableMaps.length)];
+    if (!mapId) return null;
+
+    return { type: step.action, team: step.team, mapId, timestamp };
+};
+
+/**
+ * Apply a single action to a veto state.
+ *
+ * Returns the next state, or an error describing why the action is not allowed.
+ * The input state is never mutated.
+ */
+export const applyAction = (state: VetoState, action: VetoEngineAction): VetoEngineResult => {
+    const step = getCurrentStep(state);
+
+    if (!step) {
+        return fail('VETO_COMPLETE', 'Veto process is already complete');
+    }
+
+    if (step.team !== action.team) {
+        return fail('NOT_YOUR_TURN', 'Not your turn');
+    }
+
+    if (step.action !== action.type) {
+        return fail('WRONG_ACTION', `Expected ${step.action} action, got ${action.type}`);
+    }
+
+    const recordedAction: VetoAction = {
+        type: action.type,
+        mapId: action.mapId,
+        side: action.side,
+        team: action.team,
+        timestamp: action.timestamp,
+    };
+
+    const vetoSequence = state.vetoSequence.map((sequenceStep, index) =>
+        index === state.currentStep ? { ...sequenceStep, completed: true } : sequenceStep
+    );
+
+    if (action.type === 'side') {
+        if (!action.side) {
+            return fail('SIDE_REQUIRED', 'Side selection is required for side action');
+        }
+
+        const mapAwaitingSide = getMapAwaitingSide(state);
+        if (!mapAwaitingSide) {
+            return fail('NO_MAP_AWAITING_SIDE', 'No picked map found that needs side assignment');
+        }
+
+        if (action.mapId && action.mapId !== mapAwaitingSide.mapId) {
+            return fail('MAP_UNAVAILABLE', `Side must be chosen for ${mapAwaitingSide.mapId} first`);
+        }
+
+        const side = action.side;
+        recordedAction.mapId = mapAwaitingSide.mapId;
+
+        return {
+            ok: true,
+            state: {
+                ...state,
+                actions: [...state.actions, recordedAction],
+                pickedMaps: state.pickedMaps.map(map =>
+                    map === mapAwaitingSide
+                        ? { ...map, side, ...determineTeamRoles(action.team, side) }
+                        : map
+                ),
+                vetoSequence,
+                currentStep: state.currentStep + 1,
+            },
+        };
+    }
+
+    if (!action.mapId) {
+        return fail('MAP_REQUIRED', 'Map ID is required for ban/pick actions');
+    }
+
+    if (!state.availableMaps.includes(action.mapId)) {
+        return fail('MAP_UNAVAILABLE', 'Map is not available for selection');
+    }
+
+    if (action.side) {
+        return fail('SIDE_NOT_ALLOWED', 'Sides are chosen in a separate side step');
+    }
+
+    const mapId = action.mapId;
+
+    return {
+        ok: true,
+        state: {
+            ...state,
+            actions: [...state.actions, recordedAction],
+            availableMaps: state.availableMaps.filter(map => map !== mapId),
+            bannedMaps: action.type === 'ban' ? [...state.bannedMaps, mapId] : state.bannedMaps,
+            pickedMaps: action.type === 'pick'
+                ? [...state.pickedMaps, { mapId, pickedBy: action.team }]
+                : state.pickedMaps,
+            vetoSequence,
+            currentStep: state.currentStep + 1,
+        },
+    };
+};
+
+/**
+ * Roll back the most recent action by replaying every earlier one from the start.
+ *
+ * `maps` is the room's original map pool, so map order is restored exactly.
+ */
+export const undoLastAction = (state: VetoState, maps: string[]): VetoEngineResult => {
+    if (state.actions.length === 0) {
+        return fail('NOTHING_TO_UNDO', 'There is no veto action to undo');
+    }
+
+    const vetoSequence = state.vetoSequence.map(step => ({ ...step, completed: false }));
+    let replayed = createInitialVetoState(maps, vetoSequence);
+
+    for (const action of state.actions.slice(0, -1)) {
+        const result = applyAction(replayed, action);
+        if (!result.ok) {
+            return result;
+        }
+        replayed = result.state;
+    }
+
+    return { ok: true, state: replayed };
+};
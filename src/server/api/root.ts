@@ -1,5 +1,8 @@
+import { analyticsRouter } from "~/server/api/routers/analytics";
+import { organizerRouter } from "~/server/api/routers/organizer";
 import { postRouter } from "~/server/api/routers/post";
 import { roomRouter } from "~/server/api/routers/room";
+import { tournamentRouter } from "~/server/api/routers/tournament";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -8,8 +11,11 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
+  analytics: analyticsRouter,
+  organizer: organizerRouter,
   post: postRouter,
   room: roomRouter,
+  tournament: tournamentRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, organizerProcedure, type RateLimitMeta } from "~/server/api/trpc";
+import { computeMapStats, computeTeamTendencies, type MapStats, type TeamTendency } from "~/lib/veto-analytics";
+import { loadCompletedVetoes } from "~/server/veto-analytics";
+
+// Each query scans the steps of up to a few thousand completed vetoes
+const ANALYTICS_RATE_LIMIT: RateLimitMeta = { by: 'user', windowMs: 60 * 1000, maxRequests: 30 };
+
+const filtersSchema = z.object({
+    from: z.date().optional(),
+    to: z.date().optional(),
+    roundType: z.enum(['bo1', 'bo3', 'bo5']).optional(),
+    presetId: z.string().optional(),
+    tournamentId: z.string().optional(),
+});
+
+export const analyticsRouter = createTRPCRouter({
+    mapStats: organizerProcedure
+        .meta({ rateLimit: ANALYTICS_RATE_LIMIT })
+        .input(filtersSchema)
+        .query(async ({ ctx, input }): Promise<{ vetoCount: number; maps: MapStats[] }> => {
+            const vetoes = await loadCompletedVetoes(ctx.db, input);
+
+            return { vetoCount: vetoes.length, maps: computeMapStats(vetoes) };
+        }),
+
+    // Tendencies only mean something for named teams, so this always covers one tournament
+    teamTendencies: organizerProcedure
+        .meta({ rateLimit: ANALYTICS_RATE_LIMIT })
+        .input(filtersSchema.extend({ tournamentId: z.string() }))
+        .query(async ({ ctx, input }): Promise<Array<TeamTendency & { name: string }>> => {
+            const tournament = await ctx.db.tournament.findUnique({
+                where: { id: input.tournamentId },
+                include: { teams: true },
+            });
+
+            if (!tournament) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Tournament not found' });
+            }
+
+            const names = new Map(tournament.teams.map(team => [team.id, team.name]));
+            const vetoes = await loadCompletedVetoes(ctx.db, input);
+
+            // Teams removed from the tournament since are left out
+            return computeTeamTendencies(vetoes).flatMap(tendency => {
+                const name = names.get(tendency.teamId);
+                return name ? [{ ...tendency, name }] : [];
+            });
+        }),
+});
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, organizerProcedure, publicProcedure } from "~/server/api/trpc";
+import { generateAdminToken, hashAdminToken } from "~/lib/admin-auth";
+
+// Users are referenced by their Discord ID, since that is what people can share with each other
+const discordUserSchema = z.object({
+    discordId: z.string().regex(/^\d{17,20}$/, 'Invalid Discord ID'),
+});
+
+const findUserByDiscordId = async (db: PrismaClient, discordId: string) => {
+    const account = await db.account.findUnique({
+        where: {
+            provider_providerAccountId: {
+                provider: 'discord',
+                providerAccountId: discordId,
+            },
+        },
+        select: { userId: true },
+    });
+
+    if (!account) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'No user with this Discord ID has signed in yet',
+        });
+    }
+
+    return account.userId;
+};
+
+export const organizerRouter = createTRPCRouter({
+    // Whether the current visitor is an organizer, for showing admin UI
+    me: publicProcedure
+        .query(async ({ ctx }) => {
+            const userId = ctx.session?.user?.id;
+            if (!userId) {
+                return { isOrganizer: false };
+            }
+
+            const user = await ctx.db.user.findUnique({
+                where: { id: userId },
+                select: { organizer: true },
+            });
+
+            return { isOrganizer: user?.organizer ?? false };
+        }),
+
+    list: organizerProcedure
+        .query(async ({ ctx }) => {
+            const users = await ctx.db.user.findMany({
+                where: { organizer: true },
+                select: {
+                    id: true,
+                    name: true,
+                    image: true,
+                    accounts: {
+                        where: { provider: 'discord' },
+                        select: { providerAccountId: true },
+                    },
+                },
+                orderBy: { name: 'asc' },
+            });
+
+            return users.map(user => ({
+                id: user.id,
+                name: user.name,
+                image: user.image,
+                discordId: user.accounts[0]?.providerAccountId ?? null,
+            }));
+        }),
+
+    grant: organizerProcedure
+        .input(discordUserSchema)
+        .mutation(async ({ ctx, input }) => {
+            const userId = await findUserByDiscordId(ctx.db, input.discordId);
+
+            await ctx.db.user.update({
+                where: { id: userId },
+                data: { organizer: true },
+            });
+
+            return { success: true };
+        }),
+
+    revoke: organizerProcedure
+        .input(discordUserSchema)
+        .mutation(async ({ ctx, input }) => {
+            const userId = await findUserByDiscordId(ctx.db, input.discordId);
+
+            // Prevent organizers from locking themselves out
+            if (userId === ctx.session.user.id) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'You cannot revoke your own organizer status',
+                });
+            }
+
+            await ctx.db.user.update({
+                where: { id: userId },
+                data: { organizer: false },
+            });
+
+            return { success: true };
+        }),
+
+    listApiTokens: organizerProcedure
+        .query(async ({ ctx }) => {
+            const tokens = await ctx.db.adminApiToken.findMany({
+                where: { revokedAt: null },
+                orderBy: { createdAt: 'desc' },
+                select: { id: true, name: true, createdAt: true, lastUsedAt: true },
+            });
+
+            return tokens.map(token => ({
+                id: token.id,
+                name: token.name,
+                createdAt: token.createdAt.toISOString(),
+                lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+            }));
+        }),
+
+    // The plain token is only returned here; afterwards only its hash exists
+    createApiToken: organizerProcedure
+        .input(z.object({
+            name: z.string().trim().min(1).max(50),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const token = generateAdminToken();
+
+            const apiToken = await ctx.db.adminApiToken.create({
+                data: {
+                    name: input.name,
+                    tokenHash: hashAdminToken(token),
+                    createdById: ctx.session.user.id,
+                },
+            });
+
+            return { id: apiToken.id, name: apiToken.name, token };
+        }),
+
+    revokeApiToken: organizerProcedure
+        .input(z.object({
+            id: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await ctx.db.adminApiToken.updateMany({
+                where: { id: input.id, revokedAt: null },
+                data: { revokedAt: new Date() },
+            });
+
+            return { success: true };
+        }),
+});
@@ -1,76 +1,80 @@
+import { on } from "events";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-import { EventEmitter } from "events";
+import {
+    createTRPCRouter,
+    organizerProcedure,
+    protectedProcedure,
+    publicProcedure,
+    rateLimitExceeded,
+    requireClientIpHash,
+    type RateLimitMeta,
+} from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
+import { type PrismaClient } from "@prisma/client";
 import {
     roomCreationLimiter,
     globalRoomCreationLimiter,
-    ipBasedLimiter
+    ipBasedLimiter,
+    failedTeamLookupLimiter,
 } from "~/lib/rate-limiter";
-import { RoomValidation, SecurityUtils } from "~/lib/room-validation";
-
-// Helper function to determine team roles based on side selection
-const determineTeamRoles = (pickedBy: 'team-a' | 'team-b', selectedSide: 'attack' | 'defense') => {
-    if (selectedSide === 'attack') {
-        return {
-            attackingTeam: pickedBy,
-            defendingTeam: pickedBy === 'team-a' ? 'team-b' as const : 'team-a' as const
-        };
-    } else {
-        return {
-            attackingTeam: pickedBy === 'team-a' ? 'team-b' as const : 'team-a' as const,
-            defendingTeam: pickedBy
-        };
-    }
-};
-
-// Global event emitter for room updates
-const roomEventEmitter = new EventEmitter();
+import { RoomValidation, RoomValidationError, SecurityUtils } from "~/lib/room-validation";
+import {
+    applyAction,
+    createInitialVetoState,
+    createVetoSequence,
+    getCurrentTurn,
+    getTimeoutAction,
+    getTurnDeadline,
+    isVetoComplete,
+    undoLastAction,
+    type VetoEngineAction,
+    type VetoEngineError,
+} from "~/lib/veto-engine";
+import {
+    findIdempotentResult,
+    getRoomEventsSince,
+    publishRoomEvent,
+    recordRoomEvent,
+    roomEventEmitter,
+    type RoomEventRecord,
+} from "~/server/room-events";
+import type { RoomRealtimeUpdate } from "~/types/realtime";
+import { VetoConflictError } from "~/lib/veto-conflict";
+import { getRoomPresence, recordHeartbeat, recordLeave } from "~/server/room-presence";
+import { createVetoRoom } from "~/server/veto-room";
+import { recordMatchVetoOutcome, reopenMatchVeto } from "~/server/tournament";
+import { getVetoEventAnalytics } from "~/server/veto-analytics";
+import { changeMapResult, toMapResultView, toMapResultsView, type MapResultChange } from "~/server/map-results";
+import { MAX_MAP_SCORE } from "~/lib/match-results";
+import type { VetoState, VetoStateView } from "~/types/veto";
+import type { OrganizerRoomData, RoomData, RoomStatus, RoomViewRole } from "~/types/room";
+
+// Turn time limits in seconds
+const turnTimeLimitSchema = z.number().int().min(10).max(600);
+
+// Per-procedure rate limits, enforced by the rate limit middleware in trpc.ts
+const TEAM_ACTION_RATE_LIMIT: RateLimitMeta = { by: 'room', windowMs: 60 * 1000, maxRequests: 30 };
+const ROOM_LOOKUP_RATE_LIMIT: RateLimitMeta = { by: 'ip', windowMs: 60 * 1000, maxRequests: 60 };
+// Every viewer loads these when a room opens and again when realtime falls behind; viewers can share one IP
+const ROOM_READ_RATE_LIMIT: RateLimitMeta = { by: 'ip', windowMs: 60 * 1000, maxRequests: 300 };
+const ROOM_MANAGEMENT_RATE_LIMIT: RateLimitMeta = { by: 'user', windowMs: 60 * 1000, maxRequests: 30 };
+// Every client asks once its countdown runs out, and a LAN full of viewers can share one IP
+const TURN_EXPIRY_RATE_LIMIT: RateLimitMeta = { by: 'ip', windowMs: 60 * 1000, maxRequests: 120 };
+// Every open tab beats, pings and reloads presence every 15 seconds, and a LAN full of viewers can share one IP
+const PRESENCE_RATE_LIMIT: RateLimitMeta = { by: 'ip', windowMs: 60 * 1000, maxRequests: 600 };
 
 const createRoomSchema = z.object({
     maps: z.array(z.string()).min(3).max(8),
     roundType: z.enum(['bo1', 'bo3', 'bo5']),
-    clientIp: z.string().optional(),
     customVetoSequence: z.array(z.object({
         team: z.enum(['team-a', 'team-b']),
         action: z.enum(['ban', 'pick', 'side']),
+        timeLimitSeconds: turnTimeLimitSchema.optional(),
     })).optional(),
+    turnTimeLimitSeconds: turnTimeLimitSchema.optional(),
+    timeoutFallback: z.enum(['random', 'none']).default('random'),
 });
 
-// Veto action types
-const VetoActionSchema = z.object({
-    type: z.enum(['ban', 'pick', 'side']),
-    mapId: z.string().optional(), // Optional for side actions when they're not associated with a specific map initially
-    side: z.enum(['attack', 'defense']).optional(), // Only for picks on Ranked/Demolition maps and side actions
-    team: z.enum(['team-a', 'team-b']),
-    timestamp: z.string(),
-});
-
-// Veto state structure
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const VetoStateSchema = z.object({
-    actions: z.array(VetoActionSchema),
-    availableMaps: z.array(z.string()),
-    pickedMaps: z.array(z.object({
-        mapId: z.string(),
-        pickedBy: z.enum(['team-a', 'team-b']),
-        side: z.enum(['attack', 'defense']).optional(),
-        attackingTeam: z.enum(['team-a', 'team-b']).optional(),
-        defendingTeam: z.enum(['team-a', 'team-b']).optional(),
-    })),
-    bannedMaps: z.array(z.string()),
-    vetoSequence: z.array(z.object({
-        team: z.enum(['team-a', 'team-b']),
-        action: z.enum(['ban', 'pick', 'side']),
-        completed: z.boolean(),
-    })),
-    currentStep: z.number(),
-});
-
-// TypeScript types
-type VetoAction = z.infer<typeof VetoActionSchema>;
-type VetoState = z.infer<typeof VetoStateSchema>;
-
 // Extended room type to include veto fields
 interface RoomWithVeto {
     id: string;
@@ -93,9 +97,398 @@ interface RoomWithVeto {
     currentTurn?: string | null;
     vetoStarted?: boolean;
     vetoCompleted?: boolean;
-    customVetoSequence?: Array<{ team: 'team-a' | 'team-b'; action: 'ban' | 'pick' | 'side' }> | null;
+    customVetoSequence?: Array<{ team: 'team-a' | 'team-b'; action: 'ban' | 'pick' | 'side'; timeLimitSeconds?: number }> | null;
+    presetId?: string | null;
+    createdById?: string | null;
+    turnTimeLimitSeconds?: number | null;
+    timeoutFallback?: string;
+    turnDeadline?: Date | null;
+    cancelledAt?: Date | null;
+    cancelReason?: string | null;
+    version: number;
 }
 
+// Build the view of a room for one role, leaving out every field that role may not see
+const toRoomView = (room: RoomWithVeto, role: RoomViewRole): RoomData => {
+    const base = {
+        id: room.masterRoomId,
+        masterRoomId: room.masterRoomId,
+        spectatorLink: room.spectatorLink,
+        createdAt: room.createdAt.toISOString(),
+        expiresAt: room.expiresAt.toISOString(),
+        maps: room.maps,
+        roundType: room.roundType,
+        teamAReady: room.teamAReady,
+        teamBReady: room.teamBReady,
+        teamAName: room.teamAName,
+        teamBName: room.teamBName,
+        status: room.status as RoomStatus,
+        vetoStarted: room.vetoStarted ?? false,
+        vetoCompleted: room.vetoCompleted ?? false,
+        currentTurn: room.currentTurn ?? null,
+        vetoState: room.vetoState ?? null,
+        cancelReason: room.cancelReason ?? null,
+        version: room.version,
+    };
+
+    switch (role) {
+        case 'organizer':
+            return {
+                ...base,
+                role,
+                teamAId: room.teamAId,
+                teamBId: room.teamBId,
+                teamALink: room.teamALink,
+                teamBLink: room.teamBLink,
+            };
+        case 'team-a':
+            return { ...base, role, teamId: room.teamAId, teamLink: room.teamALink };
+        case 'team-b':
+            return { ...base, role, teamId: room.teamBId, teamLink: room.teamBLink };
+        default:
+            return { ...base, role: 'spectator' };
+    }
+};
+
+// Load a room owned by the user; rooms owned by someone else are reported as missing
+const getOwnedRoom = async (db: PrismaClient, masterRoomId: string, userId: string) => {
+    const room = await db.room.findUnique({
+        where: { masterRoomId },
+    }) as RoomWithVeto | null;
+
+    if (room?.createdById !== userId) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+    }
+
+    return room;
+};
+
+const isOrganizer = async (db: PrismaClient, userId: string) => {
+    const user = await db.user.findUnique({
+        where: { id: userId },
+        select: { organizer: true },
+    });
+
+    return user?.organizer ?? false;
+};
+
+// Room creators and organizers may manage a room (e.g. undo veto steps)
+const canManageRoom = async (db: PrismaClient, room: { createdById?: string | null }, userId?: string) => {
+    if (!userId) {
+        return false;
+    }
+
+    if (room.createdById === userId) {
+        return true;
+    }
+
+    return isOrganizer(db, userId);
+};
+
+// Cancelled rooms are frozen: no team or veto changes are accepted
+const assertNotCancelled = (room: { status: string }) => {
+    if (room.status === 'cancelled') {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Room has been cancelled',
+        });
+    }
+};
+
+// Map veto engine errors onto tRPC errors
+const toTRPCError = (error: VetoEngineError) => {
+    return new TRPCError({
+        code: error.code === 'NOT_YOUR_TURN' ? 'FORBIDDEN' : 'BAD_REQUEST',
+        message: error.message,
+    });
+};
+
+// Client-generated key that makes a team mutation safe to retry
+const idempotencyKeySchema = z.string().min(8).max(100).optional();
+
+// Run a team mutation at most once per idempotency key; a replay gets the original result back
+const withIdempotency = async <T>(roomId: string, idempotencyKey: string | undefined, run: () => Promise<T>): Promise<T> => {
+    if (!idempotencyKey) {
+        return run();
+    }
+
+    const stored = await findIdempotentResult(roomId, idempotencyKey);
+    if (stored !== null) {
+        return stored as T;
+    }
+
+    try {
+        return await run();
+    } catch (error) {
+        // A concurrent request with the same key may have committed first
+        const raced = await findIdempotentResult(roomId, idempotencyKey);
+        if (raced !== null) {
+            return raced as T;
+        }
+        throw error;
+    }
+};
+
+const mapScoreSchema = {
+    mapIndex: z.number().int().min(0).max(4),
+    teamAScore: z.number().int().min(0).max(MAX_MAP_SCORE),
+    teamBScore: z.number().int().min(0).max(MAX_MAP_SCORE),
+};
+
+// Room links are the only thing guarding a room, so every lookup by one goes through here.
+// Once an IP has guessed wrong too often, it gets no answers at all, right or wrong.
+const findRoomByLink = async <T>(
+    ctx: { clientIpHash: string | null },
+    find: () => Promise<T | null>
+): Promise<T | null> => {
+    const lookupKey = requireClientIpHash(ctx);
+    const lookupLimit = await failedTeamLookupLimiter.peek(lookupKey);
+
+    if (!lookupLimit.allowed) {
+        throw rateLimitExceeded(
+            lookupLimit,
+            `Too many invalid room links. Try again in ${Math.ceil((lookupLimit.resetTime - Date.now()) / 60000)} minutes.`
+        );
+    }
+
+    const room = await find();
+
+    if (!room) {
+        await failedTeamLookupLimiter.checkLimit(lookupKey);
+    }
+
+    return room;
+};
+
+// Matches a room by any of its links
+const anyRoomLink = (roomId: string) => ({
+    OR: [
+        { masterRoomId: roomId },
+        { teamAId: roomId },
+        { teamBId: roomId },
+    ],
+});
+
+// Matches a room by either team link
+const teamLink = (teamId: string) => ({
+    OR: [
+        { teamAId: teamId },
+        { teamBId: teamId },
+    ],
+});
+
+// Captains act on map results through their team link
+const changeMapResultAsTeam = async (
+    ctx: { db: PrismaClient; clientIpHash: string | null; limitRoom: (roomId: string) => Promise<void> },
+    teamId: string,
+    mapIndex: number,
+    getChange: (team: 'team-a' | 'team-b') => MapResultChange,
+    idempotencyKey?: string
+) => {
+    const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({ where: teamLink(teamId) }));
+
+    if (!room) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+    }
+
+    await ctx.limitRoom(room.id);
+
+    return withIdempotency(room.id, idempotencyKey, () => {
+        const team = room.teamAId === teamId ? 'team-a' : 'team-b';
+        return changeMapResult(ctx.db, room, mapIndex, getChange(team), idempotencyKey);
+    });
+};
+
+// Clients send the room version their state was based on with every veto mutation
+const expectedVersionSchema = z.number().int().min(0).optional();
+
+const toVetoStateView = (room: RoomWithVeto): VetoStateView => ({
+    vetoStarted: room.vetoStarted ?? false,
+    vetoCompleted: room.vetoCompleted ?? false,
+    currentTurn: room.currentTurn ?? null,
+    vetoState: room.vetoState as VetoState | null,
+    turnDeadline: room.turnDeadline?.toISOString() ?? null,
+    serverTime: new Date().toISOString(),
+    version: room.version,
+});
+
+// Report a lost race together with the state that won it, so the client can re-render right away
+const throwVetoConflict = async (db: PrismaClient, roomId: string): Promise<never> => {
+    const freshRoom = await db.room.findUnique({
+        where: { id: roomId },
+    }) as RoomWithVeto | null;
+
+    if (!freshRoom) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+    }
+
+    throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'The veto changed before your action was applied',
+        cause: new VetoConflictError(toVetoStateView(freshRoom)),
+    });
+};
+
+const assertExpectedVersion = async (db: PrismaClient, room: RoomWithVeto, expectedVersion?: number) => {
+    if (expectedVersion !== undefined && expectedVersion !== room.version) {
+        await throwVetoConflict(db, room.id);
+    }
+};
+
+// Actor recorded for fallback actions applied when a turn times out
+const TURN_TIMER_ACTOR = 'turn-timer';
+
+// Who performed a veto action, recorded alongside each VetoEvent
+interface VetoActor {
+    clientId?: string;
+    userId?: string;
+    idempotencyKey?: string;
+}
+
+// What makeVetoAction and selectSideForMap return, and replay for a repeated idempotency key
+interface VetoActionResult {
+    success: true;
+    vetoState: VetoState;
+    currentTurn: string | null;
+    vetoCompleted: boolean;
+    version: number;
+}
+
+// Run an action through the veto engine, persist the resulting state and its history row together,
+// then publish the change to every client
+const commitVetoAction = async (
+    db: PrismaClient,
+    room: RoomWithVeto,
+    action: VetoEngineAction,
+    actor: VetoActor
+): Promise<VetoActionResult> => {
+    assertNotCancelled(room);
+
+    if (!room.vetoStarted || room.vetoCompleted || !room.vetoState) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Veto process is not active',
+        });
+    }
+
+    const stepIndex = room.vetoState.currentStep;
+    const result = applyAction(room.vetoState, action);
+    if (!result.ok) {
+        throw toTRPCError(result.error);
+    }
+
+    const vetoState = result.state;
+    const vetoCompleted = isVetoComplete(vetoState);
+    const currentTurn = getCurrentTurn(vetoState);
+
+    const recordedAction = vetoState.actions[vetoState.actions.length - 1]!;
+    const turnDeadline = getTurnDeadline(vetoState, new Date());
+
+    const version = room.version + 1;
+    const actionResult: VetoActionResult = { success: true, vetoState, currentTurn, vetoCompleted, version };
+
+    const update = await db.$transaction(async (tx) => {
+        // Only write if nothing changed since the room was read (e.g. the timer and a captain acting at once)
+        const updated = await tx.room.updateMany({
+            where: { id: room.id, version: room.version },
+            data: {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+                vetoState: vetoState as any,
+                currentTurn,
+                vetoCompleted,
+                status: vetoCompleted ? 'completed' : 'active',
+                turnDeadline,
+                version,
+            },
+        });
+
+        if (updated.count === 0) {
+            return null;
+        }
+
+        // A tournament match keeps its own copy of the outcome
+        if (vetoCompleted) {
+            await recordMatchVetoOutcome(tx, room.id, vetoState);
+        }
+
+        await tx.vetoEvent.create({
+            data: {
+                roomId: room.id,
+                masterRoomId: room.masterRoomId,
+                roundType: room.roundType,
+                maps: room.maps,
+                ...await getVetoEventAnalytics(tx, room, recordedAction.team),
+                stepIndex,
+                team: recordedAction.team,
+                action: recordedAction.type,
+                mapId: recordedAction.mapId,
+                side: recordedAction.side,
+                actorClientId: actor.clientId,
+                actorUserId: actor.userId,
+                createdAt: new Date(recordedAction.timestamp),
+                completesVeto: vetoCompleted,
+            },
+        });
+
+        return recordRoomEvent(tx, room.id, {
+            type: recordedAction.type === 'side' ? 'side-selected' : 'veto-action',
+            room: room.masterRoomId,
+            version,
+            data: {
+                action: recordedAction,
+                vetoState,
+                currentTurn,
+                vetoCompleted,
+                turnDeadline: turnDeadline?.toISOString() ?? null,
+                timedOut: actor.clientId === TURN_TIMER_ACTOR,
+            },
+            idempotencyKey: actor.idempotencyKey,
+            result: actionResult,
+        });
+    });
+
+    if (!update) {
+        return throwVetoConflict(db, room.id);
+    }
+
+    await publishRoomEvent(update);
+
+    return actionResult;
+};
+
+// Apply the room's timeout fallback if the current turn's deadline has passed; returns the up-to-date room
+const enforceTurnDeadline = async (db: PrismaClient, room: RoomWithVeto): Promise<RoomWithVeto> => {
+    if (
+        !room.turnDeadline ||
+        room.turnDeadline > new Date() ||
+        room.timeoutFallback !== 'random' ||
+        !room.vetoState ||
+        room.vetoCompleted
+    ) {
+        return room;
+    }
+
+    const action = getTimeoutAction(room.vetoState, Math.random, room.turnDeadline.toISOString());
+    if (!action) {
+        return room;
+    }
+
+    try {
+        await commitVetoAction(db, room, action, { clientId: TURN_TIMER_ACTOR });
+    } catch (error) {
+        // Another request already advanced this step
+        if (!(error instanceof TRPCError && error.code === 'CONFLICT')) {
+            throw error;
+        }
+    }
+
+    const updatedRoom = await db.room.findUnique({
+        where: { id: room.id },
+    }) as RoomWithVeto | null;
+
+    return updatedRoom ?? room;
+};
+
 // Helper function to get human-readable team role information for a picked map
 export const getTeamRolesForMap = (
     pickedMap: {
@@ -142,46 +535,46 @@ export const roomRouter = createTRPCRouter({
                 maps: input.maps,
                 roundType: input.roundType,
                 expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+                customVetoSequence: input.customVetoSequence,
             });
 
             if (!validation.isValid) {
+                const cause = new RoomValidationError(validation.issues);
                 throw new TRPCError({
                     code: 'BAD_REQUEST',
-                    message: `Validation failed: ${validation.errors.join(', ')}`,
+                    message: cause.message,
+                    cause,
                 });
             }
 
             // 2. Get user identifier for rate limiting
             const userId = ctx.session?.user?.id;
-            const clientIp = input.clientIp ?? 'unknown';
-            const userIdentifier = SecurityUtils.getUserIdentifier(userId, clientIp);
+            const clientIpHash = requireClientIpHash(ctx);
+            const userIdentifier = SecurityUtils.getUserIdentifier(userId, clientIpHash);
 
             // 3. Check rate limits
             const [userLimit, globalLimit, ipLimit] = await Promise.all([
                 roomCreationLimiter.checkLimit(userIdentifier),
                 globalRoomCreationLimiter.checkLimit('global'),
-                ipBasedLimiter.checkLimit(clientIp),
+                ipBasedLimiter.checkLimit(clientIpHash),
             ]);
 
             if (!userLimit.allowed) {
-                throw new TRPCError({
-                    code: 'TOO_MANY_REQUESTS',
-                    message: `Rate limit exceeded. Try again in ${Math.ceil((userLimit.resetTime - Date.now()) / 60000)} minutes.`,
-                });
+                throw rateLimitExceeded(
+                    userLimit,
+                    `Rate limit exceeded. Try again in ${Math.ceil((userLimit.resetTime - Date.now()) / 60000)} minutes.`
+                );
             }
 
             if (!globalLimit.allowed) {
-                throw new TRPCError({
-                    code: 'TOO_MANY_REQUESTS',
-                    message: 'Service is currently busy. Please try again later.',
-                });
+                throw rateLimitExceeded(globalLimit, 'Service is currently busy. Please try again later.');
             }
 
             if (!ipLimit.allowed) {
-                throw new TRPCError({
-                    code: 'TOO_MANY_REQUESTS',
-                    message: `Too many requests from your IP. Try again in ${Math.ceil((ipLimit.resetTime - Date.now()) / 60000)} minutes.`,
-                });
+                throw rateLimitExceeded(
+                    ipLimit,
+                    `Too many requests from your IP. Try again in ${Math.ceil((ipLimit.resetTime - Date.now()) / 60000)} minutes.`
+                );
             }
 
             // 4. Clean up expired rooms before creating new one
@@ -197,6 +590,7 @@ export const roomRouter = createTRPCRouter({
             if (userId) {
                 const userActiveRooms = await ctx.db.room.count({
                     where: {
+                        createdById: userId,
                         createdAt: {
                             gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
                         },
@@ -214,386 +608,337 @@ export const roomRouter = createTRPCRouter({
                 }
             }
 
-            // 6. Generate secure room data
-            const baseUrl = "https://strinova-veto.vercel.app";
-            const roomLinks = SecurityUtils.generateRoomLinks(baseUrl);
-            const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-            // 7. Create the room
-            const roomData = {
-                masterRoomId: roomLinks.masterRoomId,
-                teamAId: roomLinks.teamAId,
-                teamBId: roomLinks.teamBId,
-                teamALink: roomLinks.teamALink,
-                teamBLink: roomLinks.teamBLink,
-                spectatorLink: roomLinks.spectatorLink,
-                expiresAt,
+            // 6. Create the room with fresh links
+            const room = await createVetoRoom(ctx.db, {
                 maps: input.maps,
                 roundType: input.roundType,
-                teamAReady: false,
-                teamBReady: false,
-                status: "waiting",
-                customVetoSequence: input.customVetoSequence ?? undefined,
+                customVetoSequence: input.customVetoSequence,
+                turnTimeLimitSeconds: input.turnTimeLimitSeconds,
+                timeoutFallback: input.timeoutFallback,
+                createdById: userId,
+            }) as RoomWithVeto;
+
+            // The creator manages the room, so they get every link
+            return toRoomView(room, 'organizer');
+        }),
+
+    listMine: protectedProcedure
+        .input(z.object({
+            page: z.number().int().min(1).default(1),
+            pageSize: z.number().int().min(1).max(50).default(10),
+            status: z.array(z.enum(["waiting", "active", "completed", "expired", "cancelled"])).optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const where = {
+                createdById: ctx.session.user.id,
+                ...(input.status?.length ? { status: { in: input.status } } : {}),
             };
 
-            try {
-                await ctx.db.room.create({ data: roomData });
-
-                // Return the created room data
-                return {
-                    id: roomLinks.masterRoomId,
-                    teamAId: roomLinks.teamAId,
-                    teamBId: roomLinks.teamBId,
-                    teamALink: roomLinks.teamALink,
-                    teamBLink: roomLinks.teamBLink,
-                    spectatorLink: roomLinks.spectatorLink,
-                    createdAt: new Date().toISOString(),
-                    expiresAt: expiresAt.toISOString(),
-                    maps: input.maps,
-                    roundType: input.roundType,
-                    teamAReady: false,
-                    teamBReady: false,
-                    status: "waiting" as const,
-                };
-            } catch (error) {
-                // If database creation fails, we should handle potential race conditions
-                if (error instanceof Error && error.message.includes('unique constraint')) {
-                    throw new TRPCError({
-                        code: 'INTERNAL_SERVER_ERROR',
-                        message: 'Room creation failed due to ID collision. Please try again.',
-                    });
-                }
+            const [rooms, total] = await Promise.all([
+                ctx.db.room.findMany({
+                    where,
+                    orderBy: { createdAt: 'desc' },
+                    skip: (input.page - 1) * input.pageSize,
+                    take: input.pageSize,
+                }),
+                ctx.db.room.count({ where }),
+            ]);
+
+            return {
+                rooms: (rooms as RoomWithVeto[]).map(room => toRoomView(room, 'organizer') as OrganizerRoomData),
+                total,
+                page: input.page,
+                pageSize: input.pageSize,
+                totalPages: Math.max(1, Math.ceil(total / input.pageSize)),
+            };
+        }),
+
+    extend: protectedProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+            hours: z.number().int().min(1).max(24).default(24),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await getOwnedRoom(ctx.db, input.roomId, ctx.session.user.id);
+
+            // Rooms are never valid for more than 24 hours from now
+            const now = Date.now();
+            const maxExpiry = now + 24 * 60 * 60 * 1000;
+            const expiresAt = new Date(Math.min(
+                Math.max(room.expiresAt.getTime(), now) + input.hours * 60 * 60 * 1000,
+                maxExpiry
+            ));
+
+            const updatedRoom = await ctx.db.room.update({
+                where: { id: room.id },
+                data: {
+                    expiresAt,
+                    ...(room.status === 'expired' ? {
+                        status: room.vetoCompleted ? 'completed' : room.vetoStarted ? 'active' : 'waiting',
+                    } : {}),
+                },
+            }) as RoomWithVeto;
+
+            return toRoomView(updatedRoom, 'organizer');
+        }),
+
+    delete: protectedProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await getOwnedRoom(ctx.db, input.roomId, ctx.session.user.id);
+
+            await ctx.db.room.delete({ where: { id: room.id } });
+
+            // Same as hardDelete: the event log went with the room, so this is only delivered
+            await publishRoomEvent({
+                type: 'room-deleted',
+                room: room.masterRoomId,
+                version: room.version + 1,
+                timestamp: Date.now(),
+            });
+
+            return { success: true };
+        }),
+
+    cancel: protectedProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+            reason: z.string().trim().max(200).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.roomId },
+            }) as RoomWithVeto | null;
+
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+            }
+
+            if (!(await canManageRoom(ctx.db, room, ctx.session.user.id))) {
                 throw new TRPCError({
-                    code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Failed to create room. Please try again.',
+                    code: 'FORBIDDEN',
+                    message: 'Only the room creator or an organizer can cancel this room',
+                });
+            }
+
+            assertNotCancelled(room);
+
+            const { updatedRoom, update } = await ctx.db.$transaction(async (tx) => {
+                const updatedRoom = await tx.room.update({
+                    where: { id: room.id },
+                    data: {
+                        status: 'cancelled',
+                        cancelledAt: new Date(),
+                        cancelReason: input.reason ?? null,
+                        turnDeadline: null,
+                        version: { increment: 1 },
+                    },
+                }) as RoomWithVeto;
+
+                const update = await recordRoomEvent(tx, room.id, {
+                    type: 'room-cancelled',
+                    room: room.masterRoomId,
+                    version: updatedRoom.version,
+                    data: { reason: updatedRoom.cancelReason },
                 });
+
+                return { updatedRoom, update };
+            });
+
+            await publishRoomEvent(update);
+
+            return toRoomView(updatedRoom, 'organizer');
+        }),
+
+    // Organizers can remove any room outright; its veto events stay behind for analytics
+    hardDelete: organizerProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.roomId },
+                select: { id: true, masterRoomId: true, version: true },
+            });
+
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
+
+            await ctx.db.room.delete({ where: { id: room.id } });
+
+            // The room's event log is gone with it, so this event is only delivered, never stored
+            await publishRoomEvent({
+                type: 'room-deleted',
+                room: room.masterRoomId,
+                version: room.version + 1,
+                timestamp: Date.now(),
+            });
+
+            return { success: true };
         }),
 
     getByMasterRoomId: publicProcedure
+        .meta({ rateLimit: ROOM_LOOKUP_RATE_LIMIT })
         .input(z.object({ masterRoomId: z.string() }))
         .query(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findUnique({
-                where: { masterRoomId: input.masterRoomId },
-            }) as RoomWithVeto | null;
+            // Pages try this first for any link, so a team link is found here too instead of counting as a miss
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: anyRoomLink(input.masterRoomId),
+            })) as RoomWithVeto | null;
 
-            if (!room) return null;
+            if (room?.masterRoomId !== input.masterRoomId) return null;
 
-            return {
-                id: room.masterRoomId,
-                teamAId: room.teamAId,
-                teamBId: room.teamBId,
-                teamALink: room.teamALink,
-                teamBLink: room.teamBLink,
-                spectatorLink: room.spectatorLink,
-                createdAt: room.createdAt.toISOString(),
-                expiresAt: room.expiresAt.toISOString(),
-                maps: room.maps,
-                roundType: room.roundType,
-                teamAReady: room.teamAReady,
-                teamBReady: room.teamBReady,
-                teamAName: room.teamAName,
-                teamBName: room.teamBName,
-                status: room.status as "waiting" | "active" | "completed" | "expired",
-                vetoStarted: room.vetoStarted ?? false,
-                vetoCompleted: room.vetoCompleted ?? false,
-                currentTurn: room.currentTurn,
-                vetoState: room.vetoState as VetoState | null,
-            };
+            const isManager = await canManageRoom(ctx.db, room, ctx.session?.user?.id);
+
+            return toRoomView(room, isManager ? 'organizer' : 'spectator');
         }),
 
     getByTeamId: publicProcedure
+        .meta({ rateLimit: ROOM_LOOKUP_RATE_LIMIT })
         .input(z.object({ teamId: z.string() }))
         .query(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findFirst({
-                where: {
-                    OR: [
-                        { teamAId: input.teamId },
-                        { teamBId: input.teamId },
-                    ],
-                },
-            }) as RoomWithVeto | null;
-
-            if (!room) return null;
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: teamLink(input.teamId),
+            })) as RoomWithVeto | null;
 
-            const teamRole = room.teamAId === input.teamId ? ("team-a" as const) : ("team-b" as const);
+            if (!room) {
+                return null;
+            }
 
-            return {
-                id: room.masterRoomId,
-                teamAId: room.teamAId,
-                teamBId: room.teamBId,
-                teamALink: room.teamALink,
-                teamBLink: room.teamBLink,
-                spectatorLink: room.spectatorLink,
-                createdAt: room.createdAt.toISOString(),
-                expiresAt: room.expiresAt.toISOString(),
-                maps: room.maps,
-                roundType: room.roundType,
-                teamAReady: room.teamAReady,
-                teamBReady: room.teamBReady,
-                teamAName: room.teamAName,
-                teamBName: room.teamBName,
-                status: room.status as "waiting" | "active" | "completed" | "expired",
-                masterRoomId: room.masterRoomId,
-                teamRole: teamRole,
-                vetoStarted: room.vetoStarted ?? false,
-                vetoCompleted: room.vetoCompleted ?? false,
-                currentTurn: room.currentTurn,
-                vetoState: room.vetoState as VetoState | null,
-            };
+            return toRoomView(room, room.teamAId === input.teamId ? 'team-a' : 'team-b');
         }),
 
     updateTeamReady: publicProcedure
+        .meta({ rateLimit: TEAM_ACTION_RATE_LIMIT })
         .input(z.object({
             teamId: z.string(),
             ready: z.boolean(),
+            idempotencyKey: idempotencyKeySchema,
         }))
         .mutation(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findFirst({
-                where: {
-                    OR: [
-                        { teamAId: input.teamId },
-                        { teamBId: input.teamId },
-                    ],
-                },
-            }) as RoomWithVeto | null;
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: teamLink(input.teamId),
+            })) as RoomWithVeto | null;
 
             if (!room) {
-                throw new Error("Room not found");
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
 
-            const isTeamA = room.teamAId === input.teamId;
+            await ctx.limitRoom(room.id);
 
-            // Prevent unready if veto has started
-            if (!input.ready && room.vetoStarted) {
-                throw new Error("Cannot mark as unready after veto process has started");
-            }
+            return withIdempotency(room.id, input.idempotencyKey, async () => {
+                assertNotCancelled(room);
 
-            // If team is trying to mark ready, ensure they have set a team name
-            if (input.ready) {
-                const teamName = isTeamA ? room.teamAName : room.teamBName;
-                if (!teamName || teamName.trim() === "") {
-                    throw new Error("Team must set a name before marking ready");
-                }
-            }
+                const isTeamA = room.teamAId === input.teamId;
 
-            const updateData = isTeamA
-                ? { teamAReady: input.ready }
-                : { teamBReady: input.ready };
+                // Prevent unready if veto has started
+                if (!input.ready && room.vetoStarted) {
+                    throw new Error("Cannot mark as unready after veto process has started");
+                }
 
-            const updatedRoom = await ctx.db.room.update({
-                where: { id: room.id },
-                data: updateData,
-            }) as RoomWithVeto;
+                // If team is trying to mark ready, ensure they have set a team name
+                if (input.ready) {
+                    const teamName = isTeamA ? room.teamAName : room.teamBName;
+                    if (!teamName || teamName.trim() === "") {
+                        throw new Error("Team must set a name before marking ready");
+                    }
+                }
 
-            // Check if both teams are now ready and auto-start veto
-            const shouldAutoStartVeto = updatedRoom.teamAReady &&
-                updatedRoom.teamBReady &&
-                !updatedRoom.vetoStarted;
-
-            let vetoState: VetoState | null = null;
-            let currentTurn: string | null = null;
-
-            if (shouldAutoStartVeto) {
-                // Use custom veto sequence if available, otherwise generate default sequence
-                let vetoSequence: Array<{ team: 'team-a' | 'team-b', action: 'ban' | 'pick' | 'side', completed: boolean }>;
-
-                if (updatedRoom.customVetoSequence && Array.isArray(updatedRoom.customVetoSequence)) {
-                    // Use the custom veto sequence from room creation
-                    vetoSequence = updatedRoom.customVetoSequence.map(step => ({
-                        ...step,
-                        completed: false
-                    }));
-                } else {
-                    // Generate default veto sequence
-                    const generateVetoSequence = (roundType: string, mapCount: number) => {
-                        const sequence: Array<{ team: 'team-a' | 'team-b', action: 'ban' | 'pick', completed: boolean }> = [];
-
-                        if (roundType === 'bo1') {
-                            // Bo1: Teams ban maps until 1 map is left, then Team A picks the final map and chooses side
-                            const bansNeeded = mapCount - 1;
-                            for (let i = 0; i < bansNeeded; i++) {
-                                sequence.push({
-                                    team: i % 2 === 0 ? 'team-a' : 'team-b',
-                                    action: 'ban',
-                                    completed: false,
-                                });
-                            }
-                            // Team A picks the final remaining map and chooses the side
-                            sequence.push({
-                                team: 'team-a',
-                                action: 'pick',
-                                completed: false,
-                            });
-                        } else if (roundType === 'bo3') {
-                            // Bo3: Need 3 maps total
-                            // Dynamic sequence based on map count
-                            if (mapCount < 3) {
-                                throw new Error("Bo3 requires at least 3 maps");
-                            }
-
-                            const mapsNeeded = 3;
-                            const bansNeeded = mapCount - mapsNeeded;
-
-                            if (bansNeeded === 0) {
-                                // Exactly 3 maps: Team A picks first, Team B picks second, Team A picks third
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-b', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                            } else if (bansNeeded === 1) {
-                                // 4 maps: Ban 1, then pick 3
-                                sequence.push({ team: 'team-a', action: 'ban', completed: false });
-                                sequence.push({ team: 'team-b', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-b', action: 'pick', completed: false });
-                            } else if (bansNeeded === 2) {
-                                // 5 maps: Ban 2, then pick 3
-                                sequence.push({ team: 'team-a', action: 'ban', completed: false });
-                                sequence.push({ team: 'team-b', action: 'ban', completed: false });
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-b', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                            } else {
-                                // More maps: Alternate bans until 3 maps left, then pick all 3
-                                for (let i = 0; i < bansNeeded; i++) {
-                                    sequence.push({
-                                        team: i % 2 === 0 ? 'team-a' : 'team-b',
-                                        action: 'ban',
-                                        completed: false,
-                                    });
-                                }
-                                // Pick the remaining 3 maps
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-b', action: 'pick', completed: false });
-                                sequence.push({ team: 'team-a', action: 'pick', completed: false });
-                            }
-                        } else if (roundType === 'bo5') {
-                            // Bo5: Need 5 maps total
-                            if (mapCount < 5) {
-                                throw new Error("Bo5 requires at least 5 maps");
-                            }
-
-                            const mapsNeeded = 5;
-                            const bansNeeded = mapCount - mapsNeeded;
-
-                            if (bansNeeded === 0) {
-                                // Exactly 5 maps: Pick all 5 alternating
-                                for (let i = 0; i < 5; i++) {
-                                    sequence.push({
-                                        team: i % 2 === 0 ? 'team-a' : 'team-b',
-                                        action: 'pick',
-                                        completed: false,
-                                    });
-                                }
-                            } else if (bansNeeded === 1) {
-                                // 6 maps: Ban 1, then pick 5
-                                sequence.push({ team: 'team-a', action: 'ban', completed: false });
-                                for (let i = 0; i < 5; i++) {
-                                    sequence.push({
-                                        team: i % 2 === 0 ? 'team-b' : 'team-a',
-                                        action: 'pick',
-                                        completed: false,
-                                    });
-                                }
-                            } else if (bansNeeded === 2) {
-                                // 7 maps: Ban 2, then pick 5
-                                sequence.push({ team: 'team-a', action: 'ban', completed: false });
-                                sequence.push({ team: 'team-b', action: 'ban', completed: false });
-                                for (let i = 0; i < 5; i++) {
-                                    sequence.push({
-                                        team: i % 2 === 0 ? 'team-a' : 'team-b',
-                                        action: 'pick',
-                                        completed: false,
-                                    });
-                                }
-                            } else {
-                                // More maps: Alternate bans until 5 maps left, then pick all 5
-                                for (let i = 0; i < bansNeeded; i++) {
-                                    sequence.push({
-                                        team: i % 2 === 0 ? 'team-a' : 'team-b',
-                                        action: 'ban',
-                                        completed: false,
-                                    });
-                                }
-                                // Pick the remaining 5 maps
-                                for (let i = 0; i < 5; i++) {
-                                    sequence.push({
-                                        team: i % 2 === 0 ? 'team-a' : 'team-b',
-                                        action: 'pick',
-                                        completed: false,
-                                    });
-                                }
-                            }
-                        }
-
-                        return sequence;
+                const updateData = isTeamA
+                    ? { teamAReady: input.ready }
+                    : { teamBReady: input.ready };
+
+                const { result, updates } = await ctx.db.$transaction(async (tx) => {
+                    let updatedRoom = await tx.room.update({
+                        where: { id: room.id },
+                        data: { ...updateData, version: { increment: 1 } },
+                    }) as RoomWithVeto;
+
+                    const readyEvent: RoomEventRecord = {
+                        type: 'team-ready-updated',
+                        room: updatedRoom.masterRoomId,
+                        version: updatedRoom.version,
+                        data: { teamAReady: updatedRoom.teamAReady, teamBReady: updatedRoom.teamBReady },
                     };
 
-                    vetoSequence = generateVetoSequence(updatedRoom.roundType, updatedRoom.maps.length);
-                }
-                const initialVetoState: VetoState = {
-                    actions: [],
-                    availableMaps: [...updatedRoom.maps],
-                    pickedMaps: [],
-                    bannedMaps: [],
-                    vetoSequence,
-                    currentStep: 0,
-                };
-
-                currentTurn = vetoSequence[0]?.team ?? 'team-a';
-                vetoState = initialVetoState;
-
-                // Update room with veto started
-                await ctx.db.room.update({
-                    where: { id: room.id },
-                    data: {
-                        vetoStarted: true,
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
-                        vetoState: initialVetoState as any,
-                        currentTurn,
-                        status: 'active',
-                    },
-                });
+                    // Check if both teams are now ready and auto-start veto
+                    const shouldAutoStartVeto = updatedRoom.teamAReady &&
+                        updatedRoom.teamBReady &&
+                        !updatedRoom.vetoStarted;
+
+                    if (!shouldAutoStartVeto) {
+                        const result = toRoomView(updatedRoom, isTeamA ? 'team-a' : 'team-b');
+                        const update = await recordRoomEvent(tx, room.id, {
+                            ...readyEvent,
+                            idempotencyKey: input.idempotencyKey,
+                            result,
+                        });
+
+                        return { result, updates: [update] };
+                    }
 
-                // Emit room update event
-                roomEventEmitter.emit(`room:${updatedRoom.masterRoomId}:update`, {
-                    type: 'veto-started',
-                    room: updatedRoom.masterRoomId,
+                    const readyUpdate = await recordRoomEvent(tx, room.id, readyEvent);
+
+                    // Use custom veto sequence if available, otherwise generate default sequence
+                    const vetoSequence = createVetoSequence(
+                        updatedRoom.roundType as 'bo1' | 'bo3' | 'bo5',
+                        updatedRoom.maps.length,
+                        updatedRoom.customVetoSequence,
+                        updatedRoom.turnTimeLimitSeconds
+                    );
+                    const initialVetoState = createInitialVetoState(updatedRoom.maps, vetoSequence);
+                    const currentTurn = getCurrentTurn(initialVetoState);
+                    const turnDeadline = getTurnDeadline(initialVetoState, new Date());
+
+                    // Update room with veto started
+                    updatedRoom = await tx.room.update({
+                        where: { id: room.id },
+                        data: {
+                            vetoStarted: true,
+                            // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+                            vetoState: initialVetoState as any,
+                            currentTurn,
+                            status: 'active',
+                            turnDeadline,
+                            version: { increment: 1 },
+                        },
+                    }) as RoomWithVeto;
+
+                    const result = toRoomView(updatedRoom, isTeamA ? 'team-a' : 'team-b');
+                    const startedUpdate = await recordRoomEvent(tx, room.id, {
+                        type: 'veto-started',
+                        room: updatedRoom.masterRoomId,
+                        version: updatedRoom.version,
+                        data: {
+                            vetoState: initialVetoState,
+                            currentTurn,
+                            vetoCompleted: false,
+                            turnDeadline: turnDeadline?.toISOString() ?? null,
+                        },
+                        idempotencyKey: input.idempotencyKey,
+                        result,
+                    });
+
+                    return { result, updates: [readyUpdate, startedUpdate] };
                 });
-            }
 
-            // Emit room update event
-            roomEventEmitter.emit(`room:${updatedRoom.masterRoomId}:update`, {
-                type: 'team-ready-updated',
-                room: updatedRoom.masterRoomId,
-            });
+                for (const update of updates) {
+                    await publishRoomEvent(update);
+                }
 
-            return {
-                id: updatedRoom.masterRoomId,
-                teamAId: updatedRoom.teamAId,
-                teamBId: updatedRoom.teamBId,
-                teamALink: updatedRoom.teamALink,
-                teamBLink: updatedRoom.teamBLink,
-                spectatorLink: updatedRoom.spectatorLink,
-                createdAt: updatedRoom.createdAt.toISOString(),
-                expiresAt: updatedRoom.expiresAt.toISOString(),
-                maps: updatedRoom.maps,
-                roundType: updatedRoom.roundType,
-                teamAReady: updatedRoom.teamAReady,
-                teamBReady: updatedRoom.teamBReady,
-                teamAName: updatedRoom.teamAName,
-                teamBName: updatedRoom.teamBName,
-                status: shouldAutoStartVeto ? 'active' : updatedRoom.status as "waiting" | "active" | "completed" | "expired",
-                masterRoomId: updatedRoom.masterRoomId,
-                teamRole: isTeamA ? ("team-a" as const) : ("team-b" as const),
-                vetoStarted: shouldAutoStartVeto || updatedRoom.vetoStarted,
-                vetoCompleted: updatedRoom.vetoCompleted ?? false,
-                currentTurn,
-                vetoState,
-            };
+                return result;
+            });
         }),
 
-    updateStatus: publicProcedure
+    updateStatus: organizerProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
         .input(z.object({
             masterRoomId: z.string(),
             status: z.enum(["waiting", "active", "completed", "expired"]),
@@ -602,26 +947,13 @@ export const roomRouter = createTRPCRouter({
             const updatedRoom = await ctx.db.room.update({
                 where: { masterRoomId: input.masterRoomId },
                 data: { status: input.status },
-            });
+            }) as RoomWithVeto;
 
-            return {
-                id: updatedRoom.masterRoomId,
-                teamAId: updatedRoom.teamAId,
-                teamBId: updatedRoom.teamBId,
-                teamALink: updatedRoom.teamALink,
-                teamBLink: updatedRoom.teamBLink,
-                spectatorLink: updatedRoom.spectatorLink,
-                createdAt: updatedRoom.createdAt.toISOString(),
-                expiresAt: updatedRoom.expiresAt.toISOString(),
-                maps: updatedRoom.maps,
-                roundType: updatedRoom.roundType,
-                teamAReady: updatedRoom.teamAReady,
-                teamBReady: updatedRoom.teamBReady,
-                status: updatedRoom.status as "waiting" | "active" | "completed" | "expired",
-            };
+            return toRoomView(updatedRoom, 'organizer');
         }),
 
-    deleteExpired: publicProcedure
+    deleteExpired: organizerProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
         .mutation(async ({ ctx }) => {
             const result = await ctx.db.room.deleteMany({
                 where: {
@@ -635,450 +967,560 @@ export const roomRouter = createTRPCRouter({
         }),
 
     updateTeamName: publicProcedure
+        .meta({ rateLimit: TEAM_ACTION_RATE_LIMIT })
         .input(z.object({
             teamId: z.string(),
             teamName: z.string().min(1).max(50),
+            idempotencyKey: idempotencyKeySchema,
         }))
         .mutation(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findFirst({
-                where: {
-                    OR: [
-                        { teamAId: input.teamId },
-                        { teamBId: input.teamId },
-                    ],
-                },
-            });
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: teamLink(input.teamId),
+            }));
 
             if (!room) {
-                throw new Error("Room not found");
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
 
-            const isTeamA = room.teamAId === input.teamId;
+            await ctx.limitRoom(room.id);
 
-            // Check if team is already ready - if so, don't allow name change
-            if ((isTeamA && room.teamAReady) || (!isTeamA && room.teamBReady)) {
-                throw new Error("Cannot change team name after marking ready");
-            }
+            return withIdempotency(room.id, input.idempotencyKey, async () => {
+                assertNotCancelled(room);
 
-            const updateData = isTeamA
-                ? { teamAName: input.teamName }
-                : { teamBName: input.teamName };
+                const isTeamA = room.teamAId === input.teamId;
 
-            const updatedRoom = await ctx.db.room.update({
-                where: { id: room.id },
-                data: updateData,
-            });
+                // Check if team is already ready - if so, don't allow name change
+                if ((isTeamA && room.teamAReady) || (!isTeamA && room.teamBReady)) {
+                    throw new Error("Cannot change team name after marking ready");
+                }
 
-            return {
-                id: updatedRoom.masterRoomId,
-                teamAId: updatedRoom.teamAId,
-                teamBId: updatedRoom.teamBId,
-                teamALink: updatedRoom.teamALink,
-                teamBLink: updatedRoom.teamBLink,
-                spectatorLink: updatedRoom.spectatorLink,
-                createdAt: updatedRoom.createdAt.toISOString(),
-                expiresAt: updatedRoom.expiresAt.toISOString(),
-                maps: updatedRoom.maps,
-                roundType: updatedRoom.roundType,
-                teamAReady: updatedRoom.teamAReady,
-                teamBReady: updatedRoom.teamBReady,
-                teamAName: updatedRoom.teamAName,
-                teamBName: updatedRoom.teamBName,
-                status: updatedRoom.status as "waiting" | "active" | "completed" | "expired",
-                masterRoomId: updatedRoom.masterRoomId,
-                teamRole: isTeamA ? ("team-a" as const) : ("team-b" as const),
-            };
+                const updateData = isTeamA
+                    ? { teamAName: input.teamName }
+                    : { teamBName: input.teamName };
+
+                const { result, update } = await ctx.db.$transaction(async (tx) => {
+                    const updatedRoom = await tx.room.update({
+                        where: { id: room.id },
+                        data: { ...updateData, version: { increment: 1 } },
+                    }) as RoomWithVeto;
+
+                    const result = toRoomView(updatedRoom, isTeamA ? 'team-a' : 'team-b');
+                    const update = await recordRoomEvent(tx, room.id, {
+                        type: 'team-name-updated',
+                        room: updatedRoom.masterRoomId,
+                        version: updatedRoom.version,
+                        data: { teamAName: updatedRoom.teamAName, teamBName: updatedRoom.teamBName },
+                        idempotencyKey: input.idempotencyKey,
+                        result,
+                    });
+
+                    return { result, update };
+                });
+
+                await publishRoomEvent(update);
+
+                return result;
+            });
         }),
 
     makeVetoAction: publicProcedure
+        .meta({ rateLimit: TEAM_ACTION_RATE_LIMIT })
         .input(z.object({
             teamId: z.string(),
             action: z.enum(['ban', 'pick', 'side']),
             mapId: z.string().optional(), // Optional for side actions
             side: z.enum(['attack', 'defense']).optional(),
+            clientId: z.string().max(100).optional(),
+            expectedVersion: expectedVersionSchema,
+            idempotencyKey: idempotencyKeySchema,
         }))
         .mutation(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findFirst({
-                where: {
-                    OR: [
-                        { teamAId: input.teamId },
-                        { teamBId: input.teamId },
-                    ],
-                },
-            }) as RoomWithVeto | null;
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: teamLink(input.teamId),
+            })) as RoomWithVeto | null;
 
             if (!room) {
-                throw new Error("Room not found");
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
 
-            if (!room.vetoStarted || room.vetoCompleted) {
-                throw new Error("Veto process is not active");
-            }
+            await ctx.limitRoom(room.id);
+
+            return withIdempotency(room.id, input.idempotencyKey, async () => {
+                const teamRole = room.teamAId === input.teamId ? 'team-a' : 'team-b';
+                const currentRoom = await enforceTurnDeadline(ctx.db, room);
+                await assertExpectedVersion(ctx.db, currentRoom, input.expectedVersion);
+
+                return commitVetoAction(ctx.db, currentRoom, {
+                    type: input.action,
+                    team: teamRole,
+                    mapId: input.mapId,
+                    side: input.side,
+                    timestamp: new Date().toISOString(),
+                }, {
+                    clientId: input.clientId,
+                    userId: ctx.session?.user?.id,
+                    idempotencyKey: input.idempotencyKey,
+                });
+            });
+        }),
 
-            const teamRole = room.teamAId === input.teamId ? 'team-a' : 'team-b';
+    getVetoState: publicProcedure
+        .meta({ rateLimit: ROOM_READ_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: anyRoomLink(input.roomId),
+            })) as RoomWithVeto | null;
 
-            if (room.currentTurn !== teamRole) {
-                throw new Error("Not your turn");
+            if (!room) {
+                return null;
             }
 
-            const vetoState = room.vetoState!;
-            if (!vetoState || !Array.isArray(vetoState.vetoSequence)) {
-                throw new Error("Invalid veto state");
-            }
+            return toVetoStateView(room);
+        }),
 
-            const currentStep = vetoState.currentStep ?? 0;
-            const currentSequenceItem = vetoState.vetoSequence[currentStep];
+    // Clients call this when the turn countdown runs out. Applying the timeout fallback is idempotent:
+    // only the first call after the deadline acts, and calls before it change nothing.
+    expireTurn: publicProcedure
+        .meta({ rateLimit: TURN_EXPIRY_RATE_LIMIT })
+        .input(z.object({
+            masterRoomId: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.masterRoomId },
+            }) as RoomWithVeto | null;
 
-            if (!currentSequenceItem || currentSequenceItem.action !== input.action) {
-                throw new Error(`Expected ${currentSequenceItem?.action} action, got ${input.action}`);
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
 
-            // Handle different action types
-            if (input.action === 'side') {
-                // Side selection action - requires a side choice and mapId (for the map to assign side to)
-                if (!input.side) {
-                    throw new Error("Side selection is required for side action");
-                }
-                if (!input.mapId) {
-                    throw new Error("Map ID is required for side action");
-                }
+            const currentRoom = room.status === 'cancelled' ? room : await enforceTurnDeadline(ctx.db, room);
 
-                // Find the picked map that needs side assignment
-                const pickedMapIndex = vetoState.pickedMaps.findIndex(
-                    map => map.mapId === input.mapId && !map.side
-                );
+            return toVetoStateView(currentRoom);
+        }),
 
-                if (pickedMapIndex === -1) {
-                    throw new Error("No picked map found that needs side assignment");
-                }
-            } else {
-                // Ban or pick actions - validate map is available
-                if (!input.mapId) {
-                    throw new Error("Map ID is required for ban/pick actions");
-                }
-                if (!vetoState.availableMaps.includes(input.mapId)) {
-                    throw new Error("Map is not available for selection");
-                }
+    canManage: publicProcedure
+        .meta({ rateLimit: ROOM_READ_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.roomId },
+                select: { createdById: true },
+            });
+
+            if (!room) {
+                return false;
             }
 
-            // For demolition maps, determine who should choose the side
-            const isDemolitionMap = true; // All maps are demolition maps in this game
-            const isLastMapInSequence = (currentStep + 1) >= vetoState.vetoSequence.length;
-            const isLastPickAction = input.action === 'pick' && isLastMapInSequence;
-
-            // For the last pick in the sequence, determine side selection based on round type
-            // For other picks, the opposing team chooses the side for fairness
-            if (input.action === 'pick' && isDemolitionMap && isLastPickAction) {
-                // Check if this is a Bo5 final map
-                const isBo5 = room.roundType === 'bo5';
-
-                if (isBo5) {
-                    // Bo5 final map: The team that DIDN'T pick the final map chooses the side
-                    // This should be handled by the opposing team, not the picking team
-                    if (input.side) {
-                        throw new Error("For Bo5 final map, the opposing team should choose the side");
-                    }
-                } else {
-                    // Bo1/Bo3 final map: The team making the pick selects the side
-                    if (!input.side) {
-                        throw new Error("Side selection is required for the final map pick");
-                    }
-                }
-            } else if (input.action === 'pick' && isDemolitionMap && !isLastPickAction) {
-                // For other demolition maps, opposing team chooses side
-                if (input.side) {
-                    throw new Error("Side selection should be done by the opposing team for fairness");
-                }
+            return canManageRoom(ctx.db, room, ctx.session?.user?.id);
+        }),
+
+    undoLastVetoAction: protectedProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+            expectedVersion: expectedVersionSchema,
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.roomId },
+            }) as RoomWithVeto | null;
+
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
 
-            // For non-demolition maps (if any), require side selection from the picking team
-            if (input.action === 'pick' && !isDemolitionMap && !input.side) {
-                throw new Error("Side selection is required for map picks");
+            if (!(await canManageRoom(ctx.db, room, ctx.session.user.id))) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message: 'Only the room creator or an organizer can undo veto steps',
+                });
             }
 
-            // Create the action
-            const newAction: VetoAction = {
-                type: input.action,
-                mapId: input.mapId,
-                side: input.side,
-                team: teamRole,
-                timestamp: new Date().toISOString(),
-            };
+            assertNotCancelled(room);
 
-            // Update veto state based on action type
-            let newVetoState: VetoState;
-
-            if (input.action === 'side') {
-                // Side action - update existing picked map with side assignment
-                const updatedPickedMaps = vetoState.pickedMaps.map(map => {
-                    if (map.mapId === input.mapId && !map.side) {
-                        const teamRoles = determineTeamRoles(map.pickedBy, input.side!);
-                        return {
-                            ...map,
-                            side: input.side!,
-                            attackingTeam: teamRoles.attackingTeam,
-                            defendingTeam: teamRoles.defendingTeam,
-                        };
-                    }
-                    return map;
+            if (!room.vetoStarted || !room.vetoState) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Veto process has not started' });
+            }
+
+            // Reported scores refer to the picked maps, so the veto can't change under them
+            if (await ctx.db.mapResult.count({ where: { roomId: room.id } }) > 0) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'Map scores have already been reported for this veto',
                 });
+            }
 
-                newVetoState = {
-                    ...vetoState,
-                    actions: [...vetoState.actions, newAction],
-                    pickedMaps: updatedPickedMaps,
-                    vetoSequence: vetoState.vetoSequence.map((step, index) =>
-                        index === currentStep ? { ...step, completed: true } : step
-                    ),
-                    currentStep: currentStep + 1,
-                };
-            } else {
-                // Ban or pick actions
-                newVetoState = {
-                    ...vetoState,
-                    actions: [...vetoState.actions, newAction],
-                    availableMaps: vetoState.availableMaps.filter((m) => m !== input.mapId),
-                    bannedMaps: input.action === 'ban'
-                        ? [...vetoState.bannedMaps, input.mapId]
-                        : vetoState.bannedMaps,
-                    pickedMaps: input.action === 'pick'
-                        ? (() => {
-                            const pickedMapSide = (isDemolitionMap && isLastPickAction && room.roundType !== 'bo5') ? input.side : undefined;
-
-                            const pickedMap: {
-                                mapId: string;
-                                pickedBy: 'team-a' | 'team-b';
-                                side?: 'attack' | 'defense';
-                                attackingTeam?: 'team-a' | 'team-b';
-                                defendingTeam?: 'team-a' | 'team-b';
-                            } = {
-                                mapId: input.mapId,
-                                pickedBy: teamRole,
-                                side: pickedMapSide,
-                            };
-
-                            // If side is selected, determine team roles
-                            if (pickedMapSide) {
-                                const teamRoles = determineTeamRoles(teamRole, pickedMapSide);
-                                pickedMap.attackingTeam = teamRoles.attackingTeam;
-                                pickedMap.defendingTeam = teamRoles.defendingTeam;
-                            }
-
-                            return [...vetoState.pickedMaps, pickedMap];
-                        })()
-                        : vetoState.pickedMaps,
-                    vetoSequence: vetoState.vetoSequence.map((step, index) =>
-                        index === currentStep ? { ...step, completed: true } : step
-                    ),
-                    currentStep: currentStep + 1,
-                };
+            await assertExpectedVersion(ctx.db, room, input.expectedVersion);
+
+            const result = undoLastAction(room.vetoState, room.maps);
+            if (!result.ok) {
+                throw toTRPCError(result.error);
             }
 
-            // Check if veto is completed and determine next turn
-            let vetoCompleted = newVetoState.currentStep >= newVetoState.vetoSequence.length;
-            let nextTurn: string | null = null;
+            const undoneAction = room.vetoState.actions[room.vetoState.actions.length - 1]!;
 
-            if (input.action === 'side') {
-                // Side action completed - move to next step in sequence
-                if (vetoCompleted) {
-                    nextTurn = null;
-                } else {
-                    nextTurn = newVetoState.vetoSequence[newVetoState.currentStep]?.team ?? null;
-                }
-            } else if (input.action === 'pick' && isDemolitionMap && !isLastPickAction) {
-                // For non-final demolition maps, check if next action is side by opposing team
-                const nextSequenceItem = newVetoState.vetoSequence[newVetoState.currentStep];
-                if (nextSequenceItem?.action === 'side') {
-                    // Side action is next in sequence - proceed normally
-                    vetoCompleted = false;
-                    nextTurn = nextSequenceItem.team;
-                } else {
-                    // No side action in sequence - the opposing team chooses the side (legacy behavior)
-                    const opposingTeam = teamRole === 'team-a' ? 'team-b' : 'team-a';
-                    vetoCompleted = false;
-                    nextTurn = opposingTeam;
+            const vetoState = result.state;
+            const currentTurn = getCurrentTurn(vetoState);
+            const undoneAt = new Date();
+            const turnDeadline = getTurnDeadline(vetoState, undoneAt);
+
+            const version = room.version + 1;
+
+            const update = await ctx.db.$transaction(async (tx) => {
+                // Same guard as veto actions, so an undo never races a captain or the timer
+                const updated = await tx.room.updateMany({
+                    where: { id: room.id, version: room.version },
+                    data: {
+                        // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+                        vetoState: vetoState as any,
+                        currentTurn,
+                        vetoCompleted: false,
+                        status: 'active',
+                        turnDeadline,
+                        version,
+                    },
+                });
+
+                if (updated.count === 0) {
+                    return null;
                 }
-            } else if (input.action === 'pick' && isDemolitionMap && isLastPickAction) {
-                // Final map picked - check if next action is side or if this is Bo5
-                const nextSequenceItem = newVetoState.vetoSequence[newVetoState.currentStep];
-                const isBo5 = room.roundType === 'bo5';
-
-                if (nextSequenceItem?.action === 'side') {
-                    // Side action is next in sequence - proceed normally
-                    vetoCompleted = false;
-                    nextTurn = nextSequenceItem.team;
-                } else if (isBo5 && !input.side) {
-                    // Bo5 final map without side in sequence - opposing team chooses side (legacy behavior)
-                    const opposingTeam = teamRole === 'team-a' ? 'team-b' : 'team-a';
-                    vetoCompleted = false;
-                    nextTurn = opposingTeam;
-                } else {
-                    // Side was selected by picking team or no side action needed - veto is complete
-                    vetoCompleted = true;
-                    nextTurn = null;
+
+                // Marking the completing step undone also takes the veto out of analytics
+                if (room.vetoCompleted) {
+                    await reopenMatchVeto(tx, room.id);
                 }
-            } else if (vetoCompleted) {
-                nextTurn = null;
-            } else {
-                nextTurn = newVetoState.vetoSequence[newVetoState.currentStep]?.team ?? null;
-            }
 
-            await ctx.db.room.update({
-                where: { id: room.id },
-                data: {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
-                    vetoState: newVetoState as any,
-                    currentTurn: nextTurn,
-                    vetoCompleted,
-                    status: vetoCompleted ? 'completed' : 'active',
-                },
-            });
+                await tx.vetoEvent.updateMany({
+                    where: {
+                        roomId: room.id,
+                        stepIndex: vetoState.currentStep,
+                        action: undoneAction.type,
+                        undoneAt: null,
+                    },
+                    data: { undoneAt },
+                });
 
-            // Emit real-time update
-            roomEventEmitter.emit(`room:${room.masterRoomId}:update`, {
-                type: 'veto-action',
-                room: room.masterRoomId,
-                action: newAction,
-                vetoCompleted,
+                await tx.vetoEvent.create({
+                    data: {
+                        roomId: room.id,
+                        masterRoomId: room.masterRoomId,
+                        roundType: room.roundType,
+                        maps: room.maps,
+                        ...await getVetoEventAnalytics(tx, room, undoneAction.team),
+                        stepIndex: vetoState.currentStep,
+                        team: undoneAction.team,
+                        action: 'undo',
+                        mapId: undoneAction.mapId,
+                        side: undoneAction.side,
+                        actorUserId: ctx.session.user.id,
+                        createdAt: undoneAt,
+                    },
+                });
+
+                return recordRoomEvent(tx, room.id, {
+                    type: 'veto-undone',
+                    room: room.masterRoomId,
+                    version,
+                    data: {
+                        action: undoneAction,
+                        vetoState,
+                        currentTurn,
+                        vetoCompleted: false,
+                        turnDeadline: turnDeadline?.toISOString() ?? null,
+                    },
+                });
             });
 
+            if (!update) {
+                return throwVetoConflict(ctx.db, room.id);
+            }
+
+            await publishRoomEvent(update);
+
             return {
                 success: true,
-                vetoState: newVetoState,
-                currentTurn: nextTurn,
-                vetoCompleted,
+                vetoState,
+                currentTurn,
+                vetoCompleted: false,
+                version,
             };
         }),
 
-    getVetoState: publicProcedure
+    getVetoHistory: publicProcedure
+        .meta({ rateLimit: ROOM_READ_RATE_LIMIT })
         .input(z.object({
             roomId: z.string(),
         }))
         .query(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findFirst({
-                where: {
-                    OR: [
-                        { masterRoomId: input.roomId },
-                        { teamAId: input.roomId },
-                        { teamBId: input.roomId },
-                    ],
-                },
-            }) as RoomWithVeto | null;
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: anyRoomLink(input.roomId),
+                select: { id: true },
+            }));
 
             if (!room) {
-                return null;
+                return [];
             }
 
-            return {
-                vetoStarted: room.vetoStarted ?? false,
-                vetoCompleted: room.vetoCompleted ?? false,
-                currentTurn: room.currentTurn,
-                vetoState: room.vetoState as VetoState | null,
-            };
+            const events = await ctx.db.vetoEvent.findMany({
+                where: { roomId: room.id },
+                orderBy: { createdAt: 'asc' },
+            });
+
+            return events.map(event => ({
+                stepIndex: event.stepIndex,
+                team: event.team as 'team-a' | 'team-b',
+                action: event.action as 'ban' | 'pick' | 'side',
+                mapId: event.mapId,
+                side: event.side as 'attack' | 'defense' | null,
+                createdAt: event.createdAt.toISOString(),
+            }));
         }),
 
     selectSideForMap: publicProcedure
+        .meta({ rateLimit: TEAM_ACTION_RATE_LIMIT })
         .input(z.object({
             teamId: z.string(),
             mapId: z.string(),
             side: z.enum(['attack', 'defense']),
+            clientId: z.string().max(100).optional(),
+            expectedVersion: expectedVersionSchema,
+            idempotencyKey: idempotencyKeySchema,
         }))
         .mutation(async ({ ctx, input }) => {
-            const room = await ctx.db.room.findFirst({
-                where: {
-                    OR: [
-                        { teamAId: input.teamId },
-                        { teamBId: input.teamId },
-                    ],
-                },
-            }) as RoomWithVeto | null;
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: teamLink(input.teamId),
+            })) as RoomWithVeto | null;
 
             if (!room) {
-                throw new Error("Room not found");
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
             }
 
-            if (!room.vetoStarted || room.vetoCompleted) {
-                throw new Error("Veto process is not active");
-            }
+            await ctx.limitRoom(room.id);
+
+            return withIdempotency(room.id, input.idempotencyKey, async () => {
+                const teamRole = room.teamAId === input.teamId ? 'team-a' : 'team-b';
+                const currentRoom = await enforceTurnDeadline(ctx.db, room);
+                await assertExpectedVersion(ctx.db, currentRoom, input.expectedVersion);
+
+                return commitVetoAction(ctx.db, currentRoom, {
+                    type: 'side',
+                    team: teamRole,
+                    mapId: input.mapId,
+                    side: input.side,
+                    timestamp: new Date().toISOString(),
+                }, {
+                    clientId: input.clientId,
+                    userId: ctx.session?.user?.id,
+                    idempotencyKey: input.idempotencyKey,
+                });
+            });
+        }),
 
-            const teamRole = room.teamAId === input.teamId ? 'team-a' : 'team-b';
+    getMapResults: publicProcedure
+        .meta({ rateLimit: ROOM_READ_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: anyRoomLink(input.roomId),
+                include: { mapResults: true },
+            }));
 
-            if (room.currentTurn !== teamRole) {
-                throw new Error("Not your turn to select side");
+            if (!room) {
+                return null;
             }
 
-            const vetoState = room.vetoState!;
-            if (!vetoState) {
-                throw new Error("Invalid veto state");
+            return toMapResultsView(room, room.mapResults);
+        }),
+
+    // A captain reports a map's score; it counts once the other captain confirms it
+    reportMapScore: publicProcedure
+        .meta({ rateLimit: TEAM_ACTION_RATE_LIMIT })
+        .input(z.object({
+            teamId: z.string(),
+            ...mapScoreSchema,
+            idempotencyKey: idempotencyKeySchema,
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return changeMapResultAsTeam(ctx, input.teamId, input.mapIndex, (team) => ({
+                kind: 'report',
+                team,
+                score: { teamAScore: input.teamAScore, teamBScore: input.teamBScore },
+            }), input.idempotencyKey);
+        }),
+
+    // The other captain confirms a reported score, or disputes it for an organizer to settle
+    respondToMapScore: publicProcedure
+        .meta({ rateLimit: TEAM_ACTION_RATE_LIMIT })
+        .input(z.object({
+            teamId: z.string(),
+            mapIndex: mapScoreSchema.mapIndex,
+            confirm: z.boolean(),
+            reason: z.string().trim().min(1).max(200).optional(),
+            idempotencyKey: idempotencyKeySchema,
+        }))
+        .mutation(async ({ ctx, input }) => {
+            if (!input.confirm && !input.reason) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Say why the score is wrong' });
             }
 
-            // Find the picked map without a side and update it
-            const updatedPickedMaps = vetoState.pickedMaps.map((pick) => {
-                if (pick.mapId === input.mapId && !pick.side) {
-                    const teamRoles = determineTeamRoles(teamRole, input.side);
-                    return {
-                        ...pick,
-                        side: input.side,
-                        attackingTeam: teamRoles.attackingTeam,
-                        defendingTeam: teamRoles.defendingTeam
-                    };
-                }
-                return pick;
+            return changeMapResultAsTeam(ctx, input.teamId, input.mapIndex, (team) => input.confirm
+                ? { kind: 'confirm', team }
+                : { kind: 'dispute', team, reason: input.reason! },
+            input.idempotencyKey);
+        }),
+
+    // Room managers set the final score of a map, e.g. to settle a dispute
+    resolveMapScore: protectedProcedure
+        .meta({ rateLimit: ROOM_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            masterRoomId: z.string(),
+            ...mapScoreSchema,
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.masterRoomId },
             });
 
-            // Create the side selection action
-            const sideAction: VetoAction = {
-                type: 'side',
-                mapId: input.mapId,
-                side: input.side,
-                team: teamRole,
-                timestamp: new Date().toISOString(),
-            };
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+            }
 
-            // Get current step and mark it as completed, then advance
-            const currentStep = vetoState.currentStep ?? 0;
-            const updatedSequence = vetoState.vetoSequence.map((step, index) =>
-                index === currentStep ? { ...step, completed: true } : step
-            );
-
-            const newVetoState: VetoState = {
-                ...vetoState,
-                actions: [...vetoState.actions, sideAction],
-                pickedMaps: updatedPickedMaps,
-                vetoSequence: updatedSequence,
-                currentStep: currentStep + 1,
-            };
+            if (!(await canManageRoom(ctx.db, room, ctx.session.user.id))) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message: 'Only the room creator or an organizer can set map scores',
+                });
+            }
 
-            // Check if veto is completed after side selection
-            const vetoCompleted = newVetoState.currentStep >= newVetoState.vetoSequence.length;
-            const nextTurn = vetoCompleted ? null : newVetoState.vetoSequence[newVetoState.currentStep]?.team ?? null;
+            return changeMapResult(ctx.db, room, input.mapIndex, {
+                kind: 'resolve',
+                score: { teamAScore: input.teamAScore, teamBScore: input.teamBScore },
+            });
+        }),
 
-            await ctx.db.room.update({
-                where: { id: room.id },
-                data: {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
-                    vetoState: newVetoState as any,
-                    currentTurn: nextTurn,
-                    vetoCompleted,
-                    status: vetoCompleted ? 'completed' : 'active',
-                },
+    // Disputed map scores waiting for an organizer, newest first
+    listDisputedResults: organizerProcedure
+        .query(async ({ ctx }) => {
+            const results = await ctx.db.mapResult.findMany({
+                where: { status: 'disputed' },
+                orderBy: { reportedAt: 'desc' },
+                take: 50,
+                include: { room: { select: { masterRoomId: true, teamAName: true, teamBName: true } } },
             });
 
-            // Emit real-time update
-            roomEventEmitter.emit(`room:${room.masterRoomId}:update`, {
-                type: 'side-selected',
-                room: room.masterRoomId,
-                action: sideAction,
-                mapId: input.mapId,
-                side: input.side,
-                vetoCompleted,
+            return results.map(result => ({
+                masterRoomId: result.room.masterRoomId,
+                teamAName: result.room.teamAName,
+                teamBName: result.room.teamBName,
+                result: toMapResultView(result),
+            }));
+        }),
+
+    // Live room updates over SSE, the self-hosted alternative to the Supabase channel
+    onUpdate: publicProcedure
+        .input(z.object({
+            masterRoomId: z.string(),
+        }))
+        .subscription(async function* ({ input, signal }) {
+            for await (const [update] of on(roomEventEmitter, `room:${input.masterRoomId}:update`, { signal })) {
+                yield update as RoomRealtimeUpdate;
+            }
+        }),
+
+    // Lets a client that missed events (reconnect, dropped message) catch up from the last version it applied
+    getEventsSince: publicProcedure
+        .meta({ rateLimit: ROOM_READ_RATE_LIMIT })
+        .input(z.object({
+            masterRoomId: z.string(),
+            version: z.number().int().min(0),
+        }))
+        .query(async ({ input }) => {
+            const result = await getRoomEventsSince(input.masterRoomId, input.version);
+
+            if (!result) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+            }
+
+            return result;
+        }),
+
+    // Keeps this tab counted as connected. Team links count as that team's captain, anything else as a spectator
+    heartbeat: publicProcedure
+        .meta({ rateLimit: PRESENCE_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+            clientId: z.string().max(100),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: anyRoomLink(input.roomId),
+                select: { id: true, teamAId: true, teamBId: true },
+            }));
+
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+            }
+
+            const role = room.teamAId === input.roomId
+                ? 'team-a'
+                : room.teamBId === input.roomId ? 'team-b' : 'spectator';
+
+            await recordHeartbeat(room.id, input.clientId, role);
+
+            return { success: true };
+        }),
+
+    leave: publicProcedure
+        .meta({ rateLimit: PRESENCE_RATE_LIMIT })
+        .input(z.object({
+            roomId: z.string(),
+            clientId: z.string().max(100),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const room = await findRoomByLink(ctx, () => ctx.db.room.findFirst({
+                where: anyRoomLink(input.roomId),
+                select: { id: true },
+            }));
+
+            if (room) {
+                await recordLeave(room.id, input.clientId);
+            }
+
+            return { success: true };
+        }),
+
+    getPresence: publicProcedure
+        .meta({ rateLimit: PRESENCE_RATE_LIMIT })
+        .input(z.object({
+            masterRoomId: z.string(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const room = await ctx.db.room.findUnique({
+                where: { masterRoomId: input.masterRoomId },
+                select: { id: true },
             });
 
-            return {
-                success: true,
-                vetoState: newVetoState,
-                vetoCompleted,
-                currentTurn: nextTurn,
-            };
+            if (!room) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Room not found' });
+            }
+
+            return getRoomPresence(room.id);
         }),
+
+    // Echoes the ping back so either transport can measure round-trip latency
+    ping: publicProcedure
+        .meta({ rateLimit: PRESENCE_RATE_LIMIT })
+        .input(z.object({
+            clientId: z.string(),
+            timestamp: z.number(),
+        }))
+        .query(({ input }) => input),
 });
@@ -0,0 +1,605 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, organizerProcedure, publicProcedure, type RateLimitMeta } from "~/server/api/trpc";
+import { getPresetById, isPresetAvailable } from "~/constants/veto-presets";
+import { RoomValidation, RoomValidationError } from "~/lib/room-validation";
+import { generateBracket, type BracketFormat, type BracketRoundType } from "~/lib/bracket-engine";
+import {
+    generateRoundRobin,
+    getDefaultSwissRounds,
+    pairSwissRound,
+    type StageEngineError,
+    type StageFormat,
+} from "~/lib/stage-engine";
+import { createVetoRoom } from "~/server/veto-room";
+import {
+    applyMatchWinner,
+    bracketErrorToTRPCError,
+    compareMatches,
+    createBracketMatches,
+    createStageMatches,
+    getMatchPreset,
+    getStageStandings,
+    matchViewInclude,
+    toMatchView,
+    toStageResults,
+} from "~/server/tournament";
+import type { MatchRoomLinks, TournamentSummary, TournamentView } from "~/types/tournament";
+
+const TOURNAMENT_MANAGEMENT_RATE_LIMIT: RateLimitMeta = { by: 'user', windowMs: 60 * 1000, maxRequests: 60 };
+
+const teamNameSchema = z.string().trim().min(1).max(50);
+
+const roundTypeSchema = z.enum(['bo1', 'bo3', 'bo5']);
+
+const stageErrorToTRPCError = (error: StageEngineError) => {
+    return new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+};
+
+const getTournamentOrThrow = async (db: PrismaClient, tournamentId: string) => {
+    const tournament = await db.tournament.findUnique({ where: { id: tournamentId } });
+
+    if (!tournament) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Tournament not found' });
+    }
+
+    return tournament;
+};
+
+// A room that can still run a veto; cancelled or expired ones are replaced when the match is reopened
+const isRoomUsable = (room: { status: string; expiresAt: Date }) => {
+    return room.status !== 'cancelled' && room.status !== 'expired' && room.expiresAt > new Date();
+};
+
+export const tournamentRouter = createTRPCRouter({
+    list: organizerProcedure
+        .query(async ({ ctx }): Promise<TournamentSummary[]> => {
+            const tournaments = await ctx.db.tournament.findMany({
+                orderBy: { createdAt: 'desc' },
+                include: { _count: { select: { teams: true, matches: true } } },
+            });
+
+            return tournaments.map(tournament => ({
+                id: tournament.id,
+                name: tournament.name,
+                presetId: tournament.presetId,
+                mapPool: tournament.mapPool,
+                turnTimeLimitSeconds: tournament.turnTimeLimitSeconds,
+                format: tournament.format as BracketFormat | null,
+                stageFormat: tournament.stageFormat as StageFormat | null,
+                createdAt: tournament.createdAt.toISOString(),
+                teamCount: tournament._count.teams,
+                matchCount: tournament._count.matches,
+            }));
+        }),
+
+    // Public, so brackets and results can be shared; team links are never included
+    get: publicProcedure
+        .input(z.object({ tournamentId: z.string() }))
+        .query(async ({ ctx, input }): Promise<TournamentView> => {
+            const tournament = await ctx.db.tournament.findUnique({
+                where: { id: input.tournamentId },
+                include: {
+                    // Registration order doubles as the default seeding
+                    teams: { orderBy: { createdAt: 'asc' }, select: { id: true, name: true } },
+                    matches: { include: matchViewInclude },
+                },
+            });
+
+            if (!tournament) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Tournament not found' });
+            }
+
+            return {
+                id: tournament.id,
+                name: tournament.name,
+                presetId: tournament.presetId,
+                mapPool: tournament.mapPool,
+                turnTimeLimitSeconds: tournament.turnTimeLimitSeconds,
+                format: tournament.format as BracketFormat | null,
+                stageFormat: tournament.stageFormat as StageFormat | null,
+                stageRounds: tournament.stageRounds,
+                stageRound: tournament.stageRound,
+                createdAt: tournament.createdAt.toISOString(),
+                teams: tournament.teams,
+                matches: tournament.matches.sort(compareMatches).map(toMatchView),
+                standings: getStageStandings(tournament, tournament.matches),
+            };
+        }),
+
+    create: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            name: z.string().trim().min(1).max(100),
+            mapPool: z.array(z.string()).min(3).max(8),
+            presetId: z.string(),
+            turnTimeLimitSeconds: z.number().int().min(10).max(600).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const preset = getPresetById(input.presetId);
+            if (!preset) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Unknown veto preset' });
+            }
+
+            if (!isPresetAvailable(preset, input.mapPool.length)) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: `${preset.name} cannot be used with ${input.mapPool.length} maps`,
+                });
+            }
+
+            // Every match room is created from these, so check them the way room creation does
+            const validation = RoomValidation.validateRoomCreation({
+                maps: input.mapPool,
+                roundType: preset.roundType,
+                expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+                customVetoSequence: preset.sequence,
+            });
+
+            if (!validation.isValid) {
+                const cause = new RoomValidationError(validation.issues);
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: cause.message,
+                    cause,
+                });
+            }
+
+            const tournament = await ctx.db.tournament.create({
+                data: {
+                    name: input.name,
+                    mapPool: input.mapPool,
+                    presetId: preset.id,
+                    turnTimeLimitSeconds: input.turnTimeLimitSeconds,
+                    createdById: ctx.session.user.id,
+                },
+            });
+
+            return { id: tournament.id };
+        }),
+
+    delete: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({ tournamentId: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            await getTournamentOrThrow(ctx.db, input.tournamentId);
+
+            // Teams and matches go with it; match rooms stay until they expire
+            await ctx.db.tournament.delete({ where: { id: input.tournamentId } });
+
+            return { success: true };
+        }),
+
+    addTeam: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            tournamentId: z.string(),
+            name: teamNameSchema,
+        }))
+        .mutation(async ({ ctx, input }) => {
+            await getTournamentOrThrow(ctx.db, input.tournamentId);
+
+            const existing = await ctx.db.team.findUnique({
+                where: { tournamentId_name: { tournamentId: input.tournamentId, name: input.name } },
+            });
+
+            if (existing) {
+                throw new TRPCError({ code: 'CONFLICT', message: 'A team with this name is already registered' });
+            }
+
+            const team = await ctx.db.team.create({
+                data: { tournamentId: input.tournamentId, name: input.name },
+                select: { id: true, name: true },
+            });
+
+            return team;
+        }),
+
+    removeTeam: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({ teamId: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const team = await ctx.db.team.findUnique({
+                where: { id: input.teamId },
+                include: { _count: { select: { matchesAsTeamA: true, matchesAsTeamB: true, matchesWon: true } } },
+            });
+
+            if (!team) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Team not found' });
+            }
+
+            if (team._count.matchesAsTeamA + team._count.matchesAsTeamB + team._count.matchesWon > 0) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'Teams with matches cannot be removed',
+                });
+            }
+
+            await ctx.db.team.delete({ where: { id: team.id } });
+
+            return { success: true };
+        }),
+
+    createMatch: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            tournamentId: z.string(),
+            teamAId: z.string(),
+            teamBId: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            if (input.teamAId === input.teamBId) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'A team cannot play itself' });
+            }
+
+            await getTournamentOrThrow(ctx.db, input.tournamentId);
+
+            const teamCount = await ctx.db.team.count({
+                where: { tournamentId: input.tournamentId, id: { in: [input.teamAId, input.teamBId] } },
+            });
+
+            if (teamCount !== 2) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Both teams must be registered in this tournament' });
+            }
+
+            const match = await ctx.db.match.create({
+                data: {
+                    tournamentId: input.tournamentId,
+                    teamAId: input.teamAId,
+                    teamBId: input.teamBId,
+                },
+                include: matchViewInclude,
+            });
+
+            return toMatchView(match);
+        }),
+
+    // Seeds are best first; the bracket's matches are created up front and filled in as winners are reported
+    generateBracket: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            tournamentId: z.string(),
+            format: z.enum(['single-elimination', 'double-elimination']),
+            seededTeamIds: z.array(z.string()).min(2).max(64),
+            roundTypes: z.object({
+                default: roundTypeSchema,
+                semifinals: roundTypeSchema.optional(),
+                finals: roundTypeSchema.optional(),
+                grandFinal: roundTypeSchema.optional(),
+            }).optional(),
+            grandFinalReset: z.boolean().optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const tournament = await getTournamentOrThrow(ctx.db, input.tournamentId);
+
+            if (tournament.format) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'This tournament already has a bracket' });
+            }
+
+            const teamCount = await ctx.db.team.count({
+                where: { tournamentId: tournament.id, id: { in: input.seededTeamIds } },
+            });
+
+            if (teamCount !== new Set(input.seededTeamIds).size) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Every seeded team must be registered in this tournament' });
+            }
+
+            const result = generateBracket(input.seededTeamIds, {
+                format: input.format,
+                roundTypes: input.roundTypes,
+                grandFinalReset: input.grandFinalReset,
+            });
+
+            if (!result.ok) {
+                throw bracketErrorToTRPCError(result.error);
+            }
+
+            await ctx.db.$transaction(async (tx) => {
+                // Claim the tournament first, so a second request can't add another bracket
+                const claimed = await tx.tournament.updateMany({
+                    where: { id: tournament.id, format: null },
+                    data: { format: input.format },
+                });
+
+                if (claimed.count === 0) {
+                    throw new TRPCError({ code: 'CONFLICT', message: 'This tournament already has a bracket' });
+                }
+
+                await createBracketMatches(tx, tournament.id, result.bracket);
+            });
+
+            return { success: true, matchCount: result.bracket.matches.length };
+        }),
+
+    // Swiss stages pair their first round now and the rest one at a time; round-robin stages schedule every round up front
+    generateStage: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            tournamentId: z.string(),
+            format: z.enum(['swiss', 'round-robin']),
+            seededTeamIds: z.array(z.string()).min(2).max(64),
+            rounds: z.number().int().min(1).max(63).optional(), // Swiss only
+            groupCount: z.number().int().min(1).max(26).optional(), // Round-robin only
+            roundType: roundTypeSchema.optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const tournament = await getTournamentOrThrow(ctx.db, input.tournamentId);
+
+            if (tournament.stageFormat) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'This tournament already has a stage' });
+            }
+
+            const seededTeamIds = [...new Set(input.seededTeamIds)];
+            const teamCount = await ctx.db.team.count({
+                where: { tournamentId: tournament.id, id: { in: seededTeamIds } },
+            });
+
+            if (teamCount !== seededTeamIds.length) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Every seeded team must be registered in this tournament' });
+            }
+
+            let stageRounds: number;
+            let createMatches: (tx: Prisma.TransactionClient) => Promise<void>;
+
+            if (input.format === 'swiss') {
+                // Past one round fewer than the team count, some team would run out of new opponents
+                stageRounds = input.rounds ?? getDefaultSwissRounds(seededTeamIds.length);
+                if (stageRounds > seededTeamIds.length - 1) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: `${seededTeamIds.length} teams can play at most ${seededTeamIds.length - 1} Swiss rounds`,
+                    });
+                }
+
+                const result = pairSwissRound(seededTeamIds, []);
+                if (!result.ok) {
+                    throw stageErrorToTRPCError(result.error);
+                }
+
+                createMatches = (tx) => createStageMatches(tx, tournament.id, {
+                    format: 'swiss',
+                    round: 1,
+                    roundType: input.roundType,
+                }, result.value);
+            } else {
+                const result = generateRoundRobin(seededTeamIds, input.groupCount);
+                if (!result.ok) {
+                    throw stageErrorToTRPCError(result.error);
+                }
+
+                const groups = result.value;
+                stageRounds = Math.max(...groups.map(group => group.rounds.length));
+
+                createMatches = async (tx) => {
+                    for (const group of groups) {
+                        for (const [index, pairings] of group.rounds.entries()) {
+                            await createStageMatches(tx, tournament.id, {
+                                format: 'round-robin',
+                                round: index + 1,
+                                group: group.name,
+                                roundType: input.roundType,
+                            }, pairings);
+                        }
+                    }
+                };
+            }
+
+            await ctx.db.$transaction(async (tx) => {
+                // Claim the tournament first, so a second request can't add another stage
+                const claimed = await tx.tournament.updateMany({
+                    where: { id: tournament.id, stageFormat: null },
+                    data: {
+                        stageFormat: input.format,
+                        stageSeeds: seededTeamIds,
+                        stageRounds,
+                        stageRound: input.format === 'swiss' ? 1 : stageRounds,
+                    },
+                });
+
+                if (claimed.count === 0) {
+                    throw new TRPCError({ code: 'CONFLICT', message: 'This tournament already has a stage' });
+                }
+
+                await createMatches(tx);
+            });
+
+            return { success: true };
+        }),
+
+    // Pairs the next Swiss round from the standings once every match in the current one is decided
+    pairNextSwissRound: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            tournamentId: z.string(),
+            roundType: roundTypeSchema.optional(), // Defaults to the previous round's
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const tournament = await ctx.db.tournament.findUnique({
+                where: { id: input.tournamentId },
+                include: { matches: { where: { stage: 'swiss' } } },
+            });
+
+            if (!tournament) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Tournament not found' });
+            }
+
+            if (tournament.stageFormat !== 'swiss' || !tournament.stageRound) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'This tournament has no Swiss stage' });
+            }
+
+            const currentRound = tournament.stageRound;
+            if (currentRound >= (tournament.stageRounds ?? 0)) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Every Swiss round has already been paired' });
+            }
+
+            const current = tournament.matches.filter(match => match.round === currentRound);
+            if (current.some(match => match.status !== 'completed' && match.status !== 'bye')) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: `Report every round ${currentRound} result before pairing the next round`,
+                });
+            }
+
+            const result = pairSwissRound(tournament.stageSeeds, toStageResults(tournament.matches));
+            if (!result.ok) {
+                throw stageErrorToTRPCError(result.error);
+            }
+
+            await ctx.db.$transaction(async (tx) => {
+                // Only pair it if nobody paired this round in the meantime
+                const claimed = await tx.tournament.updateMany({
+                    where: { id: tournament.id, stageRound: currentRound },
+                    data: { stageRound: currentRound + 1 },
+                });
+
+                if (claimed.count === 0) {
+                    throw new TRPCError({ code: 'CONFLICT', message: 'This round was already paired' });
+                }
+
+                await createStageMatches(tx, tournament.id, {
+                    format: 'swiss',
+                    round: currentRound + 1,
+                    roundType: input.roundType ?? (current[0]?.roundType as BracketRoundType | null) ?? undefined,
+                }, result.value);
+            });
+
+            return { success: true, round: currentRound + 1 };
+        }),
+
+    reportWinner: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({
+            matchId: z.string(),
+            winnerTeamId: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const match = await ctx.db.match.findUnique({ where: { id: input.matchId } });
+
+            if (!match) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Match not found' });
+            }
+
+            await applyMatchWinner(ctx.db, match, input.winnerTeamId);
+
+            return { success: true };
+        }),
+
+    // Creates the match's veto room the first time, and hands out the existing one after that
+    openMatchRoom: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({ matchId: z.string() }))
+        .mutation(async ({ ctx, input }): Promise<MatchRoomLinks> => {
+            const match = await ctx.db.match.findUnique({
+                where: { id: input.matchId },
+                include: {
+                    tournament: true,
+                    teamA: { select: { name: true } },
+                    teamB: { select: { name: true } },
+                    room: true,
+                },
+            });
+
+            if (!match) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Match not found' });
+            }
+
+            if (match.room && (match.status !== 'veto' || isRoomUsable(match.room))) {
+                return {
+                    matchId: match.id,
+                    masterRoomId: match.room.masterRoomId,
+                    teamALink: match.room.teamALink,
+                    teamBLink: match.room.teamBLink,
+                    spectatorLink: match.room.spectatorLink,
+                };
+            }
+
+            if (match.status === 'vetoed') {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'The veto for this match is already complete',
+                });
+            }
+
+            if (match.status === 'completed' || match.status === 'bye') {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'This match has already been decided' });
+            }
+
+            const { teamA, teamB } = match;
+            if (!teamA || !teamB) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'Both teams must be known before the match room can be opened',
+                });
+            }
+
+            const tournamentPreset = getPresetById(match.tournament.presetId);
+            if (!tournamentPreset) {
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'The tournament\'s veto preset no longer exists',
+                });
+            }
+
+            // Bracket rounds can play a different series length than the tournament's preset
+            const roundType = (match.roundType as BracketRoundType | null) ?? tournamentPreset.roundType;
+            const preset = getMatchPreset(tournamentPreset.id, roundType, match.tournament.mapPool.length);
+
+            const room = await ctx.db.$transaction(async (tx) => {
+                const room = await createVetoRoom(tx, {
+                    maps: match.tournament.mapPool,
+                    roundType,
+                    customVetoSequence: preset?.sequence,
+                    presetId: preset?.id,
+                    turnTimeLimitSeconds: match.tournament.turnTimeLimitSeconds ?? undefined,
+                    timeoutFallback: 'random',
+                    teamAName: teamA.name,
+                    teamBName: teamB.name,
+                    createdById: ctx.session.user.id,
+                });
+
+                // Only link it if nobody opened the match in the meantime
+                const linked = await tx.match.updateMany({
+                    where: { id: match.id, roomId: match.roomId },
+                    data: { roomId: room.id, status: 'veto' },
+                });
+
+                if (linked.count === 0) {
+                    throw new TRPCError({
+                        code: 'CONFLICT',
+                        message: 'This match was opened by someone else. Please try again.',
+                    });
+                }
+
+                return room;
+            });
+
+            return {
+                matchId: match.id,
+                masterRoomId: room.masterRoomId,
+                teamALink: room.teamALink,
+                teamBLink: room.teamBLink,
+                spectatorLink: room.spectatorLink,
+            };
+        }),
+
+    deleteMatch: organizerProcedure
+        .meta({ rateLimit: TOURNAMENT_MANAGEMENT_RATE_LIMIT })
+        .input(z.object({ matchId: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const match = await ctx.db.match.findUnique({ where: { id: input.matchId } });
+
+            if (!match) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Match not found' });
+            }
+
+            // Other bracket matches wait on this one's winner and loser, and stage pairings on its result
+            if (match.bracketKey || match.stage) {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'Bracket and stage matches cannot be deleted' });
+            }
+
+            await ctx.db.match.deleteMany({ where: { id: match.id } });
+
+            return { success: true };
+        }),
+});
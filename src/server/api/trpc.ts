@@ -11,6 +11,15 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { getClientIp } from "~/lib/get-ip";
+import {
+  RateLimitError,
+  RateLimiter,
+  toRateLimitInfo,
+  type RateLimitResult,
+} from "~/lib/rate-limiter";
+import { RoomValidationError, SecurityUtils } from "~/lib/room-validation";
+import { VetoConflictError } from "~/lib/veto-conflict";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
 
@@ -29,13 +38,38 @@ import { db } from "~/server/db";
 export const createTRPCContext = async (opts: { headers: Headers }) => {
   const session = await auth();
 
+  // Resolved from proxy headers we trust, never from request input; null when unknown
+  const clientIp = getClientIp(opts.headers);
+
   return {
     db,
     session,
+    clientIpHash: clientIp ? SecurityUtils.hashIp(clientIp) : null,
     ...opts,
   };
 };
 
+/**
+ * Procedure metadata.
+ *
+ * `rateLimit` opts a procedure in to the rate limit middleware below, e.g.
+ * `.meta({ rateLimit: { by: "room", windowMs: 60_000, maxRequests: 30 } })`. Requests are counted
+ * per caller IP, per signed-in user (falling back to IP for guests), or per room. Room limits count
+ * per caller IP first, and then per room once the procedure has found it and calls `ctx.limitRoom`;
+ * IDs from the input are never used as keys, so guessing new ones doesn't buy fresh buckets.
+ */
+export type RateLimitKey = "ip" | "user" | "room";
+
+export interface RateLimitMeta {
+  by: RateLimitKey;
+  windowMs: number;
+  maxRequests: number;
+}
+
+interface Meta {
+  rateLimit?: RateLimitMeta;
+}
+
 /**
  * 2. INITIALIZATION
  *
@@ -43,7 +77,7 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
  * ZodErrors so that you get typesafety on the frontend if your procedure fails due to validation
  * errors on the backend.
  */
-const t = initTRPC.context<typeof createTRPCContext>().create({
+const t = initTRPC.context<typeof createTRPCContext>().meta<Meta>().create({
   transformer: superjson,
   errorFormatter({ shape, error }) {
     return {
@@ -52,6 +86,12 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        validationIssues:
+          error.cause instanceof RoomValidationError ? error.cause.issues : null,
+        vetoConflict:
+          error.cause instanceof VetoConflictError ? error.cause.state : null,
+        rateLimit:
+          error.cause instanceof RateLimitError ? error.cause.info : null,
       },
     };
   },
@@ -101,6 +141,90 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
   return result;
 });
 
+/**
+ * TOO_MANY_REQUESTS carrying when the caller may retry, for limits checked inside a procedure
+ */
+export const rateLimitExceeded = (result: RateLimitResult, message: string) => {
+  return new TRPCError({
+    code: "TOO_MANY_REQUESTS",
+    message,
+    cause: new RateLimitError(toRateLimitInfo(result)),
+  });
+};
+
+// One limiter per procedure, created on its first call
+const procedureLimiters = new Map<string, RateLimiter>();
+
+const getProcedureLimiter = (path: string, config: RateLimitMeta) => {
+  let limiter = procedureLimiters.get(path);
+
+  if (!limiter) {
+    limiter = new RateLimiter({
+      windowMs: config.windowMs,
+      maxRequests: config.maxRequests,
+      keyGenerator: (identifier) => `trpc:${path}:${identifier}`,
+    });
+    procedureLimiters.set(path, limiter);
+  }
+
+  return limiter;
+};
+
+/**
+ * The caller's hashed IP, for rate limit keys. Requests whose IP could not be resolved are
+ * rejected instead of all sharing one bucket.
+ */
+export const requireClientIpHash = (ctx: { clientIpHash: string | null }): string => {
+  if (!ctx.clientIpHash) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Could not determine your IP address for this request.",
+    });
+  }
+
+  return ctx.clientIpHash;
+};
+
+/**
+ * Middleware enforcing a procedure's `rateLimit` metadata; procedures without it pass straight through.
+ */
+const rateLimitMiddleware = t.middleware(async ({ ctx, meta, path, next }) => {
+  const config = meta?.rateLimit;
+
+  // Counts a request against the room it acts on; a no-op unless the procedure is limited by room
+  let limitRoom: (roomId: string) => Promise<void> = () => Promise.resolve();
+
+  if (!config) {
+    return next({ ctx: { limitRoom } });
+  }
+
+  const identifier = config.by === "user" && ctx.session?.user
+    ? SecurityUtils.getUserIdentifier(ctx.session.user.id)
+    : `ip:${requireClientIpHash(ctx)}`;
+
+  const result = await getProcedureLimiter(path, config).checkLimit(identifier);
+
+  if (!result.allowed) {
+    throw rateLimitExceeded(result, `Too many requests. Try again in ${toRateLimitInfo(result).retryAfterSeconds} seconds.`);
+  }
+
+  if (config.by === "room") {
+    // Takes the room's own ID as resolved on the server
+    limitRoom = async (roomId) => {
+      const roomResult = await getProcedureLimiter(`${path}:room`, config).checkLimit(`room:${roomId}`);
+
+      if (!roomResult.allowed) {
+        throw rateLimitExceeded(
+          roomResult,
+          `Too many requests for this room. Try again in ${toRateLimitInfo(roomResult).retryAfterSeconds} seconds.`,
+        );
+      }
+    };
+  }
+
+  return next({ ctx: { limitRoom } });
+});
+
 /**
  * Public (unauthenticated) procedure
  *
@@ -108,7 +232,7 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * guarantee that a user querying is authorized, but you can still access user session data if they
  * are logged in.
  */
-export const publicProcedure = t.procedure.use(timingMiddleware);
+export const publicProcedure = t.procedure.use(timingMiddleware).use(rateLimitMiddleware);
 
 /**
  * Protected (authenticated) procedure
@@ -120,6 +244,7 @@ export const publicProcedure = t.procedure.use(timingMiddleware);
  */
 export const protectedProcedure = t.procedure
   .use(timingMiddleware)
+  .use(rateLimitMiddleware)
   .use(({ ctx, next }) => {
     if (!ctx.session?.user) {
       throw new TRPCError({ code: "UNAUTHORIZED" });
@@ -131,3 +256,25 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Organizer procedure
+ *
+ * For administrative operations. Builds on `protectedProcedure` and additionally requires the
+ * signed-in user to have `User.organizer` set.
+ */
+export const organizerProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  const user = await ctx.db.user.findUnique({
+    where: { id: ctx.session.user.id },
+    select: { organizer: true },
+  });
+
+  if (!user?.organizer) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only organizers can perform this action",
+    });
+  }
+
+  return next();
+});
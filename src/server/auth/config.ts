@@ -2,8 +2,14 @@ import { PrismaAdapter } from "@auth/prisma-adapter";
 import { type DefaultSession, type NextAuthConfig } from "next-auth";
 import DiscordProvider from "next-auth/providers/discord";
 
+import { env } from "~/env";
 import { db } from "~/server/db";
 
+// Discord accounts made organizers when they sign in, so a fresh deployment has someone to grant the role
+const initialOrganizerDiscordIds = new Set(
+  env.INITIAL_ORGANIZER_DISCORD_IDS?.split(",").map((id) => id.trim()).filter(Boolean) ?? [],
+);
+
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
  * object and keep type safety.
@@ -44,6 +50,20 @@ export const authConfig = {
      */
   ],
   adapter: PrismaAdapter(db),
+  events: {
+    signIn: async ({ user, account }) => {
+      if (
+        account?.provider === "discord" &&
+        user.id &&
+        initialOrganizerDiscordIds.has(account.providerAccountId)
+      ) {
+        await db.user.updateMany({
+          where: { id: user.id, organizer: false },
+          data: { organizer: true },
+        });
+      }
+    },
+  },
   callbacks: {
     session: ({ session, user }) => ({
       ...session,
@@ -0,0 +1,230 @@
+import { TRPCError } from "@trpc/server";
+import { type MapResult, type Prisma, type PrismaClient } from "@prisma/client";
+import { getSeriesResult, validateMapScore, type MapScore } from "~/lib/match-results";
+import { publishRoomEvent, recordRoomEvent } from "~/server/room-events";
+import { recordMatchWinner } from "~/server/tournament";
+import type { MapResultStatus, MapResultView, MapResultsView, TeamType, VetoState } from "~/types/veto";
+
+// What a captain or organizer can do to one map's result
+export type MapResultChange =
+    | { kind: 'report'; team: TeamType; score: MapScore }
+    | { kind: 'confirm'; team: TeamType }
+    | { kind: 'dispute'; team: TeamType; reason: string }
+    | { kind: 'resolve'; score: MapScore }; // Organizer decision, e.g. to settle a dispute
+
+interface ResultRoom {
+    id: string;
+    masterRoomId: string;
+    status: string;
+    vetoCompleted: boolean;
+    vetoState: Prisma.JsonValue;
+    seriesWinner: string | null;
+    version: number;
+}
+
+export const toMapResultView = (result: MapResult): MapResultView => ({
+    mapIndex: result.mapIndex,
+    mapId: result.mapId,
+    teamAScore: result.teamAScore,
+    teamBScore: result.teamBScore,
+    reportedBy: result.reportedBy as MapResultView['reportedBy'],
+    status: result.status as MapResultStatus,
+    disputeReason: result.disputeReason,
+    reportedAt: result.reportedAt.toISOString(),
+    confirmedAt: result.confirmedAt?.toISOString() ?? null,
+});
+
+const getPickedMaps = (room: ResultRoom) => {
+    return (room.vetoState as VetoState | null)?.pickedMaps ?? [];
+};
+
+export const toMapResultsView = (room: ResultRoom, results: MapResult[]): MapResultsView => {
+    const views = results.map(toMapResultView).sort((a, b) => a.mapIndex - b.mapIndex);
+
+    return {
+        results: views,
+        series: getSeriesResult(getPickedMaps(room).length, views),
+        version: room.version,
+    };
+};
+
+type NextResult = Pick<MapResult, 'teamAScore' | 'teamBScore' | 'reportedBy' | 'status' | 'disputeReason' | 'confirmedAt'>;
+
+// Apply a change to the stored result for one map, or explain why it isn't allowed
+const getNextResult = (existing: MapResult | undefined, change: MapResultChange): NextResult => {
+    const now = new Date();
+
+    if (change.kind === 'report' || change.kind === 'resolve') {
+        const invalid = validateMapScore(change.score);
+        if (invalid) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: invalid });
+        }
+    }
+
+    switch (change.kind) {
+        case 'report':
+            if (existing?.status === 'confirmed') {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'This map\'s result is already confirmed' });
+            }
+
+            if (existing?.status === 'reported' && existing.reportedBy !== change.team) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'The other team already reported this map. Confirm or dispute their score instead.',
+                });
+            }
+
+            // A fresh report, a correction of your own, or a new attempt after a dispute
+            return {
+                ...change.score,
+                reportedBy: change.team,
+                status: 'reported',
+                disputeReason: null,
+                confirmedAt: null,
+            };
+        case 'confirm':
+        case 'dispute':
+            if (existing?.status !== 'reported') {
+                throw new TRPCError({ code: 'BAD_REQUEST', message: 'There is no reported score waiting for a response' });
+            }
+
+            if (existing.reportedBy === change.team) {
+                throw new TRPCError({ code: 'FORBIDDEN', message: 'The other team has to respond to your score' });
+            }
+
+            return {
+                teamAScore: existing.teamAScore,
+                teamBScore: existing.teamBScore,
+                reportedBy: existing.reportedBy,
+                status: change.kind === 'confirm' ? 'confirmed' : 'disputed',
+                disputeReason: change.kind === 'dispute' ? change.reason : null,
+                confirmedAt: change.kind === 'confirm' ? now : null,
+            };
+        case 'resolve':
+            return {
+                ...change.score,
+                reportedBy: 'organizer',
+                status: 'confirmed',
+                disputeReason: null,
+                confirmedAt: now,
+            };
+    }
+};
+
+/**
+ * Report, confirm, dispute or resolve the score of one picked map. When the change decides the series,
+ * the room records the winner, and a tournament match gets the scores and advances its winner in the
+ * same transaction, so a result is never saved without its match moving on.
+ */
+export const changeMapResult = async (
+    db: PrismaClient,
+    room: ResultRoom,
+    mapIndex: number,
+    change: MapResultChange,
+    idempotencyKey?: string
+): Promise<MapResultsView> => {
+    if (room.status === 'cancelled') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Room has been cancelled' });
+    }
+
+    const pickedMap = getPickedMaps(room)[mapIndex];
+    if (!room.vetoCompleted || !pickedMap) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: room.vetoCompleted ? 'No such map in this series' : 'Scores can be reported once the veto is complete',
+        });
+    }
+
+    // The result that decided the series is final, and later maps are never played
+    if (room.seriesWinner) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'The series is already decided' });
+    }
+
+    const results = await db.mapResult.findMany({ where: { roomId: room.id } });
+    const existing = results.find(result => result.mapIndex === mapIndex);
+    const next = getNextResult(existing, change);
+
+    const version = room.version + 1;
+    const reportedAt = change.kind === 'report' ? new Date() : existing?.reportedAt ?? new Date();
+    const data = { ...next, mapId: pickedMap.mapId, reportedAt };
+
+    const updatedResults = [
+        ...results.filter(result => result !== existing),
+        { ...existing, ...data, id: existing?.id ?? '', roomId: room.id, mapIndex } satisfies MapResult,
+    ];
+    const view = toMapResultsView({ ...room, version }, updatedResults);
+    const seriesWinner = view.series.winner;
+
+    const update = await db.$transaction(async (tx) => {
+        // Only write if nothing changed since the room was read, e.g. both captains answering at once
+        const updated = await tx.room.updateMany({
+            where: { id: room.id, version: room.version, seriesWinner: null },
+            data: { version, seriesWinner },
+        });
+
+        if (updated.count === 0) {
+            return null;
+        }
+
+        await tx.mapResult.upsert({
+            where: { roomId_mapIndex: { roomId: room.id, mapIndex } },
+            create: { roomId: room.id, mapIndex, ...data },
+            update: data,
+        });
+
+        // A tournament match keeps its own copy of the scores, so they outlive the room
+        if (seriesWinner) {
+            await tx.match.updateMany({
+                where: { roomId: room.id },
+                data: {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+                    mapResults: view.results.filter(result => result.status === 'confirmed') as any,
+                },
+            });
+
+            await advanceMatchWinner(tx, room.id, seriesWinner);
+        }
+
+        return recordRoomEvent(tx, room.id, {
+            type: 'map-result-updated',
+            room: room.masterRoomId,
+            version,
+            data: { mapIndex, results: view.results, series: view.series },
+            idempotencyKey,
+            result: view,
+        });
+    });
+
+    if (!update) {
+        throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'The results changed before yours was saved. Please try again.',
+        });
+    }
+
+    await publishRoomEvent(update);
+
+    return view;
+};
+
+// Report the series winner on the room's tournament match, unless an organizer already did
+const advanceMatchWinner = async (tx: Prisma.TransactionClient, roomId: string, seriesWinner: TeamType) => {
+    const match = await tx.match.findUnique({ where: { roomId } });
+    if (!match || match.status === 'completed' || match.status === 'bye') {
+        return;
+    }
+
+    const winnerId = seriesWinner === 'team-a' ? match.teamAId : match.teamBId;
+    if (!winnerId) {
+        return;
+    }
+
+    try {
+        await recordMatchWinner(tx, match, winnerId);
+    } catch (error) {
+        // Someone reported the match winner in the meantime
+        if (!(error instanceof TRPCError && error.code === 'CONFLICT')) {
+            throw error;
+        }
+    }
+};
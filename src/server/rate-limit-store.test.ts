@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrismaStore, RedisStore } from '~/server/rate-limit-store';
+import type { RedisClient, RedisReply } from '~/server/redis-client';
+
+interface Bucket {
+    key: string;
+    count: number;
+    resetAt: Date;
+}
+
+// In-memory stand-in for the RateLimitBucket table, answering the queries PrismaStore makes
+const buckets = vi.hoisted(() => new Map<string, Bucket>());
+
+vi.mock('~/env', () => ({ env: { RATE_LIMIT_STORE: 'postgres', NODE_ENV: 'test' } }));
+vi.mock('~/server/db', () => ({
+    db: {
+        // The upsert's parameters are the key, the new window's end, then the current time
+        $queryRaw: async (_query: TemplateStringsArray, key: string, resetAt: Date, now: Date) => {
+            const current = buckets.get(key);
+            const bucket = current && current.resetAt > now
+                ? { ...current, count: current.count + 1 }
+                : { key, count: 1, resetAt };
+
+            buckets.set(key, bucket);
+            return [{ count: bucket.count, resetAt: bucket.resetAt }];
+        },
+        rateLimitBucket: {
+            findFirst: async ({ where }: { where: { key: string; resetAt: { gt: Date } } }) => {
+                const bucket = buckets.get(where.key);
+                return bucket && bucket.resetAt > where.resetAt.gt ? bucket : null;
+            },
+            deleteMany: async ({ where }: { where: { key?: string; resetAt?: { lte: Date } } }) => {
+                const matching = [...buckets.values()].filter(bucket => where.key !== undefined
+                    ? bucket.key === where.key
+                    : bucket.resetAt <= where.resetAt!.lte);
+
+                for (const bucket of matching) buckets.delete(bucket.key);
+                return { count: matching.length };
+            },
+        },
+    },
+}));
+
+// In-memory Redis covering the commands RedisStore sends, with key expiry on the (fake) clock
+const createFakeRedis = () => {
+    const keys = new Map<string, { value: number; expiresAt: number | null }>();
+
+    const live = (key: string) => {
+        const entry = keys.get(key);
+        if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+            keys.delete(key);
+            return undefined;
+        }
+        return entry;
+    };
+
+    const pttl = (key: string) => {
+        const entry = live(key);
+        if (!entry) return -2;
+        return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+    };
+
+    const command = async (name: string, ...args: Array<string | number>): Promise<RedisReply> => {
+        switch (name) {
+            case 'EVAL': {
+                // The increment script: INCR, then PEXPIRE on the first hit
+                const [, , key, windowMs] = args as [string, number, string, number];
+                const entry = live(key) ?? { value: 0, expiresAt: null };
+                entry.value += 1;
+                if (entry.value === 1) entry.expiresAt = Date.now() + windowMs;
+                keys.set(key, entry);
+                return [entry.value, pttl(key)];
+            }
+            case 'GET': {
+                const entry = live(String(args[0]));
+                return entry ? String(entry.value) : null;
+            }
+            case 'PTTL':
+                return pttl(String(args[0]));
+            case 'DEL':
+                return keys.delete(String(args[0])) ? 1 : 0;
+            default:
+                throw new Error(`Unexpected command ${name}`);
+        }
+    };
+
+    return { command } as unknown as RedisClient;
+};
+
+const stores = [
+    { name: 'PrismaStore', create: () => new PrismaStore() },
+    { name: 'RedisStore', create: () => new RedisStore(createFakeRedis()) },
+];
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    buckets.clear();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe.each(stores)('$name', ({ create }) => {
+    it('counts hits within one window', async () => {
+        const store = create();
+        const start = Date.now();
+
+        expect(await store.increment('a', 60_000)).toEqual({ count: 1, resetTime: start + 60_000 });
+
+        vi.advanceTimersByTime(10_000);
+        expect(await store.increment('a', 60_000)).toEqual({ count: 2, resetTime: start + 60_000 });
+        expect(await store.increment('b', 60_000)).toMatchObject({ count: 1 });
+    });
+
+    it('opens a new window once the last one has ended', async () => {
+        const store = create();
+        await store.increment('a', 60_000);
+        await store.increment('a', 60_000);
+
+        vi.advanceTimersByTime(60_000);
+        expect(await store.increment('a', 60_000)).toEqual({ count: 1, resetTime: Date.now() + 60_000 });
+    });
+
+    it('reads the current window without counting a hit', async () => {
+        const store = create();
+        expect(await store.get('a')).toBeNull();
+
+        await store.increment('a', 60_000);
+        expect(await store.get('a')).toMatchObject({ count: 1 });
+        expect(await store.get('a')).toMatchObject({ count: 1 });
+
+        vi.advanceTimersByTime(60_000);
+        expect(await store.get('a')).toBeNull();
+    });
+
+    it('forgets a deleted key', async () => {
+        const store = create();
+        await store.increment('a', 60_000);
+        await store.delete('a');
+
+        expect(await store.get('a')).toBeNull();
+        expect(await store.increment('a', 60_000)).toMatchObject({ count: 1 });
+    });
+});
+
+describe('PrismaStore cleanup', () => {
+    it('removes only the windows that have ended', async () => {
+        const store = new PrismaStore();
+        await store.increment('short', 1_000);
+        await store.increment('long', 60_000);
+
+        vi.advanceTimersByTime(1_000);
+        expect(await store.cleanup()).toBe(1);
+        expect(await store.get('long')).toMatchObject({ count: 1 });
+    });
+});
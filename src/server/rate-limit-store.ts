@@ -0,0 +1,185 @@
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { RedisClient } from "~/server/redis-client";
+
+/**
+ * Where rate limit counters live, selected with `RATE_LIMIT_STORE`:
+ *
+ * - `memory`: per process; only meaningful for local development
+ * - `postgres`: the `RateLimitBucket` table, shared by every serverless instance
+ * - `redis`: any server speaking the Redis protocol at `REDIS_URL`
+ *
+ * Every store counts fixed windows: the first hit on a key opens a window of `windowMs`,
+ * later hits add to it until it ends.
+ */
+
+export interface RateLimitHit {
+    count: number; // Hits in the current window, including this one
+    resetTime: number; // When the current window ends (ms since epoch)
+}
+
+export interface RateLimitStore {
+    // Must be atomic, so concurrent requests on different instances never lose a hit
+    increment(key: string, windowMs: number): Promise<RateLimitHit>;
+    // The current window without counting a hit; null if there is none
+    get(key: string): Promise<RateLimitHit | null>;
+    delete(key: string): Promise<void>;
+    // Drop counters whose window has ended; returns how many were removed
+    cleanup(): Promise<number>;
+}
+
+export class InMemoryStore implements RateLimitStore {
+    private store = new Map<string, RateLimitHit>();
+
+    async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+        const now = Date.now();
+        const current = this.store.get(key);
+
+        const hit = current && current.resetTime > now
+            ? { count: current.count + 1, resetTime: current.resetTime }
+            : { count: 1, resetTime: now + windowMs };
+
+        this.store.set(key, hit);
+        return hit;
+    }
+
+    async get(key: string): Promise<RateLimitHit | null> {
+        const current = this.store.get(key);
+        return current && current.resetTime > Date.now() ? current : null;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.store.delete(key);
+    }
+
+    async cleanup(): Promise<number> {
+        const now = Date.now();
+        let removed = 0;
+
+        for (const [key, data] of this.store.entries()) {
+            if (now > data.resetTime) {
+                this.store.delete(key);
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+}
+
+export class PrismaStore implements RateLimitStore {
+    async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+        const now = new Date();
+        const resetAt = new Date(now.getTime() + windowMs);
+
+        // A single upsert, so Postgres serializes concurrent hits on the same row
+        const [row] = await db.$queryRaw<{ count: number; resetAt: Date }[]>`
+            INSERT INTO "RateLimitBucket" ("key", "count", "resetAt")
+            VALUES (${key}, 1, ${resetAt})
+            ON CONFLICT ("key") DO UPDATE SET
+                "count" = CASE WHEN "RateLimitBucket"."resetAt" <= ${now} THEN 1 ELSE "RateLimitBucket"."count" + 1 END,
+                "resetAt" = CASE WHEN "RateLimitBucket"."resetAt" <= ${now} THEN EXCLUDED."resetAt" ELSE "RateLimitBucket"."resetAt" END
+            RETURNING "count", "resetAt"
+        `;
+
+        if (!row) {
+            throw new Error(`Failed to increment rate limit counter ${key}`);
+        }
+
+        return { count: row.count, resetTime: row.resetAt.getTime() };
+    }
+
+    async get(key: string): Promise<RateLimitHit | null> {
+        const bucket = await db.rateLimitBucket.findFirst({
+            where: { key, resetAt: { gt: new Date() } },
+        });
+
+        return bucket ? { count: bucket.count, resetTime: bucket.resetAt.getTime() } : null;
+    }
+
+    async delete(key: string): Promise<void> {
+        await db.rateLimitBucket.deleteMany({ where: { key } });
+    }
+
+    async cleanup(): Promise<number> {
+        const deleted = await db.rateLimitBucket.deleteMany({
+            where: { resetAt: { lte: new Date() } },
+        });
+
+        return deleted.count;
+    }
+}
+
+// INCR and PEXPIRE in one script, so a key can never be left without an expiry
+const REDIS_INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+    redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return { count, redis.call('PTTL', KEYS[1]) }
+`;
+
+export class RedisStore implements RateLimitStore {
+    constructor(private readonly client: RedisClient) { }
+
+    async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+        const reply = await this.client.command('EVAL', REDIS_INCREMENT_SCRIPT, 1, key, windowMs);
+
+        if (!Array.isArray(reply) || typeof reply[0] !== 'number' || typeof reply[1] !== 'number') {
+            throw new Error(`Unexpected Redis reply when incrementing ${key}`);
+        }
+
+        const [count, ttl] = reply;
+        return { count, resetTime: Date.now() + Math.max(ttl, 0) };
+    }
+
+    async get(key: string): Promise<RateLimitHit | null> {
+        const [count, ttl] = await Promise.all([
+            this.client.command('GET', key),
+            this.client.command('PTTL', key),
+        ]);
+
+        if (typeof count !== 'string' || typeof ttl !== 'number' || ttl <= 0) {
+            return null;
+        }
+
+        return { count: Number(count), resetTime: Date.now() + ttl };
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.command('DEL', key);
+    }
+
+    // Redis expires keys on its own
+    async cleanup(): Promise<number> {
+        return 0;
+    }
+}
+
+const createRateLimitStore = (): RateLimitStore => {
+    switch (env.RATE_LIMIT_STORE) {
+        case 'postgres':
+            return new PrismaStore();
+        case 'redis':
+            if (!env.REDIS_URL) {
+                throw new Error('REDIS_URL must be set when RATE_LIMIT_STORE is "redis"');
+            }
+            return new RedisStore(new RedisClient(env.REDIS_URL));
+        case 'memory':
+        default: {
+            const store = new InMemoryStore();
+            // Cleanup every 5 minutes
+            setInterval(() => void store.cleanup(), 5 * 60 * 1000);
+            return store;
+        }
+    }
+};
+
+// Reuse one store (and one Redis connection) across hot reloads in development
+const globalForRateLimit = globalThis as unknown as {
+    rateLimitStore: RateLimitStore | undefined;
+};
+
+export const rateLimitStore = globalForRateLimit.rateLimitStore ?? createRateLimitStore();
+
+if (env.NODE_ENV !== "production") globalForRateLimit.rateLimitStore = rateLimitStore;
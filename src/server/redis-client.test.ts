@@ -0,0 +1,96 @@
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { RedisClient, RedisReplyError, type RedisClientOptions } from '~/server/redis-client';
+
+// A stand-in Redis that hands every chunk a client sends to `reply`
+const startServer = async (reply: (socket: Socket, chunk: string) => void) => {
+    const sockets = new Set<Socket>();
+    const server = createServer(socket => {
+        sockets.add(socket);
+        socket.on('data', chunk => reply(socket, chunk.toString()));
+        socket.on('close', () => sockets.delete(socket));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+    servers.push({ server, sockets });
+
+    return `localhost:${(server.address() as AddressInfo).port}`;
+};
+
+const servers: Array<{ server: Server; sockets: Set<Socket> }> = [];
+const clients: RedisClient[] = [];
+
+const createClient = (url: string, options?: RedisClientOptions) => {
+    const client = new RedisClient(url, options);
+    clients.push(client);
+    return client;
+};
+
+afterEach(async () => {
+    for (const client of clients.splice(0)) client.close();
+
+    await Promise.all(servers.splice(0).map(({ server, sockets }) => {
+        for (const socket of sockets) socket.destroy();
+        return new Promise(resolve => server.close(resolve));
+    }));
+});
+
+describe('RedisClient', () => {
+    it('encodes commands and parses their replies', async () => {
+        const received: string[] = [];
+        const host = await startServer((socket, chunk) => {
+            received.push(chunk);
+            socket.write(chunk.includes('GET') ? '$5\r\nhello\r\n' : '*2\r\n:3\r\n:-1\r\n');
+        });
+        const client = createClient(`redis://${host}`);
+
+        expect(await client.command('GET', 'key')).toBe('hello');
+        expect(await client.command('EVAL', 'script', 1, 'key')).toEqual([3, -1]);
+        expect(received[0]).toBe('*2\r\n$3\r\nGET\r\n$3\r\nkey\r\n');
+    });
+
+    it('rejects with the error Redis replies with', async () => {
+        const host = await startServer(socket => socket.write('-ERR unknown command\r\n'));
+        const client = createClient(`redis://${host}`);
+
+        await expect(client.command('NOPE')).rejects.toThrow(RedisReplyError);
+    });
+
+    it('authenticates and selects the database from the URL first', async () => {
+        const received: string[] = [];
+        const host = await startServer((socket, chunk) => {
+            received.push(chunk);
+            socket.write('+OK\r\n');
+        });
+        const client = createClient(`redis://user:secret@${host}/2`);
+
+        await client.command('PING');
+
+        expect(received.join('')).toBe(
+            '*3\r\n$4\r\nAUTH\r\n$4\r\nuser\r\n$6\r\nsecret\r\n'
+            + '*2\r\n$6\r\nSELECT\r\n$1\r\n2\r\n'
+            + '*1\r\n$4\r\nPING\r\n'
+        );
+    });
+
+    it('fails a command Redis never answers, then reconnects for the next one', async () => {
+        let answer = false;
+        const host = await startServer(socket => {
+            if (answer) socket.write('+PONG\r\n');
+        });
+        const client = createClient(`redis://${host}`, { commandTimeoutMs: 50 });
+
+        await expect(client.command('PING')).rejects.toThrow('Redis command PING timed out after 50ms');
+
+        answer = true;
+        expect(await client.command('PING')).toBe('PONG');
+    });
+
+    it('fails when the connection cannot be set up in time', async () => {
+        // A plain TCP server never completes the TLS handshake
+        const host = await startServer(() => undefined);
+        const client = createClient(`rediss://${host}`, { connectTimeoutMs: 50 });
+
+        await expect(client.command('PING')).rejects.toThrow('Redis connection timed out after 50ms');
+    });
+});
@@ -0,0 +1,245 @@
+import { connect as connectTcp, type Socket } from "net";
+import { connect as connectTls } from "tls";
+
+/**
+ * Minimal Redis client speaking RESP2 over a single connection.
+ *
+ * Only covers what the rate limit store needs: send a command and read its reply.
+ * Redis answers commands in the order they were sent, so pending commands are a FIFO queue.
+ * Accepts `redis://[user:password@]host[:port][/db]`, and `rediss://` for TLS.
+ *
+ * Connecting and every command are bounded by a timeout. A command that times out drops the
+ * connection, since its late reply would be matched to the next command; callers get an error
+ * instead of waiting on a Redis that has gone away, so rate limited requests fail rather than pass.
+ */
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisReplyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RedisReplyError';
+    }
+}
+
+type RedisArgument = string | number;
+
+interface PendingCommand {
+    resolve: (reply: RedisReply) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+export interface RedisClientOptions {
+    connectTimeoutMs?: number;
+    commandTimeoutMs?: number;
+}
+
+// A rate limit check sits in front of every request, so a slow Redis must not hold them for long
+const DEFAULT_CONNECT_TIMEOUT_MS = 2000;
+const DEFAULT_COMMAND_TIMEOUT_MS = 1000;
+
+type ParsedReply = { value: RedisReply | RedisReplyError; offset: number };
+
+const CRLF = '\r\n';
+
+const encodeCommand = (args: RedisArgument[]) => {
+    let encoded = `*${args.length}${CRLF}`;
+    for (const arg of args) {
+        const value = String(arg);
+        encoded += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+    }
+    return encoded;
+};
+
+// Parse one reply starting at offset; null while the buffer doesn't hold all of it yet
+const parseReply = (buffer: Buffer, offset: number): ParsedReply | null => {
+    const lineEnd = buffer.indexOf(CRLF, offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(buffer[offset]!);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + CRLF.length;
+
+    switch (type) {
+        case '+':
+            return { value: line, offset: next };
+        case '-':
+            return { value: new RedisReplyError(line), offset: next };
+        case ':':
+            return { value: Number(line), offset: next };
+        case '$': {
+            const length = Number(line);
+            if (length === -1) return { value: null, offset: next };
+            if (buffer.length < next + length + CRLF.length) return null;
+            return { value: buffer.toString('utf8', next, next + length), offset: next + length + CRLF.length };
+        }
+        case '*': {
+            const count = Number(line);
+            if (count === -1) return { value: null, offset: next };
+
+            const items: RedisReply[] = [];
+            let error: RedisReplyError | null = null;
+            let cursor = next;
+
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, cursor);
+                if (!item) return null;
+                cursor = item.offset;
+
+                if (item.value instanceof RedisReplyError) {
+                    error ??= item.value;
+                } else {
+                    items.push(item.value);
+                }
+            }
+
+            return { value: error ?? items, offset: cursor };
+        }
+        default:
+            throw new RedisReplyError(`Unexpected reply type "${type}"`);
+    }
+};
+
+export class RedisClient {
+    private socket: Socket | null = null;
+    private buffer = Buffer.alloc(0);
+    private pending: PendingCommand[] = [];
+    private ready: Promise<void> | null = null;
+    private readonly connectTimeoutMs: number;
+    private readonly commandTimeoutMs: number;
+
+    constructor(private readonly url: string, options: RedisClientOptions = {}) {
+        this.connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+        this.commandTimeoutMs = options.commandTimeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+    }
+
+    async command(...args: RedisArgument[]): Promise<RedisReply> {
+        await this.connect();
+        return this.send(args);
+    }
+
+    close(): void {
+        this.socket?.end();
+        this.reset(new Error('Redis connection closed'));
+    }
+
+    private send(args: RedisArgument[]): Promise<RedisReply> {
+        return new Promise((resolve, reject) => {
+            if (!this.socket) {
+                reject(new Error('Redis connection closed'));
+                return;
+            }
+
+            const timer = setTimeout(() => {
+                this.reset(new Error(`Redis command ${args[0]} timed out after ${this.commandTimeoutMs}ms`));
+            }, this.commandTimeoutMs);
+
+            this.pending.push({ resolve, reject, timer });
+            this.socket.write(encodeCommand(args));
+        });
+    }
+
+    // Connect lazily and reconnect on the next command after the connection drops
+    private connect(): Promise<void> {
+        this.ready ??= this.open().catch((error: unknown) => {
+            this.reset(error instanceof Error ? error : new Error(String(error)));
+            throw error;
+        });
+
+        return this.ready;
+    }
+
+    private async open(): Promise<void> {
+        const url = new URL(this.url);
+        const secure = url.protocol === 'rediss:';
+        const options = { host: url.hostname, port: Number(url.port || 6379) };
+
+        await new Promise<void>((resolve, reject) => {
+            const socket = secure
+                ? connectTls({ ...options, servername: url.hostname })
+                : connectTcp(options);
+
+            const timer = setTimeout(() => {
+                socket.destroy(new Error(`Redis connection timed out after ${this.connectTimeoutMs}ms`));
+            }, this.connectTimeoutMs);
+
+            socket.setNoDelay(true);
+            socket.once(secure ? 'secureConnect' : 'connect', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            socket.once('error', (error: Error) => {
+                clearTimeout(timer);
+                reject(error);
+            });
+            // Events from a socket that has since been replaced must not touch the current one
+            socket.on('error', (error: Error) => {
+                if (this.socket === socket) this.reset(error);
+            });
+            socket.on('close', () => {
+                if (this.socket === socket) this.reset(new Error('Redis connection closed'));
+            });
+            socket.on('data', (chunk: Buffer) => {
+                if (this.socket === socket) this.onData(chunk);
+            });
+
+            this.socket = socket;
+        });
+
+        if (url.password) {
+            const password = decodeURIComponent(url.password);
+            await (url.username
+                ? this.send(['AUTH', decodeURIComponent(url.username), password])
+                : this.send(['AUTH', password]));
+        }
+
+        const database = url.pathname.slice(1);
+        if (database) {
+            await this.send(['SELECT', database]);
+        }
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        let offset = 0;
+        while (offset < this.buffer.length) {
+            let reply: ParsedReply | null;
+            try {
+                reply = parseReply(this.buffer, offset);
+            } catch (error) {
+                // The stream is out of sync; nothing after this point can be matched to a command
+                this.reset(error as Error);
+                return;
+            }
+            if (!reply) break;
+            offset = reply.offset;
+
+            const command = this.pending.shift();
+            clearTimeout(command?.timer);
+            if (reply.value instanceof RedisReplyError) {
+                command?.reject(reply.value);
+            } else {
+                command?.resolve(reply.value);
+            }
+        }
+
+        this.buffer = this.buffer.subarray(offset);
+    }
+
+    private reset(error: Error): void {
+        const pending = this.pending;
+
+        this.socket?.destroy();
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        this.pending = [];
+        this.ready = null;
+
+        for (const command of pending) {
+            clearTimeout(command.timer);
+            command.reject(error);
+        }
+    }
+}
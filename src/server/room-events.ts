@@ -0,0 +1,113 @@
+import { EventEmitter } from "events";
+import { type Prisma } from "@prisma/client";
+import { env } from "~/env";
+import { broadcastRoomUpdate, broadcastVetoUpdate } from "~/lib/supabase-broadcast";
+import { db } from "~/server/db";
+import type { RoomRealtimeUpdate, RoomUpdateType } from "~/types/realtime";
+
+// In-process emitter for room updates, keyed by `room:${masterRoomId}:update`.
+// It feeds the `room.onUpdate` subscription, so it only reaches clients connected to this server process.
+export const roomEventEmitter = new EventEmitter();
+
+// Every open SSE subscription adds a listener, so lift the default limit of 10 per room
+roomEventEmitter.setMaxListeners(0);
+
+// Events that change the veto itself go out as `veto-update`, everything else as `room-update`
+const VETO_UPDATE_TYPES: RoomUpdateType[] = ['veto-started', 'veto-action', 'side-selected', 'veto-undone'];
+
+// How many events `getRoomEventsSince` returns before clients should resync instead
+const MAX_CATCH_UP_EVENTS = 100;
+
+export interface RoomEventRecord extends Omit<RoomRealtimeUpdate, 'timestamp'> {
+    idempotencyKey?: string;
+    result?: unknown; // What the request returned, replayed for retries with the same key
+}
+
+/**
+ * Append an event to the room's log. Call this inside the transaction that made the change,
+ * with the room version the change produced, then publish the returned update after commit.
+ */
+export const recordRoomEvent = async (
+    tx: Prisma.TransactionClient,
+    roomId: string,
+    event: RoomEventRecord
+): Promise<RoomRealtimeUpdate> => {
+    const { idempotencyKey, result, ...update } = event;
+
+    const stored = await tx.roomEvent.create({
+        data: {
+            roomId,
+            version: update.version,
+            type: update.type,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+            data: update.data as any,
+            idempotencyKey,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+            result: result as any,
+        },
+    });
+
+    return { ...update, timestamp: stored.createdAt.getTime() };
+};
+
+/**
+ * The stored result of the request that used this idempotency key, or null if it has not run
+ */
+export const findIdempotentResult = async (roomId: string, idempotencyKey: string): Promise<unknown> => {
+    const event = await db.roomEvent.findUnique({
+        where: { roomId_idempotencyKey: { roomId, idempotencyKey } },
+        select: { result: true },
+    });
+
+    return event?.result ?? null;
+};
+
+/**
+ * Deliver a committed room event to subscribers
+ */
+export const publishRoomEvent = async (update: RoomRealtimeUpdate) => {
+    roomEventEmitter.emit(`room:${update.room}:update`, update);
+
+    if (env.NEXT_PUBLIC_REALTIME_TRANSPORT !== 'supabase') {
+        return;
+    }
+
+    const broadcast = VETO_UPDATE_TYPES.includes(update.type) ? broadcastVetoUpdate : broadcastRoomUpdate;
+
+    // Realtime delivery is best-effort; clients still poll and resync
+    await broadcast(update).catch(() => null);
+};
+
+/**
+ * Events after `version`, oldest first. `complete` is false when the log cannot bridge the gap
+ * (too many events, or some were never stored), in which case the client should resync fully.
+ */
+export const getRoomEventsSince = async (masterRoomId: string, version: number) => {
+    const room = await db.room.findUnique({
+        where: { masterRoomId },
+        select: { id: true, version: true },
+    });
+
+    if (!room) {
+        return null;
+    }
+
+    const events = await db.roomEvent.findMany({
+        where: { roomId: room.id, version: { gt: version } },
+        orderBy: { version: 'asc' },
+        take: MAX_CATCH_UP_EVENTS,
+    });
+
+    const updates: RoomRealtimeUpdate[] = events.map(event => ({
+        type: event.type as RoomUpdateType,
+        room: masterRoomId,
+        version: event.version,
+        data: (event.data as Record<string, unknown> | null) ?? undefined,
+        timestamp: event.createdAt.getTime(),
+    }));
+
+    const complete = updates.every((update, index) => update.version === version + index + 1) &&
+        (updates.at(-1)?.version ?? version) === room.version;
+
+    return { version: room.version, complete, events: updates };
+};
@@ -0,0 +1,72 @@
+import { db } from "~/server/db";
+import type { PresenceRole, RoomPresenceSummary, TeamPresence } from "~/types/room";
+
+// A connection counts as online while its heartbeats are this recent; clients beat every 15 seconds
+const PRESENCE_TIMEOUT_MS = 45 * 1000;
+
+type PresenceRow = {
+    role: string;
+    lastSeenAt: Date;
+    leftAt: Date | null;
+};
+
+const isOnline = (row: PresenceRow, now: number) => {
+    return !row.leftAt && now - row.lastSeenAt.getTime() < PRESENCE_TIMEOUT_MS;
+};
+
+const summarizeTeam = (rows: PresenceRow[], now: number): TeamPresence => {
+    const connections = rows.filter(row => isOnline(row, now)).length;
+    const lastSeen = rows.reduce<Date | null>((latest, row) => {
+        const seen = row.leftAt ?? row.lastSeenAt;
+        return !latest || seen > latest ? seen : latest;
+    }, null);
+
+    return {
+        online: connections > 0,
+        connections,
+        lastSeenAt: lastSeen?.toISOString() ?? null,
+        droppedAt: connections === 0 && lastSeen ? lastSeen.toISOString() : null,
+    };
+};
+
+/**
+ * Mark a client as connected to a room, or keep its connection alive
+ */
+export const recordHeartbeat = async (roomId: string, clientId: string, role: PresenceRole) => {
+    const now = new Date();
+
+    await db.roomPresence.upsert({
+        where: { roomId_clientId: { roomId, clientId } },
+        create: { roomId, clientId, role },
+        update: { role, lastSeenAt: now, leftAt: null },
+    });
+};
+
+/**
+ * Mark a client as gone right away instead of waiting for its heartbeats to time out
+ */
+export const recordLeave = async (roomId: string, clientId: string) => {
+    await db.roomPresence.updateMany({
+        where: { roomId, clientId, leftAt: null },
+        data: { leftAt: new Date() },
+    });
+};
+
+/**
+ * Who is connected to a room: each team's captain and how many spectators are watching
+ */
+export const getRoomPresence = async (roomId: string): Promise<RoomPresenceSummary> => {
+    const rows = await db.roomPresence.findMany({
+        where: { roomId },
+        select: { role: true, lastSeenAt: true, leftAt: true },
+    });
+
+    const now = Date.now();
+
+    return {
+        teamA: summarizeTeam(rows.filter(row => row.role === 'team-a'), now),
+        teamB: summarizeTeam(rows.filter(row => row.role === 'team-b'), now),
+        spectators: rows.filter(row => row.role === 'spectator' && isOnline(row, now)).length,
+        checkedAt: new Date(now).toISOString(),
+    };
+};
@@ -0,0 +1,355 @@
+import { TRPCError } from "@trpc/server";
+import { Prisma, type Match, type PrismaClient } from "@prisma/client";
+import {
+    reportWinner,
+    type Bracket,
+    type BracketEngineError,
+    type BracketFormat,
+    type BracketMatch,
+    type BracketMatchStatus,
+    type BracketRoundType,
+    type BracketSection,
+    type BracketSlot,
+} from "~/lib/bracket-engine";
+import { computeStandings, type StageFormat, type StagePairing, type StageResult } from "~/lib/stage-engine";
+import { getAvailablePresets, getPresetById, type VetoPreset } from "~/constants/veto-presets";
+import type { MatchPickedMaps, MatchStatus, MatchView, StandingsTable } from "~/types/tournament";
+import type { RoomStatus } from "~/types/room";
+import type { MapResultView, VetoState } from "~/types/veto";
+
+// Match with what a MatchView needs; see matchViewInclude
+export type MatchWithRelations = Prisma.MatchGetPayload<{ include: typeof matchViewInclude }>;
+
+export const matchViewInclude = {
+    teamA: { select: { id: true, name: true } },
+    teamB: { select: { id: true, name: true } },
+    room: { select: { masterRoomId: true, spectatorLink: true, status: true } },
+} satisfies Prisma.MatchInclude;
+
+export const toMatchView = (match: MatchWithRelations): MatchView => ({
+    id: match.id,
+    status: match.status as MatchStatus,
+    teamA: match.teamA,
+    teamB: match.teamB,
+    winnerId: match.winnerId,
+    roundType: match.roundType as BracketRoundType | null,
+    bracket: match.bracketKey ? {
+        key: match.bracketKey,
+        section: match.section as BracketSection,
+        round: match.round ?? 1,
+        position: match.position ?? 1,
+    } : null,
+    stage: match.stage ? {
+        format: match.stage as StageFormat,
+        round: match.round ?? 1,
+        group: match.groupName,
+    } : null,
+    room: match.room ? { ...match.room, status: match.room.status as RoomStatus } : null,
+    pickedMaps: match.pickedMaps as MatchPickedMaps | null,
+    mapResults: match.mapResults as MapResultView[] | null,
+    vetoCompletedAt: match.vetoCompletedAt?.toISOString() ?? null,
+    createdAt: match.createdAt.toISOString(),
+});
+
+/**
+ * Copy a finished veto onto the room's match, if it belongs to one.
+ * Runs in the transaction that completes the veto; a match that already has a winner keeps its status.
+ */
+export const recordMatchVetoOutcome = async (
+    tx: Prisma.TransactionClient,
+    roomId: string,
+    vetoState: VetoState
+) => {
+    await tx.match.updateMany({
+        where: { roomId, status: 'veto' },
+        data: {
+            status: 'vetoed',
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
+            pickedMaps: vetoState.pickedMaps as any,
+            vetoCompletedAt: new Date(),
+        },
+    });
+};
+
+/**
+ * Undoing the last step of a finished veto reopens it, so the recorded outcome no longer holds
+ */
+export const reopenMatchVeto = async (tx: Prisma.TransactionClient, roomId: string) => {
+    await tx.match.updateMany({
+        where: { roomId, status: 'vetoed' },
+        data: {
+            status: 'veto',
+            pickedMaps: Prisma.DbNull,
+            vetoCompletedAt: null,
+        },
+    });
+};
+
+const SECTION_ORDER: BracketSection[] = ['winners', 'losers', 'grand-final'];
+
+// Group stage, then playoffs, then one-off matches
+const matchPhase = (match: Match) => match.stage ? 0 : match.bracketKey ? 1 : 2;
+
+/**
+ * Stage matches by round and group, bracket matches in bracket order, then one-off matches in the order they were created
+ */
+export const compareMatches = (a: Match, b: Match): number => {
+    const phase = matchPhase(a) - matchPhase(b);
+    if (phase !== 0) {
+        return phase;
+    }
+
+    if (a.stage) {
+        return (a.round ?? 0) - (b.round ?? 0)
+            || (a.groupName ?? '').localeCompare(b.groupName ?? '')
+            || (a.position ?? 0) - (b.position ?? 0);
+    }
+
+    if (a.bracketKey) {
+        return SECTION_ORDER.indexOf(a.section as BracketSection) - SECTION_ORDER.indexOf(b.section as BracketSection)
+            || (a.round ?? 0) - (b.round ?? 0)
+            || (a.position ?? 0) - (b.position ?? 0);
+    }
+
+    return a.createdAt.getTime() - b.createdAt.getTime();
+};
+
+// A bracket match's veto lifecycle (pending, veto, vetoed) is all "open" to the bracket engine
+const toEngineStatus = (status: string): BracketMatchStatus => {
+    return status === 'completed' || status === 'bye' ? status : 'open';
+};
+
+const toLink = (key: string | null, slot: string | null) => {
+    return key && slot ? { key, slot: slot as BracketSlot } : null;
+};
+
+/**
+ * Rebuild the engine's view of a tournament bracket from its match rows
+ */
+export const toBracket = (format: BracketFormat, matches: Match[]): Bracket => ({
+    format,
+    matches: matches
+        .filter(match => match.bracketKey)
+        .sort(compareMatches)
+        .map((match): BracketMatch => ({
+            key: match.bracketKey!,
+            section: match.section as BracketSection,
+            round: match.round ?? 1,
+            position: match.position ?? 1,
+            roundType: (match.roundType ?? 'bo1') as BracketRoundType,
+            teamA: match.teamAId,
+            teamB: match.teamBId,
+            winner: match.winnerId,
+            status: toEngineStatus(match.status),
+            winnerTo: toLink(match.winnerToKey, match.winnerToSlot),
+            loserTo: toLink(match.loserToKey, match.loserToSlot),
+        })),
+});
+
+/**
+ * Store a freshly generated bracket as match rows
+ */
+export const createBracketMatches = async (
+    tx: Prisma.TransactionClient,
+    tournamentId: string,
+    bracket: Bracket
+) => {
+    await tx.match.createMany({
+        data: bracket.matches.map(match => ({
+            tournamentId,
+            teamAId: match.teamA,
+            teamBId: match.teamB,
+            winnerId: match.winner,
+            status: match.status === 'open' ? 'pending' : match.status,
+            roundType: match.roundType,
+            bracketKey: match.key,
+            section: match.section,
+            round: match.round,
+            position: match.position,
+            winnerToKey: match.winnerTo?.key,
+            winnerToSlot: match.winnerTo?.slot,
+            loserToKey: match.loserTo?.key,
+            loserToSlot: match.loserTo?.slot,
+        })),
+    });
+};
+
+// Write only the fields the engine changed, so reports on different matches never overwrite each other
+const saveBracketChanges = async (
+    tx: Prisma.TransactionClient,
+    tournamentId: string,
+    before: Bracket,
+    after: Bracket
+) => {
+    const previous = new Map(before.matches.map(match => [match.key, match]));
+
+    for (const match of after.matches) {
+        const old = previous.get(match.key);
+        const data: Prisma.MatchUncheckedUpdateInput = {};
+
+        if (match.teamA !== old?.teamA) data.teamAId = match.teamA;
+        if (match.teamB !== old?.teamB) data.teamBId = match.teamB;
+        if (match.winner !== old?.winner) data.winnerId = match.winner;
+        if (match.status !== old?.status && match.status !== 'open') data.status = match.status;
+
+        if (Object.keys(data).length > 0) {
+            await tx.match.update({
+                where: { tournamentId_bracketKey: { tournamentId, bracketKey: match.key } },
+                data,
+            });
+        }
+    }
+};
+
+export const bracketErrorToTRPCError = (error: BracketEngineError) => {
+    return new TRPCError({
+        code: error.code === 'MATCH_NOT_FOUND' ? 'NOT_FOUND' : 'BAD_REQUEST',
+        message: error.message,
+    });
+};
+
+/**
+ * Record a match's winner and, for bracket matches, move both teams on to their next matches
+ */
+export const applyMatchWinner = async (db: PrismaClient, match: Match, winnerId: string) => {
+    await db.$transaction(tx => recordMatchWinner(tx, match, winnerId));
+};
+
+// applyMatchWinner inside a transaction the caller already runs, so the winner lands together with its other writes
+export const recordMatchWinner = async (tx: Prisma.TransactionClient, match: Match, winnerId: string) => {
+    if (match.status === 'completed' || match.status === 'bye') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'This match already has a winner' });
+    }
+
+    if (!match.teamAId || !match.teamBId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Both teams must be known before a winner is reported' });
+    }
+
+    if (winnerId !== match.teamAId && winnerId !== match.teamBId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'The winner must be one of the two teams in the match' });
+    }
+
+    let bracketUpdate: { before: Bracket; after: Bracket } | null = null;
+
+    if (match.bracketKey) {
+        const tournament = await tx.tournament.findUnique({
+            where: { id: match.tournamentId },
+            include: { matches: { where: { bracketKey: { not: null } } } },
+        });
+
+        const before = toBracket((tournament?.format ?? 'single-elimination') as BracketFormat, tournament?.matches ?? []);
+        const result = reportWinner(before, match.bracketKey, winnerId);
+        if (!result.ok) {
+            throw bracketErrorToTRPCError(result.error);
+        }
+
+        bracketUpdate = { before, after: result.bracket };
+    }
+
+    // Claim the match first, so two reports for it can't both go through
+    const claimed = await tx.match.updateMany({
+        where: { id: match.id, status: { notIn: ['completed', 'bye'] } },
+        data: { winnerId, status: 'completed' },
+    });
+
+    if (claimed.count === 0) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'A winner was already reported for this match' });
+    }
+
+    if (bracketUpdate) {
+        await saveBracketChanges(tx, match.tournamentId, bracketUpdate.before, bracketUpdate.after);
+    }
+};
+
+/**
+ * The preset a match vetoes with: the tournament's own, or its counterpart for the match's round type
+ * (bo1-ayatori becomes bo3-ayatori). Null means the room falls back to the generated sequence.
+ */
+export const getMatchPreset = (
+    tournamentPresetId: string,
+    roundType: BracketRoundType | null,
+    mapCount: number
+): VetoPreset | null => {
+    const preset = getPresetById(tournamentPresetId) ?? null;
+
+    if (!roundType || preset?.roundType === roundType) {
+        return preset;
+    }
+
+    const available = getAvailablePresets(roundType, mapCount);
+    const counterpart = preset && available.find(candidate => candidate.id === `${roundType}${preset.id.slice(preset.roundType.length)}`);
+
+    return counterpart ?? available[0] ?? null;
+};
+
+// Stage matches as the stage engine sees them; undecided ones still count as played for rematches
+export const toStageResults = (matches: Match[]): StageResult[] => {
+    return matches
+        .filter(match => match.stage && match.teamAId)
+        .map(match => ({
+            teamA: match.teamAId!,
+            teamB: match.teamBId,
+            winner: match.status === 'completed' || match.status === 'bye' ? match.winnerId : null,
+        }));
+};
+
+/**
+ * Standings for a tournament's stage, ranked from the results reported so far
+ */
+export const getStageStandings = (
+    tournament: { stageFormat: string | null; stageSeeds: string[] },
+    matches: Match[]
+): StandingsTable[] => {
+    if (!tournament.stageFormat) {
+        return [];
+    }
+
+    const results = toStageResults(matches);
+
+    if (tournament.stageFormat === 'swiss') {
+        return [{ group: null, rows: computeStandings(tournament.stageSeeds, results) }];
+    }
+
+    const groups = new Map<string, Set<string>>();
+    for (const match of matches) {
+        if (!match.stage || !match.groupName) continue;
+
+        const members = groups.get(match.groupName) ?? new Set<string>();
+        for (const teamId of [match.teamAId, match.teamBId]) {
+            if (teamId) members.add(teamId);
+        }
+        groups.set(match.groupName, members);
+    }
+
+    return [...groups.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([group, members]) => ({
+            group,
+            rows: computeStandings(tournament.stageSeeds.filter(teamId => members.has(teamId)), results),
+        }));
+};
+
+/**
+ * Store one round of stage pairings; a bye is stored already decided for the team that sits out
+ */
+export const createStageMatches = async (
+    tx: Prisma.TransactionClient,
+    tournamentId: string,
+    stage: { format: StageFormat; round: number; group?: string; roundType?: BracketRoundType },
+    pairings: StagePairing[]
+) => {
+    await tx.match.createMany({
+        data: pairings.map((pairing, index) => ({
+            tournamentId,
+            teamAId: pairing.teamA,
+            teamBId: pairing.teamB,
+            winnerId: pairing.teamB ? null : pairing.teamA,
+            status: pairing.teamB ? 'pending' : 'bye',
+            roundType: stage.roundType,
+            stage: stage.format,
+            groupName: stage.group,
+            round: stage.round,
+            position: index + 1,
+        })),
+    });
+};
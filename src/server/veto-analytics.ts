@@ -0,0 +1,93 @@
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import type { AnalyticsVeto } from "~/lib/veto-analytics";
+import type { TeamType, VetoAction } from "~/types/veto";
+
+// Enough for any realistic filter; statistics over more vetoes than this barely move
+const MAX_ANALYTICS_VETOES = 5000;
+
+export interface VetoAnalyticsFilters {
+    from?: Date;
+    to?: Date;
+    roundType?: 'bo1' | 'bo3' | 'bo5';
+    presetId?: string;
+    tournamentId?: string;
+}
+
+/**
+ * Fields a VetoEvent row carries so analytics can filter completed vetoes and attribute
+ * steps to tournament teams once the room and its match link are gone
+ */
+export const getVetoEventAnalytics = async (
+    tx: Prisma.TransactionClient,
+    room: { id: string; presetId?: string | null },
+    team: TeamType
+) => {
+    const match = await tx.match.findUnique({
+        where: { roomId: room.id },
+        select: { tournamentId: true, teamAId: true, teamBId: true },
+    });
+
+    return {
+        presetId: room.presetId ?? null,
+        tournamentId: match?.tournamentId ?? null,
+        teamId: (team === 'team-a' ? match?.teamAId : match?.teamBId) ?? null,
+    };
+};
+
+/**
+ * Completed vetoes matching the filters, most recent first. A veto counts from the step that
+ * completed it; undoing that step takes the veto out again until it is completed anew.
+ */
+export const loadCompletedVetoes = async (db: PrismaClient, filters: VetoAnalyticsFilters): Promise<AnalyticsVeto[]> => {
+    const completions = await db.vetoEvent.findMany({
+        where: {
+            completesVeto: true,
+            undoneAt: null,
+            createdAt: { gte: filters.from, lte: filters.to },
+            roundType: filters.roundType,
+            presetId: filters.presetId,
+            tournamentId: filters.tournamentId,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_ANALYTICS_VETOES,
+        select: { masterRoomId: true, maps: true, tournamentId: true },
+    });
+
+    const steps = await db.vetoEvent.findMany({
+        where: {
+            masterRoomId: { in: completions.map(completion => completion.masterRoomId) },
+            undoneAt: null,
+            action: { not: 'undo' },
+        },
+        orderBy: { stepIndex: 'asc' },
+    });
+
+    const stepsByVeto = new Map<string, typeof steps>();
+    for (const step of steps) {
+        const vetoSteps = stepsByVeto.get(step.masterRoomId);
+        if (vetoSteps) {
+            vetoSteps.push(step);
+        } else {
+            stepsByVeto.set(step.masterRoomId, [step]);
+        }
+    }
+
+    return completions.map(completion => {
+        const vetoSteps = stepsByVeto.get(completion.masterRoomId) ?? [];
+        const teamIdOf = (team: TeamType) => vetoSteps.find(step => step.team === team && step.teamId)?.teamId ?? null;
+
+        return {
+            maps: completion.maps,
+            actions: vetoSteps.map((step): VetoAction => ({
+                type: step.action as VetoAction['type'],
+                mapId: step.mapId ?? undefined,
+                side: (step.side as VetoAction['side']) ?? undefined,
+                team: step.team as TeamType,
+                timestamp: step.createdAt.toISOString(),
+            })),
+            teamIds: completion.tournamentId
+                ? { 'team-a': teamIdOf('team-a'), 'team-b': teamIdOf('team-b') }
+                : undefined,
+        };
+    });
+};
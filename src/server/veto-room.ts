@@ -0,0 +1,69 @@
+import { TRPCError } from "@trpc/server";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { SecurityUtils } from "~/lib/room-validation";
+import { findPresetForSequence, type VetoStep } from "~/constants/veto-presets";
+
+// Rooms live for a day; cleanup removes them afterwards
+const ROOM_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+const BASE_URL = "https://strinova-veto.vercel.app";
+
+export interface CreateVetoRoomOptions {
+    maps: string[];
+    roundType: 'bo1' | 'bo3' | 'bo5';
+    customVetoSequence?: Array<Omit<VetoStep, 'completed'>>;
+    presetId?: string; // Preset the sequence came from; otherwise it's looked up from the sequence
+    turnTimeLimitSeconds?: number;
+    timeoutFallback: 'random' | 'none';
+    teamAName?: string;
+    teamBName?: string;
+    createdById?: string;
+}
+
+/**
+ * Create a veto room with fresh links. Callers validate the maps and sequence first.
+ */
+export const createVetoRoom = async (
+    db: PrismaClient | Prisma.TransactionClient,
+    options: CreateVetoRoomOptions
+) => {
+    const roomLinks = SecurityUtils.generateRoomLinks(BASE_URL);
+
+    try {
+        return await db.room.create({
+            data: {
+                masterRoomId: roomLinks.masterRoomId,
+                teamAId: roomLinks.teamAId,
+                teamBId: roomLinks.teamBId,
+                teamALink: roomLinks.teamALink,
+                teamBLink: roomLinks.teamBLink,
+                spectatorLink: roomLinks.spectatorLink,
+                expiresAt: new Date(Date.now() + ROOM_LIFETIME_MS),
+                maps: options.maps,
+                roundType: options.roundType,
+                teamAReady: false,
+                teamBReady: false,
+                teamAName: options.teamAName,
+                teamBName: options.teamBName,
+                status: "waiting",
+                customVetoSequence: options.customVetoSequence ?? undefined,
+                presetId: options.presetId ?? findPresetForSequence(options.roundType, options.customVetoSequence)?.id,
+                turnTimeLimitSeconds: options.turnTimeLimitSeconds,
+                timeoutFallback: options.timeoutFallback,
+                createdById: options.createdById,
+            },
+        });
+    } catch (error) {
+        // If database creation fails, we should handle potential race conditions
+        if (error instanceof Error && error.message.includes('unique constraint')) {
+            throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Room creation failed due to ID collision. Please try again.',
+            });
+        }
+        throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to create room. Please try again.',
+        });
+    }
+};
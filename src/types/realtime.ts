@@ -0,0 +1,19 @@
+export type RoomUpdateType =
+    | 'team-ready-updated'
+    | 'veto-started'
+    | 'veto-action'
+    | 'side-selected'
+    | 'team-name-updated'
+    | 'veto-undone'
+    | 'room-cancelled'
+    | 'room-expired'
+    | 'room-deleted'
+    | 'map-result-updated';
+
+export interface RoomRealtimeUpdate {
+    type: RoomUpdateType;
+    room: string;
+    version: number; // Room.version after the change was committed
+    data?: Record<string, unknown>;
+    timestamp: number;
+}
@@ -1,9 +1,11 @@
-export interface RoomData {
+export type RoomViewRole = 'spectator' | 'team-a' | 'team-b' | 'organizer';
+
+export type RoomStatus = 'waiting' | 'active' | 'completed' | 'expired' | 'cancelled';
+
+// Fields every role may see
+interface RoomViewBase {
     id: string;
-    teamAId: string;
-    teamBId: string;
-    teamALink: string;
-    teamBLink: string;
+    masterRoomId: string;
     spectatorLink: string;
     createdAt: string;
     expiresAt: string;
@@ -13,11 +15,48 @@ export interface RoomData {
     teamBReady: boolean;
     teamAName?: string | null;
     teamBName?: string | null;
-    status: 'waiting' | 'active' | 'completed' | 'expired';
-    masterRoomId?: string;
-    teamRole?: 'team-a' | 'team-b';
+    status: RoomStatus;
     vetoStarted?: boolean;
     vetoCompleted?: boolean;
     currentTurn?: string | null;
     vetoState?: unknown;
+    cancelReason?: string | null;
+    version: number; // Room version this view reflects, for ordering realtime updates
+}
+
+export interface SpectatorRoomData extends RoomViewBase {
+    role: 'spectator';
+}
+
+// A team only ever sees its own ID and link
+export interface TeamRoomData extends RoomViewBase {
+    role: 'team-a' | 'team-b';
+    teamId: string;
+    teamLink: string;
+}
+
+export interface OrganizerRoomData extends RoomViewBase {
+    role: 'organizer';
+    teamAId: string;
+    teamBId: string;
+    teamALink: string;
+    teamBLink: string;
+}
+
+export type RoomData = SpectatorRoomData | TeamRoomData | OrganizerRoomData;
+
+export type PresenceRole = 'team-a' | 'team-b' | 'spectator';
+
+export interface TeamPresence {
+    online: boolean;
+    connections: number; // Open tabs using this team's link
+    lastSeenAt: string | null; // null if nobody has opened the team link yet
+    droppedAt: string | null; // When the last connection went away, while the team is offline
+}
+
+export interface RoomPresenceSummary {
+    teamA: TeamPresence;
+    teamB: TeamPresence;
+    spectators: number;
+    checkedAt: string;
 }
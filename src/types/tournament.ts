@@ -0,0 +1,89 @@
+import type { BracketFormat, BracketRoundType, BracketSection } from '~/lib/bracket-engine';
+import type { StageFormat, StandingRow } from '~/lib/stage-engine';
+import type { RoomStatus } from './room';
+import type { MapResultView, VetoState } from './veto';
+
+// pending: no room yet, veto: room open, vetoed: veto outcome recorded,
+// completed: winner reported, bye: decided without being played
+export type MatchStatus = 'pending' | 'veto' | 'vetoed' | 'completed' | 'bye';
+
+export type MatchPickedMaps = VetoState['pickedMaps'];
+
+export interface TeamView {
+    id: string;
+    name: string;
+}
+
+// Only the spectator side of a match room is public; team links go to organizers
+export interface MatchRoomSummary {
+    masterRoomId: string;
+    spectatorLink: string;
+    status: RoomStatus;
+}
+
+// Where a match sits in the tournament's bracket
+export interface MatchBracketPosition {
+    key: string;
+    section: BracketSection;
+    round: number;
+    position: number;
+}
+
+// Where a match sits in the tournament's Swiss or round-robin stage
+export interface MatchStagePosition {
+    format: StageFormat;
+    round: number;
+    group: string | null;
+}
+
+export interface MatchView {
+    id: string;
+    status: MatchStatus;
+    teamA: TeamView | null; // Unknown until the bracket match feeding it is decided
+    teamB: TeamView | null;
+    winnerId: string | null;
+    roundType: BracketRoundType | null;
+    bracket: MatchBracketPosition | null;
+    stage: MatchStagePosition | null;
+    room: MatchRoomSummary | null;
+    pickedMaps: MatchPickedMaps | null;
+    mapResults: MapResultView[] | null; // Confirmed scores, once the series is decided in the room
+    vetoCompletedAt: string | null;
+    createdAt: string;
+}
+
+export interface TournamentSummary {
+    id: string;
+    name: string;
+    presetId: string;
+    mapPool: string[];
+    turnTimeLimitSeconds: number | null;
+    format: BracketFormat | null;
+    stageFormat: StageFormat | null;
+    createdAt: string;
+    teamCount: number;
+    matchCount: number;
+}
+
+// One table per round-robin group; a Swiss stage has a single table with no group
+export interface StandingsTable {
+    group: string | null;
+    rows: StandingRow[];
+}
+
+export interface TournamentView extends Omit<TournamentSummary, 'teamCount' | 'matchCount'> {
+    stageRounds: number | null;
+    stageRound: number | null;
+    teams: TeamView[];
+    matches: MatchView[];
+    standings: StandingsTable[];
+}
+
+// What an organizer hands out when a match room opens
+export interface MatchRoomLinks {
+    matchId: string;
+    masterRoomId: string;
+    teamALink: string;
+    teamBLink: string;
+    spectatorLink: string;
+}
@@ -21,10 +21,22 @@ export interface VetoState {
         team: 'team-a' | 'team-b';
         action: 'ban' | 'pick' | 'side';
         completed: boolean;
+        timeLimitSeconds?: number;
     }>;
     currentStep: number;
 }
 
+// Veto state as returned by room.getVetoState
+export interface VetoStateView {
+    vetoStarted: boolean;
+    vetoCompleted: boolean;
+    currentTurn: string | null;
+    vetoState: VetoState | null;
+    turnDeadline: string | null;
+    serverTime: string;
+    version: number; // Room version this state reflects; send it back as expectedVersion
+}
+
 export interface VetoProcessProps {
     masterRoomId: string; // For realtime subscriptions
     teamRoomId: string;   // For API calls
@@ -32,10 +44,38 @@ export interface VetoProcessProps {
     isSpectator?: boolean;
     teamAName: string | null;
     teamBName: string | null;
-    roundType?: string;
     onVetoComplete?: () => void;
 }
 
 export type TeamType = 'team-a' | 'team-b';
 export type ActionType = 'ban' | 'pick' | 'side';
 export type SideType = 'attack' | 'defense';
+
+export type MapResultStatus = 'reported' | 'confirmed' | 'disputed';
+
+// A reported score for one picked map; mapIndex points into vetoState.pickedMaps
+export interface MapResultView {
+    mapIndex: number;
+    mapId: string;
+    teamAScore: number;
+    teamBScore: number;
+    reportedBy: TeamType | 'organizer';
+    status: MapResultStatus;
+    disputeReason: string | null;
+    reportedAt: string;
+    confirmedAt: string | null;
+}
+
+export interface SeriesResult {
+    teamAWins: number; // Confirmed maps only
+    teamBWins: number;
+    winsNeeded: number;
+    winner: TeamType | null;
+}
+
+// Map results as returned by room.getMapResults
+export interface MapResultsView {
+    results: MapResultView[];
+    series: SeriesResult;
+    version: number;
+}
@@ -0,0 +1,15 @@
+-- Realtime authorization for the private `room:<masterRoomId>` broadcast channels.
+-- Run once in the Supabase SQL editor, then turn off "Allow public access" in the Realtime settings
+-- so clients cannot fall back to public channels.
+--
+-- Clients (anon and signed-in) may receive room broadcasts. There is deliberately no insert
+-- policy: only the server, connecting with the service role key, can send on these channels.
+
+create policy "Clients can receive room broadcasts"
+on realtime.messages
+for select
+to anon, authenticated
+using (
+  realtime.messages.extension = 'broadcast'
+  and realtime.topic() like 'room:%'
+);
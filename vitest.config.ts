@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Unit tests sit next to the code they cover; anything touching the database or env mocks it
+export default defineConfig({
+    resolve: {
+        alias: {
+            "~": fileURLToPath(new URL("./src", import.meta.url)),
+        },
+    },
+    test: {
+        include: ["src/**/*.test.ts"],
+        environment: "node",
+    },
+});